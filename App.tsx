@@ -1,96 +1,146 @@
 
-import React, { useState, useEffect } from 'react';
-import { WorkflowStep, WORKFLOW_STEPS, AppState, InternalLink } from './types';
-import Setup from './components/Setup';
-import TopicIdeation from './components/IdeaLab';
-import ResearchAndOutline from './components/ContentRepurposer';
-import ArticleDrafting from './components/DraftingStudio';
-import Publish from './components/AudioPublisher';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { WorkflowStep, AppState, InternalLink, Project, DraftSnapshot, ResearchData, StyleGuide, Market, MarketVariant } from './types';
 import IntroScreen from './components/IntroScreen';
+import ProjectDashboard from './components/ProjectDashboard';
+import SettingsModal from './components/SettingsModal';
+import UsagePanel from './components/UsagePanel';
+import { saveAsset, deleteAsset } from './services/assetStore';
+import { createEmptyResearch } from './services/research';
+import { createEmptyAppState, createProject, getActiveProjectId, loadProject, saveProject, setActiveProjectId } from './services/projects';
+import { isOverBudget, loadProjectUsage, setUsageContext, subscribeToUsage } from './services/usage';
+import { MOCK_MODE } from './services/fixtures';
+import { buildRoute, parseRoute, Route } from './utils/router';
+import { STEP_REGISTRY, StepProps, getDownstreamFields, getPipelineSteps, getStepBySlug, isStepUnlocked } from './workflow';
 
 // Icons
 const IconMenu = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" /></svg>;
 const IconX = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>;
-const IconGlobe = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9V3m0 18a9 9 0 009-9m-9 9a9 9 0 00-9-9" /></svg>;
-const IconLightBulb = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 017.072 0m-11.314 0a5 5 0 007.072 0M12 21v-1m-4.657-3.343l.707-.707" /></svg>;
-const IconSearch = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>;
-const IconPencil = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L15.232 5.232z" /></svg>;
-const IconUpload = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>;
 const IconChevronLeft = ({ className }: { className?: string }) => <svg xmlns="http://www.w3.org/2000/svg" className={className || "h-5 w-5"} viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" /></svg>;
 const IconChevronRight = ({ className }: { className?: string }) => <svg xmlns="http://www.w3.org/2000/svg" className={className || "h-5 w-5"} viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" /></svg>;
+const IconFolder = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" /></svg>;
+const IconCog = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>;
+const IconChart = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>;
 const IconRefresh = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>;
 
 
-const STEP_COMPONENTS: Record<WorkflowStep, React.ComponentType<any>> = {
-  'Setup': Setup,
-  'Topic Ideation': TopicIdeation,
-  'Research & Outline': ResearchAndOutline,
-  'Drafting': ArticleDrafting,
-  'Publish': Publish,
+// Opens the step from a link only if the normal step gating would allow it
+const applyRouteStep = (project: Project, stepSlug: string | null): Project => {
+  const step = stepSlug ? getStepBySlug(stepSlug) : undefined;
+  return step && step.id !== project.activeStep && isStepUnlocked(project.type, step.id, project.highestCompletedStepIndex)
+    ? { ...project, activeStep: step.id }
+    : project;
 };
 
-const STEP_ICONS: Record<WorkflowStep, React.ReactNode> = {
-  'Setup': <IconGlobe />,
-  'Topic Ideation': <IconLightBulb />,
-  'Research & Outline': <IconSearch />,
-  'Drafting': <IconPencil />,
-  'Publish': <IconUpload />,
-};
-
-const getInitialState = (): AppState => {
-  try {
-    const savedState = localStorage.getItem('rankensteinAppState');
-    if (savedState) {
-      return JSON.parse(savedState);
-    }
-  } catch (error) {
-    console.error("Failed to parse saved state from localStorage", error);
-    localStorage.removeItem('rankensteinAppState');
-  }
-  return { websiteUrl: '', country: '', language: '', topic: '', outline: [], draft: '', imageUrl: '', internalLinks: [] };
-};
-
-const getInitialProgress = (initialState: AppState) => {
-    if (initialState.draft) {
-        return { index: 3, step: 'Publish' as WorkflowStep };
-    }
-    if (initialState.outline.length > 0) {
-        return { index: 2, step: 'Drafting' as WorkflowStep };
-    }
-    if (initialState.topic) {
-        return { index: 1, step: 'Research & Outline' as WorkflowStep };
-    }
-    if (initialState.websiteUrl) {
-        return { index: 0, step: 'Topic Ideation' as WorkflowStep };
+const App: React.FC = () => {
+  const [initialRoute] = useState(() => parseRoute(window.location.hash));
+  const [project, setProject] = useState<Project | null>(() => {
+    if (initialRoute?.view === 'project') {
+      const linked = loadProject(initialRoute.projectId);
+      if (linked) {
+        setActiveProjectId(linked.id);
+        return applyRouteStep(linked, initialRoute.stepSlug);
+      }
     }
-    return { index: -1, step: 'Setup' as WorkflowStep };
-};
+    const activeId = getActiveProjectId();
+    return activeId ? loadProject(activeId) : null;
+  });
+  const [showDashboard, setShowDashboard] = useState(
+    project === null || initialRoute?.view === 'dashboard' || (initialRoute?.view === 'project' && initialRoute.projectId !== project.id)
+  );
+  const [showIntro, setShowIntro] = useState(initialRoute === null); // Deep links skip the intro
 
+  const appState = project?.state ?? createEmptyAppState();
+  const pipelineSteps = getPipelineSteps(project?.type);
+  // Fall back to the first step if the saved one is no longer part of the pipeline
+  const activeStepDefinition = pipelineSteps.find(step => step.id === project?.activeStep) ?? pipelineSteps[0];
+  const activeStep = activeStepDefinition.id;
+  const highestCompletedStepIndex = project?.highestCompletedStepIndex ?? -1;
 
-const App: React.FC = () => {
-  const [appState, setAppState] = useState<AppState>(getInitialState);
-  const [showIntro, setShowIntro] = useState(true); // Init Intro State
-  
-  const initialProgress = getInitialProgress(appState);
-  const [activeStep, setActiveStep] = useState<WorkflowStep>(initialProgress.step);
-  const [highestCompletedStepIndex, setHighestCompletedStepIndex] = useState(initialProgress.index);
+  const updateProject = (updater: (prev: Project) => Partial<Project>) => {
+    setProject(prev => prev ? { ...prev, ...updater(prev), updatedAt: Date.now() } : prev);
+  };
+  const setAppState = (updater: (prev: AppState) => AppState) => updateProject(prev => ({ state: updater(prev.state) }));
+  const setActiveStep = (step: WorkflowStep) => updateProject(() => ({ activeStep: step }));
+  const setHighestCompletedStepIndex = (index: number) => updateProject(() => ({ highestCompletedStepIndex: index }));
   
   // Sidebar State
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [isBudgetBlocked, setIsBudgetBlocked] = useState(false);
 
   useEffect(() => {
+    if (!project) return;
     try {
-      const stateToSave = { ...appState };
-      // FIX: Prevent localStorage quota exceeded error by not saving large base64 strings
-      if (stateToSave.imageUrl && stateToSave.imageUrl.startsWith('data:')) {
-          stateToSave.imageUrl = ''; 
-      }
-      localStorage.setItem('rankensteinAppState', JSON.stringify(stateToSave));
+      // Binary assets live in IndexedDB; the state only holds their asset:// references.
+      saveProject(project);
     } catch (error) {
-      console.error("Failed to save state to localStorage", error);
+      console.error("Failed to save project to localStorage", error);
     }
-  }, [appState]);
+  }, [project]);
+
+  // Charge AI calls to the open project and step
+  useEffect(() => {
+    setUsageContext(project?.id ?? null, project ? activeStep : null);
+  }, [project?.id, activeStep]);
+
+  useEffect(() => {
+    setIsBudgetBlocked(false);
+    return subscribeToUsage(({ projectId, blocked }) => {
+      if (blocked) setIsBudgetBlocked(true);
+      else if (projectId && !isOverBudget(loadProjectUsage(projectId))) setIsBudgetBlocked(false);
+    });
+  }, [project?.id]);
+
+  // Mirror the current view into the URL so back/forward and shared links work
+  useEffect(() => {
+    const route: Route = showDashboard || !project
+      ? { view: 'dashboard' }
+      : { view: 'project', projectId: project.id, stepSlug: activeStepDefinition.slug };
+    const target = buildRoute(route);
+    if (window.location.hash === target) return;
+    if (parseRoute(window.location.hash) === null) {
+      window.history.replaceState(null, '', target);
+    } else {
+      window.location.hash = target;
+    }
+  }, [showDashboard, project?.id, activeStep]);
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      const route = parseRoute(window.location.hash);
+      if (!route) return; // In-page anchors, e.g. the draft's table of contents
+      if (route.view === 'dashboard') {
+        setShowDashboard(true);
+        return;
+      }
+      if (route.projectId !== project?.id) {
+        const linked = loadProject(route.projectId);
+        if (!linked) {
+          window.history.replaceState(null, '', buildRoute({ view: 'dashboard' }));
+          setShowDashboard(true);
+          return;
+        }
+        setProject(applyRouteStep(linked, route.stepSlug));
+        setActiveProjectId(linked.id);
+        setShowDashboard(false);
+        return;
+      }
+      setShowDashboard(false);
+      const step = route.stepSlug ? getStepBySlug(route.stepSlug) : undefined;
+      if (step && step.id !== project.activeStep) {
+        if (isStepUnlocked(project.type, step.id, project.highestCompletedStepIndex)) {
+          setActiveStep(step.id);
+        } else {
+          window.history.replaceState(null, '', buildRoute({ view: 'project', projectId: project.id, stepSlug: STEP_REGISTRY[project.activeStep]?.slug ?? null }));
+        }
+      }
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [project]);
 
   useEffect(() => {
     const handleResize = () => {
@@ -103,67 +153,127 @@ const App: React.FC = () => {
   }, []);
 
   const goToStep = (stepIndex: number) => {
-    if (stepIndex <= highestCompletedStepIndex + 1) {
-      setActiveStep(WORKFLOW_STEPS[stepIndex]);
+    const step = pipelineSteps[stepIndex];
+    if (project && step && isStepUnlocked(project.type, step.id, highestCompletedStepIndex)) {
+      setActiveStep(step.id);
+      setShowDashboard(false);
       setIsMobileMenuOpen(false);
     }
   };
 
-  const handleSetupComplete = (websiteUrl: string, country: string, language: string) => {
-    setAppState(prev => ({ ...prev, websiteUrl, country, language, topic: '', outline: [], draft: '', imageUrl: '', internalLinks: [] }));
-    setHighestCompletedStepIndex(0);
-    setActiveStep('Topic Ideation');
+  // Saves a step's output, clears whatever later steps built on the old output and moves on
+  const completeStep = (stepId: WorkflowStep, output: Partial<AppState>) => {
+    if (!project) return;
+    const emptyState = createEmptyAppState();
+    const staleFields = Object.fromEntries(getDownstreamFields(project.type, stepId).map(field => [field, emptyState[field]]));
+    const index = pipelineSteps.findIndex(step => step.id === stepId);
+    setAppState(prev => ({ ...prev, ...staleFields, ...output }));
+    setHighestCompletedStepIndex(index);
+    setActiveStep(pipelineSteps[index + 1]?.id ?? stepId);
+  };
+
+  const handleSetupComplete = (websiteUrl: string, country: string, language: string, styleGuide: StyleGuide | null, markets: Market[]) => {
+    completeStep('Setup', { websiteUrl, country, language, styleGuide, markets });
   };
 
   const handleTopicSelect = (topic: string) => {
-    setAppState(prev => ({ ...prev, topic, outline: [], draft: '', imageUrl: '', internalLinks: [] }));
-    setHighestCompletedStepIndex(1);
-    setActiveStep('Research & Outline');
+    completeStep('Topic Ideation', { topic });
   };
 
   const handleOutlineComplete = (outline: string[], internalLinks: InternalLink[]) => {
-    setAppState(prev => ({ ...prev, outline, internalLinks, draft: '', imageUrl: '' }));
-    setHighestCompletedStepIndex(2);
-    setActiveStep('Drafting');
+    completeStep('Research & Outline', { outline, internalLinks });
   };
 
   const handleDraftComplete = (draft: string) => {
-    setAppState(prev => ({ ...prev, draft }));
-    setHighestCompletedStepIndex(3);
-    setActiveStep('Publish');
+    completeStep('Drafting', { draft });
   };
   
-  const handleImageGenerated = (imageUrl: string) => {
-    setAppState(prev => ({ ...prev, imageUrl }));
+  const handleMarketVariantsChange = (updater: (prev: MarketVariant[]) => MarketVariant[]) => {
+    setAppState(prev => ({ ...prev, marketVariants: updater(prev.marketVariants) }));
   };
 
-  const handleRestart = () => {
-    if (window.confirm("Are you sure you want to start over? All current progress will be lost.")) {
-      const defaultState = { websiteUrl: '', country: '', language: '', topic: '', outline: [], draft: '', imageUrl: '', internalLinks: [] };
-      setAppState(defaultState);
-      setHighestCompletedStepIndex(-1);
-      setActiveStep('Setup');
-      try {
-          localStorage.removeItem('rankensteinAppState');
-      } catch (error) {
-          console.error("Failed to clear localStorage", error);
-      }
+  const handleLocalizationComplete = () => {
+    completeStep('Localization', {});
+  };
+
+  const handleSnapshotsChange = (updater: (prev: DraftSnapshot[]) => DraftSnapshot[]) => {
+    setAppState(prev => ({ ...prev, draftSnapshots: updater(prev.draftSnapshots) }));
+  };
+
+  const handleResearchChange = (updater: (prev: ResearchData) => ResearchData) => {
+    setAppState(prev => {
+      const current = prev.research?.topic === prev.topic ? prev.research : createEmptyResearch(prev.topic);
+      return { ...prev, research: updater(current) };
+    });
+  };
+
+  // The image being replaced is read from a ref, so the callback only changes with the project.
+  // The Drafting Studio generates the header image in an effect that depends on it.
+  const imageUrlRef = useRef(appState.imageUrl);
+  imageUrlRef.current = appState.imageUrl;
+  const projectId = project?.id;
+  const handleImageGenerated = useCallback(async (imageUrl: string) => {
+    if (!projectId) return;
+    try {
+      // Persist generated images so they survive reloads without touching the localStorage quota
+      const storedUrl = imageUrl.startsWith('data:') ? await saveAsset(projectId, imageUrl) : imageUrl;
+      const previousImageUrl = imageUrlRef.current;
+      imageUrlRef.current = storedUrl;
+      setAppState(prev => ({ ...prev, imageUrl: storedUrl }));
+      if (previousImageUrl !== storedUrl) deleteAsset(previousImageUrl).catch(() => {});
+    } catch (error) {
+      console.error("Failed to store header image", error);
+      setAppState(prev => ({ ...prev, imageUrl }));
     }
+  }, [projectId]);
+
+  const handleAudioGenerated = (audioUrl: string) => {
+    const previousAudioUrl = appState.audioUrl;
+    setAppState(prev => ({ ...prev, audioUrl }));
+    if (previousAudioUrl !== audioUrl) deleteAsset(previousAudioUrl).catch(() => {});
+  };
+
+  const handleOpenProject = (id: string) => {
+    const loaded = loadProject(id);
+    if (!loaded) return;
+    setProject(loaded);
+    setActiveProjectId(loaded.id);
+    setShowDashboard(false);
+    setIsMobileMenuOpen(false);
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    if (project?.id === id) setProject(null);
+  };
+
+  const handleNewProject = () => {
+    handleOpenProject(createProject('').id);
+  };
+
+  const handleShowDashboard = () => {
+    setShowDashboard(true);
+    setIsMobileMenuOpen(false);
   };
   
   if (showIntro) {
       return <IntroScreen onStart={() => setShowIntro(false)} />;
   }
 
-  const ActiveComponent = STEP_COMPONENTS[activeStep];
-  const componentProps = {
+  const ActiveComponent = activeStepDefinition.component;
+  const componentProps: Omit<StepProps, 'projectId'> = {
     appState,
+    supportsMarkets: pipelineSteps.some(step => step.produces.includes('marketVariants')),
     onSetupComplete: handleSetupComplete,
     onTopicSelect: handleTopicSelect,
     onOutlineComplete: handleOutlineComplete,
     onDraftComplete: handleDraftComplete,
     onImageGenerated: handleImageGenerated,
-    onRestart: handleRestart,
+    onSnapshotsChange: handleSnapshotsChange,
+    onResearchChange: handleResearchChange,
+    onMarketVariantsChange: handleMarketVariantsChange,
+    onLocalizationComplete: handleLocalizationComplete,
+    onAudioGenerated: handleAudioGenerated,
+    onRestart: handleNewProject,
   };
 
   return (
@@ -226,10 +336,13 @@ const App: React.FC = () => {
 
         {/* Navigation List */}
         <div className="flex-1 py-6 px-3 overflow-y-auto scrollbar-hide">
+          {project && !isSidebarCollapsed && (
+            <p className="px-3 mb-3 text-[10px] font-medium tracking-wider uppercase text-slate-500 truncate animate-fade-in" title={project.name}>{project.name}</p>
+          )}
           <div className="space-y-1.5">
-            {WORKFLOW_STEPS.map((step, index) => {
-              const isActive = activeStep === step;
-              const isEnabled = index <= highestCompletedStepIndex + 1;
+            {pipelineSteps.map(({ id: step, icon }, index) => {
+              const isActive = !showDashboard && project !== null && activeStep === step;
+              const isEnabled = project !== null && isStepUnlocked(project.type, step, highestCompletedStepIndex);
               
               return (
                 <button
@@ -249,7 +362,7 @@ const App: React.FC = () => {
                   `}
                 >
                   <span className={`flex-shrink-0 transition-transform duration-300 ${isActive ? 'scale-110' : 'group-hover:scale-110'}`}>
-                      {STEP_ICONS[step]}
+                      {icon}
                   </span>
                   
                   {!isSidebarCollapsed && (
@@ -271,24 +384,30 @@ const App: React.FC = () => {
         
         {/* Footer Actions */}
         <div className="p-4 border-t border-white/5 space-y-2">
-             {!isSidebarCollapsed && (
-                <button 
-                    onClick={handleRestart}
-                    className="flex items-center w-full p-3 text-sm font-medium text-slate-300 rounded-full hover:bg-white/5 hover:text-red-400 transition-colors group"
+             {[
+                { label: 'All Projects', icon: <IconFolder />, onClick: handleShowDashboard, hover: 'hover:text-white' },
+                { label: 'New Project', icon: <IconRefresh />, onClick: handleNewProject, hover: 'hover:text-indigo-300' },
+                ...(project ? [{ label: 'Usage', icon: <IconChart />, onClick: () => { setShowUsage(true); setIsMobileMenuOpen(false); }, hover: 'hover:text-white' }] : []),
+                { label: 'Settings', icon: <IconCog />, onClick: () => { setShowSettings(true); setIsMobileMenuOpen(false); }, hover: 'hover:text-white' },
+             ].map(action => isSidebarCollapsed ? (
+                 <button 
+                    key={action.label}
+                    onClick={action.onClick}
+                    title={action.label}
+                    className={`flex items-center justify-center w-full p-3 text-slate-300 rounded-full hover:bg-white/5 ${action.hover} transition-colors aspect-square`}
                 >
-                    <IconRefresh />
-                    <span className="ml-3">New Project</span>
+                    {action.icon}
                 </button>
-             )}
-             {isSidebarCollapsed && (
-                 <button 
-                    onClick={handleRestart}
-                    title="New Project"
-                    className="flex items-center justify-center w-full p-3 text-slate-300 rounded-full hover:bg-white/5 hover:text-red-400 transition-colors aspect-square"
+             ) : (
+                <button 
+                    key={action.label}
+                    onClick={action.onClick}
+                    className={`flex items-center w-full p-3 text-sm font-medium text-slate-300 rounded-full hover:bg-white/5 ${action.hover} transition-colors group`}
                 >
-                    <IconRefresh />
+                    {action.icon}
+                    <span className="ml-3">{action.label}</span>
                 </button>
-             )}
+             ))}
         </div>
       </nav>
 
@@ -313,10 +432,30 @@ const App: React.FC = () => {
 
         <div className="flex-grow p-4 md:p-8 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-700 scrollbar-track-transparent">
           <div className="max-w-6xl mx-auto h-full">
-            <ActiveComponent {...componentProps} />
+            {MOCK_MODE !== 'off' && (
+              <div className="mb-4 p-2 text-xs text-amber-300 bg-amber-900/20 border border-amber-800/50 rounded-lg">
+                {MOCK_MODE === 'replay'
+                  ? 'Mock mode: AI and webhook calls are answered offline from fixtures.'
+                  : 'Recording mode: real AI and webhook responses are being saved as fixtures.'}
+              </div>
+            )}
+            {isBudgetBlocked && project && !showDashboard && (
+              <div className="flex items-center justify-between gap-4 mb-4 p-3 text-sm text-red-300 bg-red-900/30 border border-red-800/50 rounded-lg animate-fade-in">
+                <span>This project has reached its budget cap, so AI calls are blocked.</span>
+                <button onClick={() => setShowUsage(true)} className="flex-shrink-0 px-3 py-1 text-xs font-semibold bg-red-800/50 text-white rounded-md hover:bg-red-800">Review Usage</button>
+              </div>
+            )}
+            {showDashboard || !project ? (
+              <ProjectDashboard activeProjectId={project?.id ?? null} onOpenProject={handleOpenProject} onProjectDeleted={handleProjectDeleted} />
+            ) : (
+              <ActiveComponent key={project.id} projectId={project.id} {...componentProps} />
+            )}
           </div>
         </div>
       </main>
+
+      {showSettings && <SettingsModal onClose={() => setShowSettings(false)} />}
+      {showUsage && project && <UsagePanel projectId={project.id} projectName={project.name} onClose={() => setShowUsage(false)} />}
     </div>
   );
 };
@@ -0,0 +1,54 @@
+
+import React, { useEffect, useState } from 'react';
+import { isAssetRef, resolveAssetUrl, resolveMarkdownAssets } from '../services/assetStore';
+
+/**
+ * Resolves an `asset://` reference (or passes through any other URL) to something an <img> can load.
+ */
+export function useAssetUrl(url: string | undefined | null): string {
+    const [resolved, setResolved] = useState(() => (url && !isAssetRef(url) ? url : ''));
+
+    useEffect(() => {
+        let cancelled = false;
+        if (!url) {
+            setResolved('');
+        } else if (!isAssetRef(url)) {
+            setResolved(url);
+        } else {
+            resolveAssetUrl(url)
+                .then(objectUrl => { if (!cancelled) setResolved(objectUrl); })
+                .catch(err => console.error(`Failed to load asset ${url}`, err));
+        }
+        return () => { cancelled = true; };
+    }, [url]);
+
+    return resolved;
+}
+
+/**
+ * Returns the markdown with every asset reference swapped for a displayable object URL.
+ */
+export function useResolvedMarkdown(markdown: string): string {
+    const [resolved, setResolved] = useState(markdown);
+
+    useEffect(() => {
+        let cancelled = false;
+        setResolved(markdown);
+        resolveMarkdownAssets(markdown)
+            .then(result => { if (!cancelled) setResolved(result); })
+            .catch(err => console.error("Failed to resolve markdown assets", err));
+        return () => { cancelled = true; };
+    }, [markdown]);
+
+    return resolved;
+}
+
+type Props = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> & { src: string };
+
+const AssetImage: React.FC<Props> = ({ src, ...imgProps }) => {
+    const resolvedSrc = useAssetUrl(src);
+    if (!resolvedSrc) return <div className={`${imgProps.className || ''} bg-slate-900/50 animate-pulse`} />;
+    return <img src={resolvedSrc} {...imgProps} />;
+};
+
+export default AssetImage;
@@ -1,10 +1,15 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { generateSpeech, generateSocialPosts, regenerateTitle } from '../services/gemini';
+import { getProvider } from '../services/providers';
 import { AppState } from '../types';
 import { decode, decodeAudioData } from '../utils/helpers';
 import Loader from './Loader';
 import MarkdownComponent, { MarkdownProcessor } from './MarkdownRenderer';
+import AssetImage, { useAssetUrl } from './AssetImage';
+import StyleCheckNotice from './StyleCheckNotice';
+import { useAbortSignals } from '../utils/abort';
+import { resolveAssetDataUrl, resolveMarkdownAssets, saveAsset } from '../services/assetStore';
 
 
 // Icons
@@ -17,12 +22,12 @@ const IconChevronDown = ({ className }: { className?: string }) => <svg xmlns="h
 
 interface Props {
     appState: AppState;
+    projectId: string;
     onRestart: () => void;
     onImageGenerated: (url: string) => void;
+    onAudioGenerated: (url: string) => void;
 }
 
-const VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'];
-
 const CopyButton = ({ text }: { text: string }) => {
     const [copied, setCopied] = useState(false);
     const handleCopy = (e: React.MouseEvent) => {
@@ -65,11 +70,12 @@ const SocialPostAccordionItem: React.FC<{ platform: string, content: string }> =
     );
 };
 
-const Publish: React.FC<Props> = ({ appState, onRestart, onImageGenerated }) => {
-    const [selectedVoice, setSelectedVoice] = useState(VOICES[0]);
+const Publish: React.FC<Props> = ({ appState, projectId, onRestart, onImageGenerated, onAudioGenerated }) => {
+    const voices = getProvider().voices;
+    const [selectedVoice, setSelectedVoice] = useState(voices[0]);
     const [audioLoading, setAudioLoading] = useState(false);
     const [socialLoading, setSocialLoading] = useState(false);
-    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+    const audioUrl = useAssetUrl(appState.audioUrl);
     const [socialPosts, setSocialPosts] = useState<Record<string, string> | null>(null);
     const [error, setError] = useState<string | null>(null);
     const audioContextRef = useRef<AudioContext | null>(null);
@@ -81,6 +87,9 @@ const Publish: React.FC<Props> = ({ appState, onRestart, onImageGenerated }) =>
     const [isEditingTitle, setIsEditingTitle] = useState(false);
     const [editableTitle, setEditableTitle] = useState('');
     const [isRegeneratingTitle, setIsRegeneratingTitle] = useState(false);
+    const titleRequests = useAbortSignals();
+    const audioRequests = useAbortSignals();
+    const socialRequests = useAbortSignals();
 
     const [isPublishing, setIsPublishing] = useState(false);
     const [publishSuccess, setPublishSuccess] = useState(false);
@@ -131,11 +140,18 @@ const Publish: React.FC<Props> = ({ appState, onRestart, onImageGenerated }) =>
     const handleRegenerateTitle = async () => {
         setIsRegeneratingTitle(true);
         setError(null);
+        const signal = titleRequests.createSignal();
         try {
-            const newTitle = await regenerateTitle(articleBody);
-            setEditableTitle(newTitle);
-        } catch (err: any) { setError(err.message || 'Failed to regenerate title.'); } 
-        finally { setIsRegeneratingTitle(false); }
+            const newTitle = await regenerateTitle(articleBody, appState.styleGuide, { signal });
+            if (!signal.aborted) setEditableTitle(newTitle);
+        } catch (err: any) { if (!signal.aborted) setError(err.message || 'Failed to regenerate title.'); } 
+        finally { if (!signal.aborted) setIsRegeneratingTitle(false); }
+    };
+
+    const handleCancelTitleEdit = () => {
+        titleRequests.cancel();
+        setIsRegeneratingTitle(false);
+        setIsEditingTitle(false);
     };
 
     const bufferToWave = (abuffer: AudioBuffer): Blob => {
@@ -182,10 +198,11 @@ const Publish: React.FC<Props> = ({ appState, onRestart, onImageGenerated }) =>
     const handleGenerateAudio = async () => {
         setAudioLoading(true);
         setError(null);
-        setAudioUrl(null);
+        const signal = audioRequests.createSignal();
         try {
             const textToSpeak = `${title}. ${articleBody.replace(/#{1,6}\s/g, '').replace(/!\[.*?\]\(.*?\)/g, '').replace(/\[(IMAGE|GRAPH):.*?\]/g, '')}`;
-            const base64Audio = await generateSpeech(textToSpeak.substring(0, 4000), selectedVoice);
+            const base64Audio = await generateSpeech(textToSpeak.substring(0, 4000), selectedVoice, appState.styleGuide, { signal });
+            if (signal.aborted) return;
             
             if (!audioContextRef.current) throw new Error("Audio context not initialized.");
 
@@ -193,33 +210,50 @@ const Publish: React.FC<Props> = ({ appState, onRestart, onImageGenerated }) =>
             const audioBuffer = await decodeAudioData(audioData, audioContextRef.current, 24000, 1);
 
             const waveBlob = bufferToWave(audioBuffer);
-            const url = URL.createObjectURL(waveBlob);
-            setAudioUrl(url);
+            onAudioGenerated(await saveAsset(projectId, waveBlob));
 
         } catch (err: any) {
-            setError(err.message || "Failed to generate audio.");
+            if (!signal.aborted) setError(err.message || "Failed to generate audio.");
         } finally {
-            setAudioLoading(false);
+            if (!signal.aborted) setAudioLoading(false);
         }
     };
+
+    const handleCancelAudio = () => {
+        audioRequests.cancel();
+        setAudioLoading(false);
+    };
     
     const handleGenerateSocial = async () => {
         setSocialLoading(true);
         setError(null);
         setSocialPosts(null);
+        const signal = socialRequests.createSignal();
         try {
             const textToSummarize = `${title}. ${articleBody.substring(0, 2000)}`;
-            const posts = await generateSocialPosts(textToSummarize);
-            setSocialPosts(posts);
+            const posts = await generateSocialPosts(textToSummarize, appState.styleGuide, { signal });
+            if (!signal.aborted) setSocialPosts(posts);
         } catch (err: any) {
-            setError(err.message || "Failed to generate social posts.");
+            if (!signal.aborted) setError(err.message || "Failed to generate social posts.");
         } finally {
-            setSocialLoading(false);
+            if (!signal.aborted) setSocialLoading(false);
         }
     };
 
-    const handleDownload = () => {
-        const renderedBody = articleBody.split(/\n{2,}/).map(block => new MarkdownProcessor({ content: block }).renderToHtml()).join('');
+    const handleCancelSocial = () => {
+        socialRequests.cancel();
+        setSocialLoading(false);
+    };
+
+    const handleDownload = async () => {
+        // Open the window synchronously so popup blockers treat it as part of the click
+        const printWindow = window.open('', '_blank');
+        // Embed stored images as data URLs so the exported document is self-contained
+        const [exportBody, headerImageUrl] = await Promise.all([
+            resolveMarkdownAssets(articleBody, 'export'),
+            resolveAssetDataUrl(appState.imageUrl),
+        ]);
+        const renderedBody = exportBody.split(/\n{2,}/).map(block => new MarkdownProcessor({ content: block }).renderToHtml()).join('');
 
         const content = `
             <html>
@@ -247,7 +281,7 @@ const Publish: React.FC<Props> = ({ appState, onRestart, onImageGenerated }) =>
                 </head>
                 <body>
                     <div class="container">
-                        ${appState.imageUrl ? `<img src="${appState.imageUrl}" alt="${title}" />` : ''}
+                        ${headerImageUrl ? `<img src="${headerImageUrl}" alt="${title}" />` : ''}
                         <h1>${title}</h1>
                         ${renderedBody}
                     </div>
@@ -255,7 +289,6 @@ const Publish: React.FC<Props> = ({ appState, onRestart, onImageGenerated }) =>
             </html>
         `;
 
-        const printWindow = window.open('', '_blank');
         if (printWindow) {
             printWindow.document.write(content);
             printWindow.document.close();
@@ -277,7 +310,7 @@ const Publish: React.FC<Props> = ({ appState, onRestart, onImageGenerated }) =>
                     <h2 className="text-3xl font-bold text-slate-100">Step 4: Publish</h2>
                     <p className="text-slate-400 mt-2">Your content is ready. Fine-tune, generate assets, and download your files.</p>
                 </div>
-                <button onClick={onRestart} className="px-4 py-2 bg-slate-700 text-white rounded-md font-semibold hover:bg-slate-600">Start Over</button>
+                <button onClick={onRestart} className="px-4 py-2 bg-slate-700 text-white rounded-md font-semibold hover:bg-slate-600">New Project</button>
             </header>
             {error && <div className="text-red-400 bg-red-900/50 p-4 rounded-lg mb-4">{error}</div>}
             
@@ -287,7 +320,7 @@ const Publish: React.FC<Props> = ({ appState, onRestart, onImageGenerated }) =>
                     
                     <div className="relative group mb-6">
                         {appState.imageUrl ? (
-                             <img src={appState.imageUrl} alt={appState.topic} className="w-full h-64 object-cover rounded-md shadow-lg" />
+                             <AssetImage src={appState.imageUrl} alt={appState.topic} className="w-full h-64 object-cover rounded-md shadow-lg" />
                         ) : (
                             <div className="w-full h-64 flex items-center justify-center bg-slate-900/50 rounded-md border-2 border-dashed border-slate-700">
                                 <p className="text-slate-500">No header image was generated.</p>
@@ -302,7 +335,7 @@ const Publish: React.FC<Props> = ({ appState, onRestart, onImageGenerated }) =>
                                     <input type="text" value={editableTitle} onChange={(e) => setEditableTitle(e.target.value)} className="w-full bg-slate-800 text-4xl font-extrabold text-center text-slate-100 tracking-tight p-2 rounded-md border border-indigo-500 outline-none" />
                                     <div className="flex justify-center items-center gap-3">
                                         <button onClick={handleSaveTitle} className="px-4 py-2 text-sm font-semibold bg-indigo-600 rounded-md hover:bg-indigo-700">Save</button>
-                                        <button onClick={() => setIsEditingTitle(false)} className="px-4 py-2 text-sm font-semibold bg-slate-600 rounded-md hover:bg-slate-500">Cancel</button>
+                                        <button onClick={handleCancelTitleEdit} className="px-4 py-2 text-sm font-semibold bg-slate-600 rounded-md hover:bg-slate-500">Cancel</button>
                                         <button onClick={handleRegenerateTitle} disabled={isRegeneratingTitle} className="flex items-center px-4 py-2 text-sm font-semibold bg-slate-700 rounded-md hover:bg-slate-600 disabled:opacity-50">
                                             {isRegeneratingTitle ? 'Generating...' : <><IconSparkles/>Regenerate</>}
                                         </button>
@@ -311,6 +344,7 @@ const Publish: React.FC<Props> = ({ appState, onRestart, onImageGenerated }) =>
                             ) : (
                                 <>
                                     <h1 className="text-4xl font-extrabold text-center text-slate-100 tracking-tight">{title}</h1>
+                                    <div className="flex justify-center mt-2"><StyleCheckNotice text={title} styleGuide={appState.styleGuide} label="Title style" /></div>
                                     <button onClick={handleEditTitle} className="absolute top-2 right-2 p-2 rounded-full bg-slate-700/50 text-slate-300 opacity-0 group-hover:opacity-100 transition-opacity">
                                         <IconPencil/>
                                     </button>
@@ -344,12 +378,15 @@ const Publish: React.FC<Props> = ({ appState, onRestart, onImageGenerated }) =>
                             <div className="flex items-center gap-2">
                                 <label htmlFor="voice-select" className="text-sm font-medium">Voice:</label>
                                 <select id="voice-select" value={selectedVoice} onChange={e => setSelectedVoice(e.target.value)} className="bg-slate-700 rounded-md px-2 py-1 text-sm focus:ring-1 focus:ring-indigo-500 outline-none">
-                                    {VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+                                    {voices.map(v => <option key={v} value={v}>{v}</option>)}
                                 </select>
                             </div>
                             <button onClick={handleGenerateAudio} disabled={audioLoading} className="w-full px-4 py-2 bg-indigo-600 text-white rounded-md font-semibold hover:bg-indigo-700 disabled:bg-slate-600">
                                 {audioLoading ? 'Generating Audio...' : 'Generate Audio'}
                             </button>
+                            {audioLoading && (
+                                <button onClick={handleCancelAudio} className="w-full px-4 py-1.5 text-sm text-slate-400 hover:text-white transition-colors">Cancel</button>
+                            )}
                             {audioUrl && (
                                 <div className="mt-2 animate-fade-in">
                                     <audio controls src={audioUrl} className="w-full"></audio>
@@ -366,11 +403,15 @@ const Publish: React.FC<Props> = ({ appState, onRestart, onImageGenerated }) =>
                         <button onClick={handleGenerateSocial} disabled={socialLoading} className="w-full px-4 py-2 bg-indigo-600 text-white rounded-md font-semibold hover:bg-indigo-700 disabled:bg-slate-600">
                             {socialLoading ? 'Generating Posts...' : 'Generate Posts'}
                         </button>
+                        {socialLoading && (
+                            <button onClick={handleCancelSocial} className="w-full mt-1 px-4 py-1.5 text-sm text-slate-400 hover:text-white transition-colors">Cancel</button>
+                        )}
                         {socialPosts && (
                             <div className="mt-4 space-y-2 animate-fade-in">
                                 {Object.entries(socialPosts).map(([platform, text]) => (
                                     <SocialPostAccordionItem key={platform} platform={platform} content={text as string} />
                                 ))}
+                                <StyleCheckNotice text={Object.values(socialPosts).join('\n\n')} styleGuide={appState.styleGuide} />
                             </div>
                         )}
                     </div>
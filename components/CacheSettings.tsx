@@ -0,0 +1,83 @@
+
+import React, { useEffect, useState } from 'react';
+import { clearCache, getCacheStats } from '../services/cache';
+import { PROMPT_TEMPLATES } from '../services/promptTemplates';
+
+const WEBHOOK_LABELS: Record<string, string> = {
+    url_map: 'Site Map',
+    page_ranked_keywords: 'Ranked Keywords',
+    suggested_keywords: 'Keyword Suggestions',
+    url_scrape: 'Page Content',
+};
+
+const describeNamespace = (namespace: string) => {
+    const [kind, name] = namespace.split(':');
+    if (kind === 'ai') return { label: PROMPT_TEMPLATES[name as keyof typeof PROMPT_TEMPLATES]?.label ?? name, source: 'AI' };
+    return { label: WEBHOOK_LABELS[name] ?? name, source: 'Webhook' };
+};
+
+const CacheSettings: React.FC = () => {
+    const [stats, setStats] = useState<Awaited<ReturnType<typeof getCacheStats>> | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = () => getCacheStats()
+        .then(setStats)
+        .catch(err => setError(err.message || 'Failed to read the cache.'));
+
+    useEffect(() => { refresh(); }, []);
+
+    const handleClear = async (namespace?: string) => {
+        try {
+            await clearCache(namespace);
+        } catch (err: any) {
+            setError(err.message || 'Failed to clear the cache.');
+        }
+        refresh();
+    };
+
+    const totalEntries = stats?.reduce((sum, stat) => sum + stat.entries, 0) ?? 0;
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+                <p className="text-xs text-slate-400">
+                    Research answers and webhook data are reused for identical requests until they expire. Site data is shared by every project on the same website. The refresh buttons in Research always bypass the cache.
+                </p>
+                <button
+                    onClick={() => handleClear()}
+                    disabled={totalEntries === 0}
+                    className="flex-shrink-0 px-3 py-1.5 text-xs bg-slate-700 text-white rounded-md font-medium hover:bg-slate-600 disabled:opacity-50"
+                >
+                    Clear All
+                </button>
+            </div>
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {stats && stats.length === 0 && <p className="text-sm text-slate-500 py-8 text-center">The cache is empty.</p>}
+            {stats && stats.length > 0 && (
+                <table className="w-full text-xs text-left">
+                    <thead className="text-slate-500">
+                        <tr><th className="py-2 pr-3">Response</th><th className="py-2 pr-3">Source</th><th className="py-2 pr-3 text-right">Entries</th><th className="py-2 pr-3 text-right">Expired</th><th className="py-2"></th></tr>
+                    </thead>
+                    <tbody className="text-slate-300">
+                        {stats.map(stat => {
+                            const { label, source } = describeNamespace(stat.namespace);
+                            return (
+                                <tr key={stat.namespace} className="border-t border-slate-800">
+                                    <td className="py-1.5 pr-3">{label}</td>
+                                    <td className="py-1.5 pr-3 text-slate-400">{source}</td>
+                                    <td className="py-1.5 pr-3 text-right">{stat.entries}</td>
+                                    <td className="py-1.5 pr-3 text-right text-slate-500">{stat.expired}</td>
+                                    <td className="py-1.5 text-right">
+                                        <button onClick={() => handleClear(stat.namespace)} className="text-indigo-400 hover:text-indigo-300">Clear</button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default CacheSettings;
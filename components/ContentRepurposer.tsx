@@ -1,197 +1,180 @@
 
 import React, { useState, useEffect } from 'react';
-import { analyzeCompetitors, generateOutlineSuggestions, generateOutline, refineOutlineWithAI, selectRelevantInternalLinks, generateKeywordStrategy, findEeatSources } from '../services/gemini';
-import { callWebhookTool } from '../services/webhook';
-import { AppState, CompetitorInfo, InternalLink, RankedKeyword, ResearchResult, EeatSource } from '../types';
+import { generateOutline, refineOutlineWithAI } from '../services/gemini';
+import { fetchResearchSection, RESEARCH_SECTIONS, RESEARCH_SECTION_LABELS } from '../services/research';
+import { AppState, InternalLink, RequestOptions, ResearchData, ResearchSection } from '../types';
 import Loader from './Loader';
 import ThinkingProcess from './ThinkingProcess';
+import { useAbortSignals } from '../utils/abort';
+import { useProgressLog } from '../utils/progressLog';
 
 // Icons
 const IconPlus = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" /></svg>;
 const IconX = (props: { className?: string }) => <svg xmlns="http://www.w3.org/2000/svg" className={props.className || 'h-5 w-5'} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>;
 const IconSparkles = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path d="M5 3a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2V5a2 2 0 00-2-2H5zM5 1a4 4 0 00-4 4v10a4 4 0 004 4h10a4 4 0 004-4V5a4 4 0 00-4-4H5z" /><path d="M10.707 6.293a1 1 0 00-1.414 0L6 9.586V7a1 1 0 00-2 0v4a1 1 0 001 1h4a1 1 0 000-2H7.414l3.293-3.293a1 1 0 000-1.414z" /></svg>;
 const IconLink = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M12.586 4.586a2 2 0 112.828 2.828l-3 3a2 2 0 01-2.828 0 1 1 0 00-1.414 1.414 4 4 0 005.656 0l3-3a4 4 0 00-5.656-5.656l-1.5 1.5a1 1 0 101.414 1.414l1.5-1.5zm-5 5a2 2 0 012.828 0 1 1 0 101.414-1.414 4 4 0 00-5.656 0l-3 3a4 4 0 105.656 5.656l1.5-1.5a1 1 0 10-1.414-1.414l-1.5 1.5a2 2 0 11-2.828-2.828l3-3z" clipRule="evenodd" /></svg>;
+const IconRefresh = (props: { className?: string }) => <svg xmlns="http://www.w3.org/2000/svg" className={props.className || 'h-5 w-5'} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>;
 const IconShieldCheck = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" /></svg>;
 
 interface Props {
     appState: AppState;
     onOutlineComplete: (outline: string[], internalLinks: InternalLink[]) => void;
+    onResearchChange: (updater: (prev: ResearchData) => ResearchData) => void;
 }
 
-const RESEARCH_STEPS = [
-    "Initiating deep-dive topic research...",
-    "Fetching site rankings & internal links...",
-    "Analyzing top 10 competitor articles...",
-    "Identifying content gaps & opportunities...",
-    "Extracting authoritative E-E-A-T sources...",
-    "Designing 'Answer-First' structure...",
-    "Refining for Generative Engine Optimization..."
-];
-
-const OUTLINE_GENERATION_STEPS = [
-    "Synthesizing competitor analysis...",
-    "Structuring 'Answer-First' hierarchy...",
-    "Mapping internal linking opportunities...",
-    "Integrating semantic keywords...",
-    "Finalizing GEO-optimized outline..."
-];
-
-const ResearchAndOutline: React.FC<Props> = ({ appState, onOutlineComplete }) => {
-    const [loading, setLoading] = useState(true);
+const ResearchAndOutline: React.FC<Props> = ({ appState, onOutlineComplete, onResearchChange }) => {
+    // Results stored for a different topic are stale and get replaced by a fresh run
+    const research = appState.research?.topic === appState.topic ? appState.research : null;
+    const [loading, setLoading] = useState(!research);
     const [error, setError] = useState<string | null>(null);
-    
-    // Data states
-    const [researchData, setResearchData] = useState<Omit<ResearchResult, 'outline'>>({ keywords: [], competitors: [] });
-    const [groundingLinks, setGroundingLinks] = useState<CompetitorInfo[]>([]);
-    const [rankedKeywords, setRankedKeywords] = useState<RankedKeyword[]>([]);
-    const [allInternalLinks, setAllInternalLinks] = useState<InternalLink[]>([]);
-    const [relevantInternalLinks, setRelevantInternalLinks] = useState<InternalLink[]>([]);
-    const [eeatSources, setEeatSources] = useState<EeatSource[]>([]);
+    const [refreshingSections, setRefreshingSections] = useState<ResearchSection[]>([]);
+
+    const keywords = research?.keywords ?? [];
+    const competitors = research?.competitors ?? [];
+    const groundingLinks = research?.groundingLinks ?? [];
+    const eeatSources = research?.eeatSources ?? [];
+    const structureSuggestions = research?.outlineSuggestions ?? [];
+    const relevantInternalLinks = research?.internalLinks ?? [];
+    const editableOutline = research?.outlineCandidate ?? '';
 
     // UI States
-    const [keywords, setKeywords] = useState<string[]>([]);
     const [newKeyword, setNewKeyword] = useState('');
-    const [structureSuggestions, setStructureSuggestions] = useState<string[]>([]);
     const [isGeneratingOutline, setIsGeneratingOutline] = useState(false);
-    const [editableOutline, setEditableOutline] = useState('');
     const [isOutlineModalOpen, setIsOutlineModalOpen] = useState(false);
     const [isEditingOutline, setIsEditingOutline] = useState(false);
     const [isRefiningOutline, setIsRefiningOutline] = useState(false);
-    const [isSelectingLinks, setIsSelectingLinks] = useState(false);
     const [newInternalLink, setNewInternalLink] = useState({ title: '', url: '' });
-    
-    useEffect(() => {
-        const performResearch = async () => {
-            if (!appState.topic) return;
-            setLoading(true);
-            setError(null);
-            
-            try {
-                // Helper to swallow errors for optional tools
-                const safeWebhookCall = async <T,>(promise: Promise<T>, fallback: T): Promise<T> => {
-                    try {
-                        return await promise;
-                    } catch (e) {
-                        console.warn("Optional webhook tool failed, proceeding with fallback:", e);
-                        return fallback;
-                    }
-                };
-
-                // Step 1: Fetch foundational data from webhooks first
-                // Using safeWebhookCall to prevent "Failed to fetch" from blocking the entire flow
-                const [rankedKeywordsData, internalLinksData] = await Promise.all([
-                    safeWebhookCall(callWebhookTool('page_ranked_keywords', appState), [] as RankedKeyword[]),
-                    safeWebhookCall(callWebhookTool('url_map', appState), [] as InternalLink[]),
-                ]);
-                
-                setRankedKeywords(rankedKeywordsData);
-                setAllInternalLinks(internalLinksData);
+    const researchRequests = useAbortSignals();
+    const outlineRequests = useAbortSignals();
+    const researchProgress = useProgressLog();
+    const outlineProgress = useProgressLog();
 
-                // Step 2: Once we have ranked keywords (or empty fallback), run the dependent AI tasks
-                const partialWebhookCaller = (func: 'suggested_keywords', params: { keyword: string }) => {
-                    return callWebhookTool(func, appState, params);
-                };
-                
-                const [
-                    finalKeywords,
-                    { competitors, groundingLinks },
-                    suggestions,
-                    foundSources,
-                ] = await Promise.all([
-                    generateKeywordStrategy(appState.topic, rankedKeywordsData, partialWebhookCaller),
-                    analyzeCompetitors(appState.topic),
-                    generateOutlineSuggestions(appState.topic),
-                    findEeatSources(appState.topic),
-                ]);
+    // Resolves to false when the run was cancelled
+    const refreshSections = async (sections: ResearchSection[], options: RequestOptions = {}): Promise<boolean> => {
+        const signal = researchRequests.createSignal();
+        setRefreshingSections(prev => [...prev, ...sections.filter(s => !prev.includes(s))]);
+        setError(null);
+        const results = await Promise.allSettled(sections.map(async section => {
+            const data = await fetchResearchSection(section, appState, { ...options, signal });
+            if (!signal.aborted) onResearchChange(prev => ({ ...prev, ...data, updatedAt: { ...prev.updatedAt, [section]: Date.now() } }));
+        }));
+        if (signal.aborted) return false;
+        const failures = results.flatMap((result, i) =>
+            result.status === 'rejected' ? [`${RESEARCH_SECTION_LABELS[sections[i]]}: ${result.reason?.message || 'unknown error'}`] : []
+        );
+        if (failures.length > 0) {
+            setError(`An error occurred during research. ${failures.join(' ')}`);
+        }
+        setRefreshingSections(prev => prev.filter(s => !sections.includes(s)));
+        return true;
+    };
 
-                setKeywords(finalKeywords);
-                setResearchData({ keywords: finalKeywords, competitors });
-                setGroundingLinks(groundingLinks);
-                setStructureSuggestions(suggestions);
-                setEeatSources(foundSources);
+    const runResearch = () => {
+        setLoading(true);
+        researchProgress.reset();
+        refreshSections(RESEARCH_SECTIONS, { onProgress: researchProgress.onProgress }).then(finished => finished && setLoading(false));
+    };
 
-            } catch (err: any) {
-                setError(err.message || "An error occurred during research.");
-            } finally {
-                setLoading(false);
-            }
-        };
-        performResearch();
+    useEffect(() => {
+        if (!appState.topic || research) return;
+        runResearch();
     }, [appState.topic, appState.websiteUrl, appState.country, appState.language]);
 
-     useEffect(() => {
-        if (allInternalLinks.length > 0) {
-            const getRelevantLinks = async () => {
-                setIsSelectingLinks(true);
-                setError(null);
-                try {
-                    const links = await selectRelevantInternalLinks(appState.topic, allInternalLinks);
-                    setRelevantInternalLinks(links);
-                } catch(err: any) {
-                    // Don't set main error here, just log
-                    console.warn("Failed to get AI-selected internal links.", err);
-                } finally {
-                    setIsSelectingLinks(false);
-                }
-            };
-            getRelevantLinks();
-        }
-    }, [allInternalLinks, appState.topic]);
-    
+    // Sections that already finished are kept and the rest can be refreshed one by one
+    const handleCancelResearch = () => {
+        researchRequests.cancel();
+        setRefreshingSections([]);
+        setLoading(false);
+    };
+
+    const handleCancelOutline = () => {
+        outlineRequests.cancel();
+        setIsGeneratingOutline(false);
+        setIsRefiningOutline(false);
+    };
+
+    const setEditableOutline = (outlineCandidate: string) => {
+        onResearchChange(prev => ({ ...prev, outlineCandidate }));
+    };
+
     const handleAddKeyword = () => {
-        if (newKeyword.trim() && !keywords.includes(newKeyword.trim())) {
-            setKeywords([...keywords, newKeyword.trim()]);
+        const keyword = newKeyword.trim();
+        if (keyword && !keywords.includes(keyword)) {
+            onResearchChange(prev => ({ ...prev, keywords: [...prev.keywords, keyword] }));
             setNewKeyword('');
         }
     };
 
     const handleRemoveKeyword = (kwToRemove: string) => {
-        setKeywords(keywords.filter(kw => kw !== kwToRemove));
+        onResearchChange(prev => ({ ...prev, keywords: prev.keywords.filter(kw => kw !== kwToRemove) }));
     };
 
     const handleAddInternalLink = () => {
         if (newInternalLink.title.trim() && newInternalLink.url.trim()) {
-            setRelevantInternalLinks([...relevantInternalLinks, newInternalLink]);
+            const link = newInternalLink;
+            onResearchChange(prev => ({ ...prev, internalLinks: [...prev.internalLinks, link] }));
             setNewInternalLink({ title: '', url: '' });
         }
     };
 
     const handleRemoveInternalLink = (urlToRemove: string) => {
-        setRelevantInternalLinks(relevantInternalLinks.filter(link => link.url !== urlToRemove));
+        onResearchChange(prev => ({ ...prev, internalLinks: prev.internalLinks.filter(link => link.url !== urlToRemove) }));
+    };
+
+    const renderRefreshButton = (section: ResearchSection) => {
+        const isRefreshing = refreshingSections.includes(section);
+        const updatedAt = research?.updatedAt[section];
+        return (
+            <button
+                onClick={() => refreshSections([section], { bypassCache: true })}
+                disabled={isRefreshing}
+                title={`${updatedAt ? `Last updated ${new Date(updatedAt).toLocaleString()}. ` : ''}Refresh, bypassing the cache`}
+                className="ml-auto p-1 rounded-full text-slate-400 hover:text-white hover:bg-slate-700 disabled:cursor-not-allowed"
+            >
+                <IconRefresh className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+            </button>
+        );
     };
 
     const handleGenerateOutline = async () => {
         setIsGeneratingOutline(true);
         setError(null);
+        outlineProgress.reset();
+        const signal = outlineRequests.createSignal();
         try {
-            const outline = await generateOutline(appState.topic, keywords, researchData.competitors, relevantInternalLinks);
+            const outline = await generateOutline(appState.topic, keywords, competitors, relevantInternalLinks, appState.styleGuide, { signal, onProgress: outlineProgress.onProgress });
+            if (signal.aborted) return;
             setEditableOutline(outline.join('\n'));
             setIsEditingOutline(false); // Default to preview mode
             setIsOutlineModalOpen(true);
         } catch (err: any) {
-            setError(err.message || "Failed to generate outline.");
+            if (!signal.aborted) setError(err.message || "Failed to generate outline.");
         } finally {
-            setIsGeneratingOutline(false);
+            if (!signal.aborted) setIsGeneratingOutline(false);
         }
     };
 
     const handleRefineOutline = async () => {
         setIsRefiningOutline(true);
         setError(null);
+        const signal = outlineRequests.createSignal();
         try {
             const refinedOutline = await refineOutlineWithAI(
                 editableOutline,
                 appState.topic,
                 keywords,
-                researchData.competitors,
-                relevantInternalLinks
+                competitors,
+                relevantInternalLinks,
+                appState.styleGuide,
+                { signal }
             );
+            if (signal.aborted) return;
             setEditableOutline(refinedOutline.join('\n'));
             setIsEditingOutline(false); // Switch back to preview mode to see changes
         } catch (err: any) {
-             setError(err.message || "Failed to refine outline.");
+             if (!signal.aborted) setError(err.message || "Failed to refine outline.");
         } finally {
-            setIsRefiningOutline(false);
+            if (!signal.aborted) setIsRefiningOutline(false);
         }
     };
 
@@ -201,14 +184,34 @@ const ResearchAndOutline: React.FC<Props> = ({ appState, onOutlineComplete }) =>
         setIsOutlineModalOpen(false);
     };
 
-    if (loading) return <ThinkingProcess messages={RESEARCH_STEPS} />;
-    if (error && !researchData.competitors.length) return <div className="text-red-400 bg-red-900/50 p-4 rounded-lg">{error}</div>;
+    if (loading) return <ThinkingProcess updates={researchProgress.updates} onCancel={handleCancelResearch} />;
+    if (error && !competitors.length) return (
+        <div className="text-red-400 bg-red-900/50 p-4 rounded-lg flex items-start justify-between gap-4">
+            <span>{error}</span>
+            <button
+                onClick={runResearch}
+                className="flex-shrink-0 flex items-center gap-2 px-4 py-1.5 text-sm font-semibold bg-slate-700 text-white rounded-md hover:bg-slate-600 transition-colors"
+            >
+                <IconRefresh className="h-4 w-4" /> Retry research
+            </button>
+        </div>
+    );
 
     return (
         <div className="h-full flex flex-col animate-fade-in">
             <header className="mb-8">
                 <h2 className="text-3xl font-bold text-slate-100">Step 2: Research & Outline</h2>
-                <p className="text-slate-400 mt-2">Topic: <span className="font-semibold text-indigo-400">"{appState.topic}"</span></p>
+                <div className="flex flex-wrap items-center justify-between gap-4 mt-2">
+                    <p className="text-slate-400">Topic: <span className="font-semibold text-indigo-400">"{appState.topic}"</span></p>
+                    <button
+                        onClick={() => refreshSections(RESEARCH_SECTIONS, { bypassCache: true })}
+                        title="Runs every lookup again instead of reusing cached results"
+                        disabled={refreshingSections.length > 0}
+                        className="flex items-center gap-2 px-4 py-1.5 text-sm font-semibold bg-slate-700 text-white rounded-md hover:bg-slate-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+                    >
+                        <IconRefresh className={`h-4 w-4 ${refreshingSections.length > 0 ? 'animate-spin' : ''}`} /> Refresh research
+                    </button>
+                </div>
             </header>
             {error && <div className="text-red-400 bg-red-900/50 p-4 rounded-lg mb-4">{error}</div>}
 
@@ -216,7 +219,7 @@ const ResearchAndOutline: React.FC<Props> = ({ appState, onOutlineComplete }) =>
                 {/* Left Column */}
                 <div className="flex flex-col gap-6 overflow-y-auto pr-2">
                     <div className="bg-slate-800/50 p-4 rounded-lg">
-                        <h3 className="font-semibold text-indigo-400 mb-3">Target Keywords</h3>
+                        <h3 className="font-semibold text-indigo-400 mb-3 flex items-center">Target Keywords {renderRefreshButton('keywords')}</h3>
                         <div className="flex flex-wrap gap-2 items-center">
                             {keywords.map((kw) => (
                                 <span key={kw} className="flex items-center bg-slate-700 text-slate-200 pl-3 pr-2 py-1 rounded-full text-sm">
@@ -232,12 +235,12 @@ const ResearchAndOutline: React.FC<Props> = ({ appState, onOutlineComplete }) =>
                     </div>
 
                      <div className="bg-slate-800/50 p-4 rounded-lg">
-                        <h3 className="font-semibold text-indigo-400 mb-2">Competitor Analysis</h3>
-                        <div className="space-y-3">{researchData?.competitors.map((c, i) => (<div key={i}><p className="font-semibold">{c.title}</p><p className="text-sm text-slate-400">{c.summary}</p></div>))}</div>
+                        <h3 className="font-semibold text-indigo-400 mb-2 flex items-center">Competitor Analysis {renderRefreshButton('competitors')}</h3>
+                        <div className="space-y-3">{competitors.map((c, i) => (<div key={i}><p className="font-semibold">{c.title}</p><p className="text-sm text-slate-400">{c.summary}</p></div>))}</div>
                     </div>
 
                     <div className="bg-slate-800/50 p-4 rounded-lg">
-                        <h3 className="font-semibold text-green-400 mb-2 flex items-center"><IconShieldCheck/> E-E-A-T Sources (for citation)</h3>
+                        <h3 className="font-semibold text-green-400 mb-2 flex items-center"><IconShieldCheck/> E-E-A-T Sources (for citation) {renderRefreshButton('eeatSources')}</h3>
                         <div className="space-y-3">
                             {eeatSources.map((s, i) => (
                                 <div key={i}>
@@ -257,8 +260,8 @@ const ResearchAndOutline: React.FC<Props> = ({ appState, onOutlineComplete }) =>
                 {/* Right Column */}
                 <div className="flex flex-col gap-6 overflow-y-auto pr-2">
                     <div className="bg-slate-800/50 p-4 rounded-lg">
-                        <h3 className="font-semibold text-indigo-400 mb-3 flex items-center"><IconLink /> Internal Linking Strategy</h3>
-                        {isSelectingLinks ? <Loader message="AI is selecting relevant links..."/> : 
+                        <h3 className="font-semibold text-indigo-400 mb-3 flex items-center"><IconLink /> Internal Linking Strategy {renderRefreshButton('internalLinks')}</h3>
+                        {refreshingSections.includes('internalLinks') ? <Loader message="AI is selecting relevant links..."/> : 
                         (<div className="space-y-2">
                             {relevantInternalLinks.map(link => (
                                 <div key={link.url} className="flex items-center justify-between bg-slate-900/50 p-2 rounded-md">
@@ -279,13 +282,13 @@ const ResearchAndOutline: React.FC<Props> = ({ appState, onOutlineComplete }) =>
                     <div className="flex flex-col bg-slate-800/50 rounded-lg p-4 flex-grow">
                         {isGeneratingOutline ? (
                              <div className="flex flex-col h-full justify-center">
-                                <ThinkingProcess messages={OUTLINE_GENERATION_STEPS} />
+                                <ThinkingProcess updates={outlineProgress.updates} onCancel={handleCancelOutline} />
                              </div>
                         ) : (
                             <>
                                 <h3 className="text-lg font-semibold text-indigo-400 mb-3">Outline Generation</h3>
                                 <div className="bg-slate-900/50 p-3 rounded-md mb-4">
-                                    <h4 className="font-semibold text-slate-300 text-sm mb-2">AI Suggestions for Structure:</h4>
+                                    <h4 className="font-semibold text-slate-300 text-sm mb-2 flex items-center">AI Suggestions for Structure: {renderRefreshButton('outlineSuggestions')}</h4>
                                     <div className="flex flex-wrap gap-2 items-center">
                                         {structureSuggestions.map((sugg) => (
                                             <span key={sugg} className="flex items-center bg-slate-700/80 text-slate-300 pl-3 pr-2 py-1 rounded-full text-xs">
@@ -294,10 +297,15 @@ const ResearchAndOutline: React.FC<Props> = ({ appState, onOutlineComplete }) =>
                                         ))}
                                     </div>
                                 </div>
-                                <div className="flex-grow flex items-center justify-center">
+                                <div className="flex-grow flex flex-col items-center justify-center gap-3">
                                     <button onClick={handleGenerateOutline} className="w-full max-w-xs px-6 py-3 bg-indigo-600 text-white rounded-md font-semibold hover:bg-indigo-700 transition-colors">
-                                        Generate Full Outline
+                                        {editableOutline.trim() ? 'Regenerate Full Outline' : 'Generate Full Outline'}
                                     </button>
+                                    {editableOutline.trim() && (
+                                        <button onClick={() => { setIsEditingOutline(false); setIsOutlineModalOpen(true); }} className="w-full max-w-xs px-6 py-2 bg-slate-700 text-white rounded-md font-semibold hover:bg-slate-600 transition-colors">
+                                            Open Saved Outline
+                                        </button>
+                                    )}
                                 </div>
                             </>
                         )}
@@ -348,6 +356,11 @@ const ResearchAndOutline: React.FC<Props> = ({ appState, onOutlineComplete }) =>
                             <button onClick={handleRefineOutline} disabled={isRefiningOutline || !editableOutline.trim()} className="flex items-center justify-center w-full sm:w-auto px-4 py-2 bg-slate-700 text-white rounded-md font-semibold hover:bg-slate-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors">
                                 {isRefiningOutline ? 'Refining...' : <><IconSparkles /> Refine with AI</>}
                             </button>
+                            {isRefiningOutline && (
+                                <button onClick={handleCancelOutline} className="w-full sm:w-auto px-4 py-2 text-sm text-slate-400 hover:text-white transition-colors">
+                                    Cancel
+                                </button>
+                            )}
                             <button onClick={handleContinue} disabled={!editableOutline.trim()} className="w-full sm:w-auto px-6 py-2 bg-indigo-600 text-white rounded-md font-semibold hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed">
                                 Generate Draft
                             </button>
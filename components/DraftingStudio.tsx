@@ -1,11 +1,20 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { generateLongFormContent, transformText, generateArticleImage, reviewArticle, editArticleImage, generateContextualAddition, chatWithDraft } from '../services/gemini';
-import { AppState } from '../types';
+import { generateLongFormContent, streamTransformText, generateArticleImage, streamReviewArticle, editArticleImage, streamContextualAddition, streamChatWithDraft, createDraftChatSession } from '../services/gemini';
+import { AppState, ChatToolInvocation, DraftBlock, DraftPatch, DraftSnapshot } from '../types';
 import Loader from './Loader';
 import MarkdownRenderer from './MarkdownRenderer';
 import ThinkingProcess from './ThinkingProcess';
 import { GlowingEffect } from './ui/GlowingEffect';
+import AssetImage from './AssetImage';
+import { isAssetRef, resolveAssetDataUrl, saveAsset } from '../services/assetStore';
+import { useBlockHistory, HISTORY_START_ID } from '../utils/blockHistory';
+import { addSnapshot, createSnapshot, SNAPSHOT_KIND_LABELS } from '../utils/draftSnapshots';
+import { useAbortSignals } from '../utils/abort';
+import { useProgressLog } from '../utils/progressLog';
+import { generateId } from '../utils/helpers';
+import SnapshotDiffViewer from './SnapshotDiffViewer';
+import StyleCheckNotice from './StyleCheckNotice';
 
 // Icons
 const IconBriefcase = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M21 13.255A23.931 23.931 0 0112 15c-3.183 0-6.22-.62-9-1.745M16 6V4a2 2 0 00-2-2h-4a2 2 0 00-2 2v2m4 6h.01M5 20h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" /></svg>;
@@ -20,13 +29,19 @@ const IconImage = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w
 const IconChart = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>;
 const IconTable = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M3 10h18M3 14h18m-9-4v8m-7-8v8m14-8v8M5 21h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v14a2 2 0 002 2z" /></svg>;
 const IconChat = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" /></svg>;
+const IconUndo = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M3 10h10a5 5 0 015 5v2M3 10l5-5M3 10l5 5" /></svg>;
+const IconRedo = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M21 10H11a5 5 0 00-5 5v2m15-7l-5-5m5 5l-5 5" /></svg>;
+const IconClock = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>;
+const IconCamera = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /><path strokeLinecap="round" strokeLinejoin="round" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" /></svg>;
 const IconSend = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" /></svg>;
 
 
 interface Props {
     appState: AppState;
+    projectId: string;
     onDraftComplete: (draft: string) => void;
     onImageGenerated: (url: string) => void;
+    onSnapshotsChange: (updater: (prev: DraftSnapshot[]) => DraftSnapshot[]) => void;
 }
 
 const TOOLBAR_ACTIONS = [
@@ -35,27 +50,113 @@ const TOOLBAR_ACTIONS = [
     { name: 'Elaborate', icon: <IconArrowsExpand /> },
 ];
 
-// Shortened steps to sync with faster streaming
-const DRAFTING_STEPS = [
-    "Drafting content...",
-    "Finalizing format & E-E-A-T..."
-];
+type PatchStatus = 'pending' | 'accepted' | 'rejected';
+
+type ChatMessage =
+    | { role: 'user' | 'model'; text: string }
+    | { role: 'tool'; invocation: ChatToolInvocation }
+    | { role: 'patch'; patch: DraftPatch; status: PatchStatus };
+
+const TOOL_STATUS_LABELS: Record<ChatToolInvocation['status'], string> = {
+    running: 'Running...',
+    done: 'Done',
+    failed: 'Failed',
+};
+
+const ToolInvocationCard: React.FC<{ invocation: ChatToolInvocation }> = ({ invocation }) => (
+    <details className="text-xs bg-slate-800/60 border border-slate-700 rounded-lg">
+        <summary className="flex items-center justify-between gap-2 px-3 py-2 cursor-pointer">
+            <span className="font-mono text-slate-300 truncate">
+                {invocation.name}({Object.entries(invocation.args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ')})
+            </span>
+            <span className={`flex-shrink-0 ${invocation.status === 'failed' ? 'text-red-400' : invocation.status === 'done' ? 'text-emerald-400' : 'text-indigo-300 animate-pulse'}`}>
+                {TOOL_STATUS_LABELS[invocation.status]}
+            </span>
+        </summary>
+        {invocation.result && (
+            <pre className="px-3 pb-2 max-h-40 overflow-auto whitespace-pre-wrap break-all font-mono text-[11px] text-slate-400">{invocation.result.slice(0, 2000)}</pre>
+        )}
+    </details>
+);
+
+const PATCH_LABELS: Record<DraftPatch['op'], string> = {
+    replace: 'Replace block',
+    insert_after: 'Insert block',
+    delete: 'Delete block',
+    retitle: 'New title',
+};
 
-type Block = { id: string; content: string };
+const PatchText: React.FC<{ text: string; kind: 'removed' | 'added' | 'context' }> = ({ text, kind }) => (
+    <div className={`px-2 py-1.5 rounded border whitespace-pre-wrap break-words max-h-40 overflow-y-auto ${
+        kind === 'removed' ? 'border-red-500/40 bg-red-900/10 text-slate-300 line-through decoration-red-400/60'
+        : kind === 'added' ? 'border-emerald-500/40 bg-emerald-900/10 text-slate-200'
+        : 'border-slate-700 text-slate-500 line-clamp-2'
+    }`}>{text}</div>
+);
 
-const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGenerated }) => {
+interface DraftPatchCardProps {
+    patch: DraftPatch;
+    status: PatchStatus;
+    // Why the patch can no longer be applied, if the draft changed under it
+    conflict: string | null;
+    onAccept: () => void;
+    onReject: () => void;
+}
+
+const DraftPatchCard: React.FC<DraftPatchCardProps> = ({ patch, status, conflict, onAccept, onReject }) => (
+    <div className={`text-xs bg-slate-800/60 border border-slate-700 rounded-lg p-3 space-y-2 ${status !== 'pending' ? 'opacity-60' : ''}`}>
+        <div className="flex items-center justify-between gap-2">
+            <span className="font-semibold text-slate-300">{PATCH_LABELS[patch.op]}</span>
+            {status !== 'pending' && <span className={status === 'accepted' ? 'text-emerald-400' : 'text-slate-500'}>{status === 'accepted' ? 'Applied' : 'Rejected'}</span>}
+        </div>
+        {patch.op === 'insert_after' && <PatchText text={patch.before} kind="context" />}
+        {patch.op !== 'insert_after' && patch.before && <PatchText text={patch.before} kind="removed" />}
+        {patch.op === 'replace' || patch.op === 'insert_after' ? <PatchText text={patch.content} kind="added" />
+            : patch.op === 'retitle' ? <PatchText text={patch.title} kind="added" /> : null}
+        {status === 'pending' && (
+            <div className="flex items-center justify-end gap-2">
+                {conflict && <span className="mr-auto text-amber-400">{conflict}</span>}
+                <button onClick={onReject} className="px-2 py-1 bg-slate-700 text-white rounded hover:bg-slate-600">Reject</button>
+                <button onClick={onAccept} disabled={!!conflict} className="px-2 py-1 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed">Accept</button>
+            </div>
+        )}
+    </div>
+);
+
+const ArticleDrafting: React.FC<Props> = ({ appState, projectId, onDraftComplete, onImageGenerated, onSnapshotsChange }) => {
     const [isLoading, setIsLoading] = useState(true);
+    const [isStreaming, setIsStreaming] = useState(false);
     const [isReviewing, setIsReviewing] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [title, setTitle] = useState<string>('');
-    const [blocks, setBlocks] = useState<Block[]>([]);
+    const history = useBlockHistory();
+    const draftRequests = useAbortSignals();
+    const draftProgress = useProgressLog();
+    const headerImageRequests = useAbortSignals();
+    const imageEditRequests = useAbortSignals();
+    // Inline images have no cancel button but stop when the studio closes
+    const requests = useAbortSignals();
+    const transformRequests = useAbortSignals();
+    const insertRequests = useAbortSignals();
+    const chatRequests = useAbortSignals();
+    // What has been written so far, kept when drafting is stopped
+    const partialDraftRef = useRef('');
+    const { blocks } = history;
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isSnapshotsOpen, setIsSnapshotsOpen] = useState(false);
+    const [checkpointName, setCheckpointName] = useState('');
+    const [compareSnapshotId, setCompareSnapshotId] = useState<string | null>(null);
     const [isTransforming, setIsTransforming] = useState<string | null>(null); // holds block ID
+    // The rewritten text so far, shown in place of the block until it is complete
+    const [transformPreview, setTransformPreview] = useState<string | null>(null);
     const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null);
     const [editingBlockId, setEditingBlockId] = useState<string | null>(null);
     const [editingContent, setEditingContent] = useState('');
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     
     const [headerImageLoading, setHeaderImageLoading] = useState(false);
+    // Only one header image request runs at a time. A cancelled one no longer counts.
+    const headerImageSignalRef = useRef<AbortSignal | null>(null);
     const [toc, setToc] = useState<{ level: number; text: string; id: string }[]>([]);
     const [placeholderStates, setPlaceholderStates] = useState<Record<string, { isLoading: boolean; error?: string }>>({});
 
@@ -69,31 +170,49 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
     // Insert State
     const [hoverInsertId, setHoverInsertId] = useState<string | null>(null);
     const [isInserting, setIsInserting] = useState<string | null>(null); // holds block ID where insertion happens
+    const [insertPreview, setInsertPreview] = useState('');
 
     // Chat State
     const [isChatOpen, setIsChatOpen] = useState(false);
-    const [chatMessages, setChatMessages] = useState<{ role: 'user' | 'model', text: string }[]>([
+    const [chatMessages, setChatMessages] = useState<ChatMessage[]>([
         { role: 'model', text: 'Hi! I am your AI editor. I can help you rewrite the article, find data, or make global changes. How can I help?' }
     ]);
+    // What the assistant remembers of the conversation, kept across messages
+    const chatSessionRef = useRef(createDraftChatSession());
     const [chatInput, setChatInput] = useState('');
     const [isChatLoading, setIsChatLoading] = useState(false);
+    const [chatPartial, setChatPartial] = useState('');
+
+    const isHeaderImagePending = () => !!headerImageSignalRef.current && !headerImageSignalRef.current.aborted;
+
+    const startHeaderImageRequest = () => {
+        const signal = headerImageRequests.createSignal();
+        headerImageSignalRef.current = signal;
+        return signal;
+    };
+
+    const finishHeaderImageRequest = (signal: AbortSignal) => {
+        if (headerImageSignalRef.current === signal) headerImageSignalRef.current = null;
+        if (!signal.aborted) setHeaderImageLoading(false);
+    };
 
     useEffect(() => {
         const defaultImagePrompt = `Create a unique and authentic-looking blog header image for an article about '${appState.topic}'. Avoid generic stock photo styles. The image should be professional, engaging, and relevant to the topic.`;
         setImagePrompt(defaultImagePrompt);
 
-        if (!appState.imageUrl && appState.topic) {
+        if (!appState.imageUrl && appState.topic && !isHeaderImagePending()) {
+            const signal = startHeaderImageRequest();
             setHeaderImageLoading(true);
-            generateArticleImage(defaultImagePrompt)
-                .then(url => onImageGenerated(url))
-                .catch((err: any) => setError(err.message || 'Failed to generate header image.'))
-                .finally(() => setHeaderImageLoading(false));
+            generateArticleImage(defaultImagePrompt, { signal })
+                .then(url => !signal.aborted && onImageGenerated(url))
+                .catch((err: any) => !signal.aborted && setError(err.message || 'Failed to generate header image.'))
+                .finally(() => finishHeaderImageRequest(signal));
         }
     }, [appState.topic, appState.imageUrl, onImageGenerated]);
 
     // Robust splitting logic to handle tables and code blocks correctly
-    const splitContentToBlocks = (text: string): Block[] => {
-        const blocks: Block[] = [];
+    const splitContentToBlocks = (text: string): DraftBlock[] => {
+        const blocks: DraftBlock[] = [];
         const lines = text.split('\n');
         let currentBlockContent: string[] = [];
         let inCodeBlock = false;
@@ -175,68 +294,108 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
         return blocks;
     };
 
+    // Pulls the H1 out of the blocks so it can be shown (and edited) separately
+    const extractTitle = (blocks: DraftBlock[]): { title: string; blocks: DraftBlock[] } => {
+        const titleIndex = blocks.findIndex(b => b.content.trim().startsWith('# '));
+        if (titleIndex === -1) return { title: '', blocks };
+        return {
+            title: blocks[titleIndex].content.replace(/^#\s*/, '').trim(),
+            blocks: blocks.filter((_, i) => i !== titleIndex),
+        };
+    };
+
+    const updateToc = (blocks: DraftBlock[]) => {
+        const contentForToc = blocks.map(b => b.content).join('\n\n');
+        const headingRegex = /^(#{2,6})\s*(.*)/gm;
+        const matches = [...contentForToc.matchAll(headingRegex)];
+        const newToc = matches.map(match => {
+            const level = match[1].length;
+            const text = match[2].trim();
+            const id = text.toString().toLowerCase().trim().replace(/\s+/g, '-').replace(/[^\w\-]+/g, '').replace(/\-\-+/g, '-');
+            return { level, text, id };
+        });
+        setToc(newToc);
+    };
+
+    // Opens the draft this project already has instead of writing a new one: the completed draft,
+    // else the latest snapshot. Regenerating would orphan the stored inline images.
+    const restoreStoredDraft = (): boolean => {
+        const latestSnapshot = appState.draftSnapshots[appState.draftSnapshots.length - 1];
+        const stored = appState.draft ? extractTitle(splitContentToBlocks(appState.draft)) : latestSnapshot;
+        if (!stored || stored.blocks.length === 0) return false;
+        if (stored.title) setTitle(stored.title);
+        history.reset(stored.blocks);
+        updateToc(stored.blocks);
+        setIsLoading(false);
+        return true;
+    };
+
     useEffect(() => {
         const generate = async () => {
             if (!appState.topic || appState.outline.length === 0) return;
+            if (restoreStoredDraft()) return;
             
+            const signal = draftRequests.createSignal();
+            let isReviewStep = false;
+            partialDraftRef.current = '';
+            draftProgress.reset();
             try {
                 // Step 1: Generation
                 const textPrompt = `Write a comprehensive, engaging, and GEO-optimized blog post about '${appState.topic}'. Follow this outline exactly:\n- ${appState.outline.join('\n- ')}`;
-                const stream = await generateLongFormContent(textPrompt, appState.internalLinks);
+                const stream = await generateLongFormContent(textPrompt, appState.internalLinks, appState.styleGuide, { signal, onProgress: draftProgress.onProgress });
                 let fullDraft = '';
                 let firstChunkReceived = false;
                 
                 for await (const chunk of stream) {
                     if (!firstChunkReceived) {
                         setIsLoading(false); // Hide loader, show content area
+                        setIsStreaming(true);
                         firstChunkReceived = true;
                     }
-                    fullDraft += chunk.text;
+                    fullDraft += chunk;
+                    partialDraftRef.current = fullDraft;
                     // Simple split for live preview
-                    setBlocks([{ id: 'preview', content: fullDraft }]);
+                    history.reset([{ id: 'preview', content: fullDraft }]);
                 }
+                setIsStreaming(false);
                  
                 // If no content, exit.
                 if (!firstChunkReceived) {
                     setIsLoading(false);
-                    setBlocks([{ id: 'block-0', content: 'The AI could not generate content for this topic. Please try again.' }]);
+                    history.reset([{ id: 'block-0', content: 'The AI could not generate content for this topic. Please try again.' }]);
                     return;
                 }
 
-                // Step 2: Review (Once complete)
+                const raw = extractTitle(splitContentToBlocks(fullDraft));
+                onSnapshotsChange(prev => addSnapshot(prev, createSnapshot('Raw draft', 'raw', raw.title, raw.blocks)));
+
+                // Step 2: Review (Once complete). The reviewed text replaces the raw draft as it is written.
                 setIsReviewing(true);
-                const cleanedDraft = await reviewArticle(fullDraft);
+                isReviewStep = true;
+                const cleanedDraft = await streamReviewArticle(fullDraft, appState.styleGuide, partial => {
+                    if (!signal.aborted && partial.trim()) history.reset([{ id: 'preview', content: partial }]);
+                }, { signal });
+                if (signal.aborted) return;
                 
                 // Step 3: Final Processing
-                let finalBlocks = splitContentToBlocks(cleanedDraft);
-
-                // Extract title
-                const titleIndex = finalBlocks.findIndex(b => b.content.trim().startsWith('# '));
-                if (titleIndex > -1) {
-                    const titleBlock = finalBlocks[titleIndex];
-                    const newTitle = titleBlock.content.replace(/^#\s*/, '').trim();
-                    setTitle(newTitle);
-                    finalBlocks.splice(titleIndex, 1);
-                }
+                const { title: newTitle, blocks: finalBlocks } = extractTitle(splitContentToBlocks(cleanedDraft));
+                if (newTitle) setTitle(newTitle);
                 
-                setBlocks(finalBlocks);
-
-                const contentForToc = finalBlocks.map(b => b.content).join('\n\n');
-                const headingRegex = /^(#{2,6})\s*(.*)/gm;
-                const matches = [...contentForToc.matchAll(headingRegex)];
-                const newToc = matches.map(match => {
-                    const level = match[1].length;
-                    const text = match[2].trim();
-                    const id = text.toString().toLowerCase().trim().replace(/\s+/g, '-').replace(/[^\w\-]+/g, '').replace(/\-\-+/g, '-');
-                    return { level, text, id };
-                });
-                setToc(newToc);
+                history.reset(finalBlocks);
+                onSnapshotsChange(prev => addSnapshot(prev, createSnapshot('Reviewed draft', 'reviewed', newTitle, finalBlocks)));
+                updateToc(finalBlocks);
 
             } catch (err: any) {
+                if (signal.aborted) return;
                 setError(err.message || "An unknown error occurred during drafting.");
                 setIsLoading(false);
+                // A failed review leaves the draft as it was written
+                if (isReviewStep) keepPartialDraft();
             } finally {
-                setIsReviewing(false);
+                if (!signal.aborted) {
+                    setIsStreaming(false);
+                    setIsReviewing(false);
+                }
             }
         };
         generate();
@@ -249,18 +408,69 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
         }
     }, [editingContent, editingBlockId]);
 
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            // Leave native undo alone while typing in the editor or the chat
+            const target = e.target as HTMLElement;
+            if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                history.undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                history.redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [history.undo, history.redo]);
+
+    // Blocks from what was streamed before any review
+    const keepPartialDraft = () => {
+        const partial = partialDraftRef.current;
+        if (partial.trim()) {
+            const { title: partialTitle, blocks: partialBlocks } = extractTitle(splitContentToBlocks(partial));
+            if (partialTitle) setTitle(partialTitle);
+            history.reset(partialBlocks);
+            updateToc(partialBlocks);
+        } else {
+            history.reset([{ id: 'block-0', content: 'Drafting was cancelled before any content was written.' }]);
+        }
+    };
+
+    // Keeps whatever was streamed before the stop, skipping the review pass
+    const handleStopDrafting = () => {
+        draftRequests.cancel();
+        keepPartialDraft();
+        setIsLoading(false);
+        setIsStreaming(false);
+        setIsReviewing(false);
+    };
+
+    const handleCancelHeaderImage = () => {
+        headerImageRequests.cancel();
+        setHeaderImageLoading(false);
+    };
+
+    const handleCancelImageEdit = () => {
+        imageEditRequests.cancel();
+        setIsEditingImageLoading(false);
+    };
+
     const handleGenerateInlineImage = async (blockId: string, prompt: string) => {
         setPlaceholderStates(prev => ({ ...prev, [blockId]: { isLoading: true } }));
         setError(null);
+        const signal = requests.createSignal();
         try {
-            const imageUrl = await generateArticleImage(prompt);
+            const imageUrl = await saveAsset(projectId, await generateArticleImage(prompt, { signal }));
             // Sanitize prompt to ensure it fits on one line for markdown alt text validity
             const sanitizedPrompt = prompt.replace(/[\r\n]+/g, ' ').trim();
             const newContent = `![${sanitizedPrompt}](${imageUrl})`;
-            setBlocks(prevBlocks => 
-                prevBlocks.map(b => b.id === blockId ? { ...b, content: newContent } : b)
-            );
+            history.execute('Generate image', { type: 'update', blockId, content: newContent });
         } catch (err: any) {
+            if (signal.aborted) return;
             setError(`Failed to generate image for "${prompt}": ${err.message}`);
             setPlaceholderStates(prev => ({ ...prev, [blockId]: { isLoading: false, error: err.message } }));
         }
@@ -274,19 +484,31 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
         setSelectedBlockId(null);
         setError(null);
 
+        const signal = transformRequests.createSignal();
         try {
-            const transformedText = await transformText(targetBlock.content, action, appState.language);
-            setBlocks(currentBlocks => 
-                currentBlocks.map(b => b.id === targetBlockId ? { ...b, content: transformedText } : b)
-            );
+            const transformedText = await streamTransformText(targetBlock.content, action, appState.language, appState.styleGuide, partial => {
+                if (!signal.aborted) setTransformPreview(partial);
+            }, { signal });
+            if (signal.aborted) return;
+            history.execute(action, { type: 'update', blockId: targetBlockId, content: transformedText });
         } catch (err: any) {
-            setError(err.message || `Failed to perform action: ${action}`);
+            if (!signal.aborted) setError(err.message || `Failed to perform action: ${action}`);
         } finally {
-            setIsTransforming(null);
+            if (!signal.aborted) {
+                setIsTransforming(null);
+                setTransformPreview(null);
+            }
         }
     };
 
-    const handleEdit = (block: Block) => {
+    // The block keeps its content; nothing was applied yet
+    const handleCancelTransform = () => {
+        transformRequests.cancel();
+        setIsTransforming(null);
+        setTransformPreview(null);
+    };
+
+    const handleEdit = (block: DraftBlock) => {
         setSelectedBlockId(null);
         setEditingBlockId(block.id);
         setEditingContent(block.content);
@@ -294,89 +516,140 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
 
     const handleSaveEdit = () => {
         if (!editingBlockId) return;
-        setBlocks(blocks.map(b => b.id === editingBlockId ? { ...b, content: editingContent } : b));
+        history.execute('Edit text', { type: 'update', blockId: editingBlockId, content: editingContent });
         setEditingBlockId(null);
         setEditingContent('');
     };
     
     const handleDelete = (targetBlockId: string) => {
-        setBlocks(blocks.filter(b => b.id !== targetBlockId));
+        history.execute('Delete block', { type: 'delete', blockId: targetBlockId });
         setSelectedBlockId(null);
     };
     
+    const handleSaveCheckpoint = (e: React.FormEvent) => {
+        e.preventDefault();
+        const checkpointCount = appState.draftSnapshots.filter(s => s.kind === 'checkpoint').length;
+        const name = checkpointName.trim() || `Checkpoint ${checkpointCount + 1}`;
+        onSnapshotsChange(prev => addSnapshot(prev, createSnapshot(name, 'checkpoint', title, blocks)));
+        setCheckpointName('');
+    };
+
+    const handleRestoreSnapshot = (snapshot: DraftSnapshot) => {
+        // Restoring is a regular history command, so it can be undone like any other edit
+        history.execute(`Restore "${snapshot.name}"`, { type: 'replaceAll', blocks: snapshot.blocks.map(b => ({ ...b })) });
+        if (snapshot.title) setTitle(snapshot.title);
+        updateToc(snapshot.blocks);
+        setCompareSnapshotId(null);
+    };
+
+    const handleDeleteSnapshot = (snapshotId: string) => {
+        onSnapshotsChange(prev => prev.filter(s => s.id !== snapshotId));
+    };
+
     const handleContinue = () => {
         const finalDraft = `# ${title}\n\n${blocks.map(b => b.content).join('\n\n')}`;
         onDraftComplete(finalDraft);
     };
     
     const handleRegenerateImage = async () => {
-        if (!imagePrompt) return;
+        if (!imagePrompt || isHeaderImagePending()) return;
         setHeaderImageLoading(true);
         setError(null);
+        const signal = startHeaderImageRequest();
         try {
-            const url = await generateArticleImage(imagePrompt);
+            const url = await generateArticleImage(imagePrompt, { signal });
+            if (signal.aborted) return;
             onImageGenerated(url);
             setIsEditingPrompt(false);
-        } catch (err: any) { setError(err.message || 'Failed to regenerate image.'); } 
-        finally { setHeaderImageLoading(false); }
+        } catch (err: any) { if (!signal.aborted) setError(err.message || 'Failed to regenerate image.'); } 
+        finally { finishHeaderImageRequest(signal); }
     };
 
     const handleApplyImageEdit = async () => {
         if (!editingImage || !imageEditPrompt.trim()) return;
         setIsEditingImageLoading(true);
         setError(null);
+        const signal = imageEditRequests.createSignal();
         try {
             const dataUrlRegex = /^data:(image\/[a-zA-Z]+);base64,(.*)$/;
-            const match = editingImage.imageUrl.match(dataUrlRegex);
+            const sourceUrl = isAssetRef(editingImage.imageUrl) ? await resolveAssetDataUrl(editingImage.imageUrl) : editingImage.imageUrl;
+            const match = sourceUrl.match(dataUrlRegex);
             if (!match) throw new Error("Invalid image data URL format.");
             
             const [, mimeType, base64Data] = match;
-            const newImageUrl = await editArticleImage(base64Data, mimeType, imageEditPrompt);
+            const editedImageUrl = await editArticleImage(base64Data, mimeType, imageEditPrompt, { signal });
+            if (signal.aborted) return;
 
+            let newImageUrl = editedImageUrl;
             if (editingImage.blockId === 'header') {
-                onImageGenerated(newImageUrl);
+                onImageGenerated(editedImageUrl);
             } else {
+                newImageUrl = await saveAsset(projectId, editedImageUrl);
                 const newContent = `![${editingImage.altText}](${newImageUrl})`;
-                setBlocks(prevBlocks => 
-                    prevBlocks.map(b => b.id === editingImage.blockId ? { ...b, content: newContent } : b)
-                );
+                history.execute('Edit image', { type: 'update', blockId: editingImage.blockId, content: newContent });
             }
             setEditingImage(prev => prev ? { ...prev, imageUrl: newImageUrl } : null);
             setImageEditPrompt('');
         } catch (err: any) {
-            setError(err.message || "Failed to apply image edit.");
+            if (!signal.aborted) setError(err.message || "Failed to apply image edit.");
         } finally {
-            setIsEditingImageLoading(false);
+            if (!signal.aborted) setIsEditingImageLoading(false);
         }
     };
 
     const handleInsertContent = async (index: number, type: 'TEXT' | 'IMAGE' | 'GRAPH' | 'TABLE') => {
         setIsInserting(`idx-${index}`);
+        setInsertPreview('');
         setError(null);
+        const signal = insertRequests.createSignal();
         try {
             // Get context
             const prevContext = blocks.slice(Math.max(0, index - 2), index).map(b => b.content).join('\n');
             const nextContext = blocks.slice(index, Math.min(blocks.length, index + 2)).map(b => b.content).join('\n');
             
-            const newContent = await generateContextualAddition(prevContext, nextContext, type);
+            const newContent = await streamContextualAddition(prevContext, nextContext, type, appState.styleGuide, partial => {
+                if (!signal.aborted) setInsertPreview(partial);
+            }, { signal });
+            if (signal.aborted) return;
             
-            const newBlock: Block = {
+            const newBlock: DraftBlock = {
                 id: `inserted-${Date.now()}`,
                 content: newContent
             };
             
-            const newBlocks = [...blocks];
-            newBlocks.splice(index, 0, newBlock);
-            setBlocks(newBlocks);
+            history.execute(`Insert ${type.toLowerCase()}`, { type: 'insert', index, block: newBlock });
 
         } catch (err: any) {
-            setError(err.message || "Failed to insert content.");
+            if (!signal.aborted) setError(err.message || "Failed to insert content.");
         } finally {
-            setIsInserting(null);
-            setHoverInsertId(null);
+            if (!signal.aborted) {
+                setIsInserting(null);
+                setInsertPreview('');
+                setHoverInsertId(null);
+            }
         }
     };
 
+    const handleCancelInsert = () => {
+        insertRequests.cancel();
+        setIsInserting(null);
+        setInsertPreview('');
+        setHoverInsertId(null);
+    };
+
+    // What is being inserted, as far as it has been written
+    const renderInsertProgress = () => insertPreview ? (
+        <div className="w-full p-2 rounded-md border border-dashed border-indigo-500/50 bg-slate-800/40">
+            <div className="opacity-80"><MarkdownRenderer content={insertPreview} /></div>
+            <div className="flex justify-end"><button onClick={handleCancelInsert} className="text-xs text-indigo-400 hover:text-indigo-300 underline">Stop</button></div>
+        </div>
+    ) : (
+        <div className="flex items-center gap-3">
+            <Loader message="Generating..." />
+            <button onClick={handleCancelInsert} className="text-xs text-indigo-400 hover:text-indigo-300 underline">Cancel</button>
+        </div>
+    );
+
     const handleChatSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!chatInput.trim()) return;
@@ -386,19 +659,93 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
         setChatMessages(prev => [...prev, { role: 'user', text: userMsg }]);
         setIsChatLoading(true);
 
+        setChatPartial('');
+        const signal = chatRequests.createSignal();
         try {
-            const fullDraft = `# ${title}\n\n${blocks.map(b => b.content).join('\n\n')}`;
-            const response = await chatWithDraft(fullDraft, chatMessages, userMsg, appState);
-            setChatMessages(prev => [...prev, { role: 'model', text: response }]);
+            // Tool calls appear in the conversation as they start and are updated once they finish
+            const showInvocation = (invocation: ChatToolInvocation) => {
+                if (signal.aborted) return;
+                setChatMessages(prev => prev.some(msg => msg.role === 'tool' && msg.invocation.id === invocation.id)
+                    ? prev.map(msg => msg.role === 'tool' && msg.invocation.id === invocation.id ? { role: 'tool', invocation } : msg)
+                    : [...prev, { role: 'tool', invocation }]);
+            };
+            const response = await streamChatWithDraft(chatSessionRef.current, { title, blocks }, userMsg, appState, partial => {
+                if (!signal.aborted) setChatPartial(partial);
+            }, showInvocation, { signal });
+            if (signal.aborted) return;
+            setChatMessages(prev => [
+                ...prev,
+                ...(response.text || response.patches.length === 0 ? [{ role: 'model' as const, text: response.text }] : []),
+                ...response.patches.map(patch => ({ role: 'patch' as const, patch, status: 'pending' as const })),
+            ]);
         } catch (err) {
-            setChatMessages(prev => [...prev, { role: 'model', text: "Sorry, I couldn't process that request." }]);
+            if (!signal.aborted) setChatMessages(prev => [...prev, { role: 'model', text: "Sorry, I couldn't process that request." }]);
         } finally {
-            setIsChatLoading(false);
+            if (!signal.aborted) {
+                setIsChatLoading(false);
+                setChatPartial('');
+            }
+        }
+    };
+
+    // The assistant doesn't remember a stopped answer
+    const handleStopChat = () => {
+        chatRequests.cancel();
+        setIsChatLoading(false);
+        setChatPartial('');
+        setChatMessages(prev => [...prev, { role: 'model', text: 'Stopped.' }]);
+    };
+
+    const handleShowBlock = (blockId: string) => {
+        setSelectedBlockId(blockId);
+        document.querySelector(`[data-block-id="${blockId}"]`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    };
+
+    // Block IDs the assistant cites become links to the block
+    const renderCitations = (text: string) => text.split(/(\[[^\]\s]+\])/).map((part, i) => {
+        const index = blocks.findIndex(b => `[${b.id}]` === part);
+        if (index === -1) return part;
+        return (
+            <button key={i} onClick={() => handleShowBlock(blocks[index].id)} title={blocks[index].content.slice(0, 120)} className="mx-0.5 px-1.5 rounded bg-slate-600 text-[11px] font-semibold text-indigo-200 hover:bg-indigo-600 hover:text-white">
+                Block {index + 1}
+            </button>
+        );
+    });
+
+    // A patch only applies to the text the assistant saw
+    const findPatchConflict = (patch: DraftPatch): string | null => {
+        if (patch.op === 'retitle') return title === patch.before ? null : 'The title changed since this was proposed.';
+        const block = blocks.find(b => b.id === patch.blockId);
+        if (!block) return 'This block is no longer in the draft.';
+        if (patch.op !== 'insert_after' && block.content !== patch.before) return 'This block was edited since this was proposed.';
+        return null;
+    };
+
+    const setPatchStatus = (patchId: string, status: PatchStatus) =>
+        setChatMessages(prev => prev.map(msg => msg.role === 'patch' && msg.patch.id === patchId ? { ...msg, status } : msg));
+
+    // Accepted patches go through the same history commands as manual edits, so they can be undone
+    const handleAcceptPatch = (patch: DraftPatch) => {
+        if (findPatchConflict(patch)) return;
+        switch (patch.op) {
+            case 'replace':
+                history.execute('Chat: replace block', { type: 'update', blockId: patch.blockId, content: patch.content });
+                break;
+            case 'insert_after':
+                history.execute('Chat: insert block', { type: 'insert', index: blocks.findIndex(b => b.id === patch.blockId) + 1, block: { id: generateId('block'), content: patch.content } });
+                break;
+            case 'delete':
+                history.execute('Chat: delete block', { type: 'delete', blockId: patch.blockId });
+                break;
+            case 'retitle':
+                setTitle(patch.title);
+                break;
         }
+        setPatchStatus(patch.id, 'accepted');
     };
 
-    // Updated regex to be more permissive with alt text (newlines) and mime types
-    const imageMarkdownRegex = /!\[([\s\S]*?)\]\((data:image\/[^;]+;base64,[^)]+)\)/;
+    // Updated regex to be more permissive with alt text (newlines) and mime types. Matches stored asset references too.
+    const imageMarkdownRegex = /!\[([\s\S]*?)\]\(((?:data:image\/[^;]+;base64,|asset:\/\/)[^)]+)\)/;
 
     return (
         <div className="h-full flex flex-col relative">
@@ -406,6 +753,11 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
                 <h2 className="text-3xl font-bold text-slate-100">Step 3: Drafting Studio</h2>
                 <p className="text-slate-400 mt-2">
                     {isLoading ? 'The AI is writing your article (Inverted Pyramid Model)...' : isReviewing ? 'AI is reviewing format and GEO compliance...' : 'Click on a paragraph to reveal editing options. Hover between blocks to insert new content.'}
+                    {(isStreaming || isReviewing) && (
+                        <button onClick={handleStopDrafting} className="ml-3 text-sm text-indigo-400 hover:text-indigo-300 underline">
+                            {isReviewing ? 'Skip review' : 'Stop writing'}
+                        </button>
+                    )}
                 </p>
             </header>
             
@@ -414,7 +766,7 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
             <main className="flex-grow overflow-y-auto pr-2 bg-slate-800/20 rounded-lg p-2 pt-12 flex flex-col">
                 {isLoading && (
                     <div className="flex items-center justify-center h-full">
-                        <ThinkingProcess messages={DRAFTING_STEPS} />
+                        <ThinkingProcess updates={draftProgress.updates} onCancel={handleStopDrafting} />
                     </div>
                 )}
                 
@@ -423,12 +775,12 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
                     <div className="relative group mb-6">
                         {headerImageLoading && (
                             <div className="w-full aspect-video flex items-center justify-center bg-slate-900/50 rounded-md border-2 border-dashed border-slate-700">
-                                <Loader message="Generating header image..." />
+                                <Loader message="Generating header image..." onCancel={handleCancelHeaderImage} />
                             </div>
                         )}
                         {!headerImageLoading && appState.imageUrl && (
                              <div className="relative group w-full aspect-video rounded-lg overflow-hidden shadow-xl border border-slate-700/50">
-                                <img src={appState.imageUrl} alt={appState.topic} className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110" />
+                                <AssetImage src={appState.imageUrl} alt={appState.topic} className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110" />
                                 <div className="absolute inset-0 flex items-center justify-center bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity duration-300 text-white font-semibold rounded-md gap-4">
                                     <button onClick={() => setIsEditingPrompt(true)} className="flex items-center gap-2 p-2 rounded-md hover:bg-black/30">
                                         <IconPencil /> <span>Change Prompt</span>
@@ -477,12 +829,12 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
                                     {/* Insertion Divider BEFORE the block */}
                                     {showInsert && (
                                         <div 
-                                            className={`relative flex items-center justify-center group/insert transition-all duration-300 ${insertLoading ? 'h-16' : 'h-8'}`}
+                                            className={`relative flex items-center justify-center group/insert transition-all duration-300 ${insertLoading ? 'min-h-16 py-2' : 'h-8'}`}
                                             style={{ zIndex: 50 }}
                                             onMouseEnter={() => setHoverInsertId(block.id)}
                                             onMouseLeave={() => setHoverInsertId(null)}
                                         >
-                                            {insertLoading ? <Loader message="Generating..." /> : (
+                                            {insertLoading ? renderInsertProgress() : (
                                                 <div className={`absolute z-50 flex gap-2 bg-slate-800 shadow-xl rounded-full px-4 py-2 border border-slate-600 transition-all duration-200 ${hoverInsertId === block.id ? 'opacity-100 scale-100' : 'opacity-0 scale-90 pointer-events-none'}`}>
                                                     <button onClick={() => handleInsertContent(index, 'TEXT')} className="flex items-center gap-1 text-xs font-bold text-slate-300 hover:text-indigo-400"><IconPencil /> Text</button>
                                                     <div className="w-px h-4 bg-slate-600 self-center"></div>
@@ -498,6 +850,7 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
                                     )}
 
                                     {/* Block Content */}
+                                    <div data-block-id={block.id} />
                                     {(() => {
                                         if (isPreview) {
                                             return (
@@ -511,7 +864,7 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
                                             const [, altText, imageUrl] = imageMatch;
                                             return (
                                                 <div className="relative group my-8 not-prose">
-                                                    <img src={imageUrl} alt={altText} className="rounded-lg shadow-lg max-w-full h-auto mx-auto" />
+                                                    <AssetImage src={imageUrl} alt={altText} className="rounded-lg shadow-lg max-w-full h-auto mx-auto" />
                                                     <button 
                                                         onClick={() => setEditingImage({ blockId: block.id, imageUrl, altText })}
                                                         className="absolute inset-0 flex items-center justify-center bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity duration-300 text-white font-semibold rounded-md cursor-pointer"
@@ -591,9 +944,16 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
                                                             onClick={() => setSelectedBlockId(isSelected ? null : block.id)}
                                                             className={`p-2 rounded-md transition-all duration-200 cursor-pointer ${
                                                                 isSelected ? '' : 'hover:bg-slate-800/20'
-                                                            } ${isTransforming === block.id ? 'opacity-50 animate-pulse' : ''}`}
+                                                            } ${isTransforming === block.id && !transformPreview ? 'opacity-50 animate-pulse' : ''}`}
                                                         >
-                                                            <MarkdownRenderer content={block.content} />
+                                                            <MarkdownRenderer content={isTransforming === block.id && transformPreview ? transformPreview : block.content} />
+                                                            {isTransforming === block.id && (
+                                                                <div className="flex justify-end">
+                                                                    <button onClick={(e) => { e.stopPropagation(); handleCancelTransform(); }} className="text-xs text-indigo-400 hover:text-indigo-300 underline">
+                                                                        Stop and keep the original
+                                                                    </button>
+                                                                </div>
+                                                            )}
                                                         </div>
                                                     )}
                                                 </div>
@@ -607,12 +967,12 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
                         {/* Final Divider at bottom */}
                          {!isLoading && (
                             <div 
-                                className={`relative flex items-center justify-center group/insert transition-all duration-300 ${isInserting === `idx-${blocks.length}` ? 'h-16' : 'h-8'}`}
+                                className={`relative flex items-center justify-center group/insert transition-all duration-300 ${isInserting === `idx-${blocks.length}` ? 'min-h-16 py-2' : 'h-8'}`}
                                 style={{ zIndex: 40 }}
                                 onMouseEnter={() => setHoverInsertId('end')}
                                 onMouseLeave={() => setHoverInsertId(null)}
                             >
-                                {isInserting === `idx-${blocks.length}` ? <Loader message="Generating..." /> : (
+                                {isInserting === `idx-${blocks.length}` ? renderInsertProgress() : (
                                     <div className={`absolute z-20 flex gap-2 bg-slate-800 shadow-xl rounded-full px-4 py-2 border border-slate-600 transition-all duration-200 ${hoverInsertId === 'end' ? 'opacity-100 scale-100' : 'opacity-0 scale-90 pointer-events-none'}`}>
                                         <button onClick={() => handleInsertContent(blocks.length, 'TEXT')} className="flex items-center gap-1 text-xs font-bold text-slate-300 hover:text-indigo-400"><IconPencil /> Text</button>
                                         <div className="w-px h-4 bg-slate-600 self-center"></div>
@@ -631,11 +991,32 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
                 )}
             </main>
 
+            {!isLoading && !isReviewing && (
+                <div className="flex-shrink-0 pt-3">
+                    <StyleCheckNotice text={`${title}\n\n${blocks.map(b => b.content).join('\n\n')}`} styleGuide={appState.styleGuide} />
+                </div>
+            )}
+
             <footer className="flex-shrink-0 pt-6 flex justify-between items-center relative">
                 <button onClick={() => setIsChatOpen(!isChatOpen)} className="flex items-center gap-2 px-4 py-2 bg-slate-700 text-white rounded-full font-semibold hover:bg-slate-600 border border-slate-500 shadow-lg">
                    <IconChat /> {isChatOpen ? 'Hide Assistant' : 'AI Editor Assistant'}
                 </button>
 
+                <div className="flex items-center gap-2">
+                    <button onClick={history.undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)" className="p-2 bg-slate-700 text-white rounded-full hover:bg-slate-600 border border-slate-500 disabled:opacity-40 disabled:cursor-not-allowed">
+                        <IconUndo />
+                    </button>
+                    <button onClick={history.redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)" className="p-2 bg-slate-700 text-white rounded-full hover:bg-slate-600 border border-slate-500 disabled:opacity-40 disabled:cursor-not-allowed">
+                        <IconRedo />
+                    </button>
+                    <button onClick={() => { setIsHistoryOpen(!isHistoryOpen); setIsSnapshotsOpen(false); }} className="flex items-center gap-2 px-4 py-2 bg-slate-700 text-white rounded-full font-semibold hover:bg-slate-600 border border-slate-500">
+                        <IconClock /> History ({history.past.length})
+                    </button>
+                    <button onClick={() => { setIsSnapshotsOpen(!isSnapshotsOpen); setIsHistoryOpen(false); }} className="flex items-center gap-2 px-4 py-2 bg-slate-700 text-white rounded-full font-semibold hover:bg-slate-600 border border-slate-500">
+                        <IconCamera /> Snapshots ({appState.draftSnapshots.length})
+                    </button>
+                </div>
+
                 <button onClick={handleContinue} disabled={isLoading || isReviewing || isTransforming !== null || editingBlockId !== null} className="px-8 py-3 bg-indigo-600 text-white rounded-md font-semibold hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors">
                     Finalize & Publish
                 </button>
@@ -649,14 +1030,35 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
                         <button onClick={() => setIsChatOpen(false)} className="hover:text-white text-slate-400"><IconX /></button>
                     </header>
                     <div className="flex-grow overflow-y-auto p-4 space-y-4">
-                        {chatMessages.map((msg, i) => (
+                        {chatMessages.map((msg, i) => msg.role === 'tool' ? (
+                            <ToolInvocationCard key={msg.invocation.id} invocation={msg.invocation} />
+                        ) : msg.role === 'patch' ? (
+                            <DraftPatchCard
+                                key={msg.patch.id}
+                                patch={msg.patch}
+                                status={msg.status}
+                                conflict={findPatchConflict(msg.patch)}
+                                onAccept={() => handleAcceptPatch(msg.patch)}
+                                onReject={() => setPatchStatus(msg.patch.id, 'rejected')}
+                            />
+                        ) : (
                             <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                                 <div className={`max-w-[85%] p-3 rounded-lg text-sm ${msg.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-slate-700 text-slate-200'}`}>
-                                    {msg.text}
+                                    {msg.role === 'model' ? renderCitations(msg.text) : msg.text}
                                 </div>
                             </div>
                         ))}
-                        {isChatLoading && <div className="text-slate-400 text-xs italic ml-2">AI is typing...</div>}
+                        {isChatLoading && chatPartial && (
+                            <div className="flex justify-start">
+                                <div className="max-w-[85%] p-3 rounded-lg text-sm bg-slate-700 text-slate-200">{renderCitations(chatPartial)}</div>
+                            </div>
+                        )}
+                        {isChatLoading && (
+                            <div className="flex items-center gap-3 ml-2 text-xs">
+                                {!chatPartial && <span className="text-slate-400 italic">AI is typing...</span>}
+                                <button onClick={handleStopChat} className="text-indigo-400 hover:text-indigo-300 underline">Stop</button>
+                            </div>
+                        )}
                     </div>
                     <form onSubmit={handleChatSubmit} className="p-3 border-t border-slate-700 flex gap-2 bg-slate-800 rounded-b-lg">
                         <input 
@@ -673,6 +1075,91 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
                 </div>
             )}
 
+            {/* History Panel */}
+            {isHistoryOpen && (
+                <div className="absolute bottom-20 right-0 w-full md:w-80 max-h-[500px] bg-slate-900 border border-slate-700 rounded-lg shadow-2xl flex flex-col z-30 animate-fade-in">
+                    <header className="p-3 bg-slate-800 rounded-t-lg border-b border-slate-700 flex justify-between items-center">
+                        <h3 className="font-bold text-slate-100 flex items-center gap-2"><IconClock/> Edit History</h3>
+                        <button onClick={() => setIsHistoryOpen(false)} className="hover:text-white text-slate-400"><IconX /></button>
+                    </header>
+                    <ul className="flex-grow overflow-y-auto p-2 space-y-1 text-sm">
+                        <li>
+                            <button onClick={() => history.jumpTo(HISTORY_START_ID)} className={`w-full text-left px-3 py-2 rounded-md hover:bg-slate-800 ${history.past.length === 0 ? 'bg-indigo-500/10 text-indigo-300 font-semibold' : 'text-slate-300'}`}>
+                                Generated draft
+                            </button>
+                        </li>
+                        {history.past.map((entry, i) => (
+                            <li key={entry.id}>
+                                <button onClick={() => history.jumpTo(entry.id)} className={`w-full flex justify-between gap-2 text-left px-3 py-2 rounded-md hover:bg-slate-800 ${i === history.past.length - 1 ? 'bg-indigo-500/10 text-indigo-300 font-semibold' : 'text-slate-300'}`}>
+                                    <span className="truncate">{entry.label}</span>
+                                    <span className="text-xs text-slate-500 flex-shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                                </button>
+                            </li>
+                        ))}
+                        {history.future.map(entry => (
+                            <li key={entry.id}>
+                                <button onClick={() => history.jumpTo(entry.id)} className="w-full flex justify-between gap-2 text-left px-3 py-2 rounded-md hover:bg-slate-800 text-slate-500 line-through decoration-slate-600">
+                                    <span className="truncate">{entry.label}</span>
+                                    <span className="text-xs flex-shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* Snapshots Panel */}
+            {isSnapshotsOpen && (
+                <div className="absolute bottom-20 right-0 w-full md:w-96 max-h-[500px] bg-slate-900 border border-slate-700 rounded-lg shadow-2xl flex flex-col z-30 animate-fade-in">
+                    <header className="p-3 bg-slate-800 rounded-t-lg border-b border-slate-700 flex justify-between items-center">
+                        <h3 className="font-bold text-slate-100 flex items-center gap-2"><IconCamera/> Draft Snapshots</h3>
+                        <button onClick={() => setIsSnapshotsOpen(false)} className="hover:text-white text-slate-400"><IconX /></button>
+                    </header>
+                    <form onSubmit={handleSaveCheckpoint} className="p-3 border-b border-slate-700 flex gap-2">
+                        <input
+                            type="text"
+                            value={checkpointName}
+                            onChange={(e) => setCheckpointName(e.target.value)}
+                            placeholder="Checkpoint name (optional)"
+                            className="flex-grow bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-sm outline-none focus:border-indigo-500"
+                        />
+                        <button type="submit" disabled={isLoading || isReviewing || blocks.length === 0} className="px-3 py-2 text-sm bg-indigo-600 text-white rounded-md font-semibold hover:bg-indigo-700 disabled:opacity-50">
+                            Save
+                        </button>
+                    </form>
+                    <ul className="flex-grow overflow-y-auto p-2 space-y-1 text-sm">
+                        {appState.draftSnapshots.length === 0 && <li className="text-slate-500 text-center p-4">No snapshots yet.</li>}
+                        {[...appState.draftSnapshots].reverse().map(snapshot => (
+                            <li key={snapshot.id} className="px-3 py-2 rounded-md hover:bg-slate-800 group">
+                                <div className="flex justify-between items-center gap-2">
+                                    <span className="font-semibold text-slate-200 truncate">{snapshot.name}</span>
+                                    <span className="text-xs text-slate-500 flex-shrink-0">{SNAPSHOT_KIND_LABELS[snapshot.kind]}</span>
+                                </div>
+                                <div className="flex justify-between items-center mt-1">
+                                    <span className="text-xs text-slate-500">{new Date(snapshot.createdAt).toLocaleString()} · {snapshot.blocks.length} blocks</span>
+                                    <div className="flex gap-2 text-xs font-semibold">
+                                        <button onClick={() => setCompareSnapshotId(snapshot.id)} className="text-indigo-400 hover:text-indigo-300">Compare</button>
+                                        <button onClick={() => handleRestoreSnapshot(snapshot)} className="text-slate-300 hover:text-white">Restore</button>
+                                        <button onClick={() => handleDeleteSnapshot(snapshot.id)} className="text-red-400 hover:text-red-300">Delete</button>
+                                    </div>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {compareSnapshotId && (
+                <SnapshotDiffViewer
+                    snapshots={appState.draftSnapshots}
+                    currentTitle={title}
+                    currentBlocks={blocks}
+                    initialLeftId={compareSnapshotId}
+                    onRestore={handleRestoreSnapshot}
+                    onApplyBlockChange={history.execute}
+                    onClose={() => setCompareSnapshotId(null)}
+                />
+            )}
 
             {/* Modals for Image Editing (Existing) */}
             {isEditingPrompt && (
@@ -705,10 +1192,10 @@ const ArticleDrafting: React.FC<Props> = ({ appState, onDraftComplete, onImageGe
                         </header>
                         <div className="p-4 flex-grow flex flex-col gap-4 items-center">
                             <div className="relative w-full max-w-lg">
-                                <img src={editingImage.imageUrl} alt="Image to edit" className="rounded-md w-full" />
+                                <AssetImage src={editingImage.imageUrl} alt="Image to edit" className="rounded-md w-full" />
                                 {isEditingImageLoading && (
                                     <div className="absolute inset-0 bg-black/70 flex items-center justify-center rounded-md">
-                                        <Loader message="Applying edit..." />
+                                        <Loader message="Applying edit..." onCancel={handleCancelImageEdit} />
                                     </div>
                                 )}
                             </div>
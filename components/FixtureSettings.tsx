@@ -0,0 +1,88 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { FIXTURE_FILE_EXTENSION, Fixture, MOCK_MODE, clearFixtures, exportFixtures, importFixtures, listFixtures } from '../services/fixtures';
+import { downloadBlob } from '../utils/helpers';
+
+const KIND_LABELS: Record<Fixture['kind'], string> = {
+    text: 'Text',
+    stream: 'Streamed drafts',
+    json: 'JSON',
+    tools: 'Tool calls',
+    image: 'Images',
+    speech: 'Audio',
+    webhook: 'Webhook',
+};
+
+const FixtureSettings: React.FC = () => {
+    const [fixtures, setFixtures] = useState<Fixture[] | null>(null);
+    const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = () => listFixtures()
+        .then(setFixtures)
+        .catch(err => setMessage({ text: err.message || 'Failed to read the fixtures.', isError: true }));
+
+    useEffect(() => { refresh(); }, []);
+
+    const handleExport = async () => {
+        downloadBlob(await exportFixtures(), `rankenstein${FIXTURE_FILE_EXTENSION}`);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const count = await importFixtures(file);
+            setMessage({ text: `Imported ${count} fixtures.`, isError: false });
+        } catch (err: any) {
+            setMessage({ text: err.message || 'Failed to import the fixtures.', isError: true });
+        }
+        refresh();
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm('Delete every recorded fixture?')) return;
+        await clearFixtures();
+        setMessage(null);
+        refresh();
+    };
+
+    const counts = new Map<Fixture['kind'], number>();
+    fixtures?.forEach(fixture => counts.set(fixture.kind, (counts.get(fixture.kind) ?? 0) + 1));
+
+    return (
+        <div className="space-y-3">
+            <p className="text-xs text-slate-400">
+                {MOCK_MODE === 'record'
+                    ? 'Recording: every AI and webhook response is saved as a fixture. Clear the response cache first so cached answers are recorded too.'
+                    : 'Replaying: AI and webhook calls are answered from these fixtures, or with made-up data when none matches. Nothing leaves the browser.'}
+            </p>
+            <div className="flex gap-2">
+                <button onClick={handleExport} disabled={!fixtures?.length} className="px-3 py-1.5 text-xs bg-slate-700 text-white rounded-md font-medium hover:bg-slate-600 disabled:opacity-50">Export</button>
+                <button onClick={() => fileInputRef.current?.click()} className="px-3 py-1.5 text-xs bg-slate-700 text-white rounded-md font-medium hover:bg-slate-600">Import</button>
+                <button onClick={handleClear} disabled={!fixtures?.length} className="px-3 py-1.5 text-xs bg-slate-700 text-white rounded-md font-medium hover:bg-slate-600 disabled:opacity-50">Clear All</button>
+                <input ref={fileInputRef} type="file" accept={`${FIXTURE_FILE_EXTENSION},.json,application/json`} onChange={handleImport} className="hidden" />
+            </div>
+            {message && <p className={`text-xs ${message.isError ? 'text-red-400' : 'text-emerald-400'}`}>{message.text}</p>}
+            {fixtures && fixtures.length === 0 && <p className="text-sm text-slate-500 py-8 text-center">No fixtures recorded yet.</p>}
+            {fixtures && fixtures.length > 0 && (
+                <table className="w-full text-xs text-left">
+                    <thead className="text-slate-500">
+                        <tr><th className="py-2 pr-3">Response</th><th className="py-2 text-right">Fixtures</th></tr>
+                    </thead>
+                    <tbody className="text-slate-300">
+                        {[...counts.entries()].map(([kind, count]) => (
+                            <tr key={kind} className="border-t border-slate-800">
+                                <td className="py-1.5 pr-3">{KIND_LABELS[kind]}</td>
+                                <td className="py-1.5 text-right">{count}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+export default FixtureSettings;
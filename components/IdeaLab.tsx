@@ -4,68 +4,62 @@ import { generateTopicIdeas, generateTopicIdeasForWebsite } from '../services/ge
 import { AppState, TopicIdea } from '../types';
 import Loader from './Loader';
 import ThinkingProcess from './ThinkingProcess';
+import { useAbortSignals } from '../utils/abort';
+import { useProgressLog } from '../utils/progressLog';
 
 interface Props {
     appState: AppState;
     onTopicSelect: (topic: string) => void;
 }
 
-const MANUAL_IDEATION_STEPS = [
-    "Connecting to Google Trends database...",
-    "Analyzing search volume patterns...",
-    "Identifying high-potential keywords...",
-    "Filtering for 'Answer-First' opportunities...",
-    "Structuring final topic candidates..."
-];
-
-const AUTO_IDEATION_STEPS = [
-    "Crawling website structure...",
-    "Analyzing existing content & niche...",
-    "Identifying topical authority gaps...",
-    "Cross-referencing with search demand...",
-    "Generating tailored suggestions..."
-];
-
 const IconMagicWand = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M11.3 1.046A1 1 0 0112 2v1.046a1 1 0 01-1.447.894l-.849-.424a1 1 0 01-.299-1.211l.245-.978A1 1 0 0111.3 1.046zM6.8 2.553a1 1 0 011.211.299l.424.849a1 1 0 01-.894 1.447L6.5 4.102a1 1 0 01-1.211-.299l-.245-.978a1 1 0 011.255-1.272zM2.553 6.8a1 1 0 01.299-1.211l.978-.245a1 1 0 011.272 1.255l-.424.849a1 1 0 01-1.447.894L2.502 6.5a1 1 0 01.051-1.299zM1.046 11.3a1 1 0 011.046-1 1 1 0 01.894 1.447l-.424.849a1 1 0 01-1.211.299l-.978-.245a1 1 0 01.255-1.272zM4.102 14.5a1 1 0 01.894-1.447l.849.424a1 1 0 01.299 1.211l-.245.978a1 1 0 01-1.255 1.272l-.978-.245a1 1 0 01-.299-1.211zM8.148 15.852a1 1 0 011.106-1.106l5-5a1 1 0 011.414 1.414l-5 5a1 1 0 01-1.414 0l-.106-.106z" clipRule="evenodd" /><path d="M10.293 6.293a1 1 0 011.414 0l4 4a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414z" /></svg>;
 
 const TopicIdeation: React.FC<Props> = ({ appState, onTopicSelect }) => {
     const [theme, setTheme] = useState('');
     const [loading, setLoading] = useState(false);
-    const [loadingType, setLoadingType] = useState<'manual' | 'auto'>('manual');
     const [result, setResult] = useState<TopicIdea[] | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const { createSignal, cancel } = useAbortSignals();
+    const progress = useProgressLog();
+
+    const handleCancel = () => {
+        cancel();
+        setLoading(false);
+    };
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         if (!theme.trim()) return;
 
         setLoading(true);
-        setLoadingType('manual');
         setError(null);
         setResult(null);
+        progress.reset();
 
+        const signal = createSignal();
         try {
-            const ideas = await generateTopicIdeas(theme);
-            setResult(ideas);
+            const ideas = await generateTopicIdeas(theme, appState.styleGuide, { signal, onProgress: progress.onProgress });
+            if (!signal.aborted) setResult(ideas);
         } catch (err: any) {
-            setError(err.message || "An unknown error occurred.");
+            if (!signal.aborted) setError(err.message || "An unknown error occurred.");
         } finally {
-            setLoading(false);
+            if (!signal.aborted) setLoading(false);
         }
     };
     
     const handleAutoGenerate = async () => {
         setLoading(true);
-        setLoadingType('auto');
         setError(null);
         setResult(null);
+        progress.reset();
+        const signal = createSignal();
         try {
-            const ideas = await generateTopicIdeasForWebsite(appState.websiteUrl, appState.country, appState.language);
-            setResult(ideas);
+            const ideas = await generateTopicIdeasForWebsite(appState.websiteUrl, appState.country, appState.language, appState.styleGuide, { signal, onProgress: progress.onProgress });
+            if (!signal.aborted) setResult(ideas);
         } catch (err: any) {
-            setError(err.message || "An unknown error occurred.");
+            if (!signal.aborted) setError(err.message || "An unknown error occurred.");
         } finally {
-            setLoading(false);
+            if (!signal.aborted) setLoading(false);
         }
     };
 
@@ -116,7 +110,7 @@ const TopicIdeation: React.FC<Props> = ({ appState, onTopicSelect }) => {
             </div>
 
             <div className="flex-grow overflow-y-auto pr-2">
-                {loading && <ThinkingProcess messages={loadingType === 'manual' ? MANUAL_IDEATION_STEPS : AUTO_IDEATION_STEPS} />}
+                {loading && <ThinkingProcess updates={progress.updates} onCancel={handleCancel} />}
                 {error && <div className="text-red-400 bg-red-900/50 p-4 rounded-lg">{error}</div>}
                 
                 {result && (
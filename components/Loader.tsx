@@ -3,13 +3,19 @@ import React from 'react';
 
 interface LoaderProps {
   message?: string;
+  onCancel?: () => void;
 }
 
-const Loader: React.FC<LoaderProps> = ({ message = 'Processing...' }) => {
+const Loader: React.FC<LoaderProps> = ({ message = 'Processing...', onCancel }) => {
   return (
     <div className="flex flex-col items-center justify-center p-8 text-center bg-slate-800/50 rounded-lg">
       <div className="w-12 h-12 border-4 border-t-indigo-500 border-slate-600 rounded-full animate-spin"></div>
       <p className="mt-4 text-slate-300 font-medium">{message}</p>
+      {onCancel && (
+        <button onClick={onCancel} className="mt-4 px-3 py-1.5 text-sm text-slate-400 border border-slate-600 rounded-md hover:text-white hover:border-slate-400 transition-colors">
+          Cancel
+        </button>
+      )}
     </div>
   );
 };
@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { useResolvedMarkdown } from './AssetImage';
 
 interface Props {
     content: string;
@@ -16,6 +17,10 @@ function slugify(text: string): string {
         .replace(/\-\-+/g, '-');         // Replace multiple - with single -
 }
 
+// Escapes a value so it can't break out of a quoted HTML attribute
+const escapeAttribute = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/'/g, '&#039;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
 export class MarkdownProcessor {
     private content: string;
 
@@ -24,18 +29,28 @@ export class MarkdownProcessor {
     }
 
     private applyInlineFormatting(text: string): string {
+         // Image and link tags are swapped for placeholders until the emphasis rules have run,
+         // so underscores and asterisks in their URLs are left alone
+         const tags: string[] = [];
+         const hold = (tag: string) => `\u0000${tags.push(tag) - 1}\u0000`;
          // Order matters: Links, then Bold/Italic/Code
          let processed = text
-            // Remove Images handled elsewhere (strict check to avoid removing text in brackets if not image)
-            .replace(/!\[(.*?)\]\((.*?)\)/g, '')
-            // Links
-            .replace(/\[(.*?)\]\((.*?)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer" class="text-indigo-400 hover:underline">$1</a>')
+            // Images. Unresolved asset references are skipped until they have been loaded.
+            .replace(/!\[(.*?)\]\((.*?)\)/g, (_, alt: string, src: string) => {
+                if (src.startsWith('asset://')) return '';
+                const safeAlt = alt.replace(/["*_`<>]/g, '');
+                return hold(`<img src="${escapeAttribute(src)}" alt="${safeAlt}" class="rounded-lg shadow-lg max-w-full h-auto mx-auto my-8" />`);
+            })
+            // Links. The label is still formatted.
+            .replace(/\[(.*?)\]\((.*?)\)/g, (_, label: string, href: string) =>
+                `${hold(`<a href="${escapeAttribute(href)}" target="_blank" rel="noopener noreferrer" class="text-indigo-400 hover:underline">`)}${label}</a>`)
             // Bold: **text** or __text__
             .replace(/(\*\*|__)(.*?)\1/g, '<strong class="text-slate-100 font-bold">$2</strong>')
             // Italic: *text* or _text_
             .replace(/(\*|_)(.*?)\1/g, '<em>$2</em>')
             // Inline Code
-            .replace(/`([^`]+)`/g, '<code class="bg-slate-700/50 text-amber-300 rounded-sm px-1 py-0.5 text-sm font-mono">$1</code>');
+            .replace(/`([^`]+)`/g, '<code class="bg-slate-700/50 text-amber-300 rounded-sm px-1 py-0.5 text-sm font-mono">$1</code>')
+            .replace(/\u0000(\d+)\u0000/g, (_, index: string) => tags[Number(index)]);
          return processed;
     }
 
@@ -223,8 +238,9 @@ export class MarkdownProcessor {
     }
 }
 
-const MarkdownComponent: React.FC<Props> = (props) => {
-    return new MarkdownProcessor(props).render();
+const MarkdownComponent: React.FC<Props> = ({ content }) => {
+    const resolvedContent = useResolvedMarkdown(content);
+    return new MarkdownProcessor({ content: resolvedContent }).render();
 };
 
 export default MarkdownComponent;
@@ -0,0 +1,180 @@
+
+import React, { useState } from 'react';
+import { AppState, Market, MarketVariant } from '../types';
+import { findMarketVariant, formatMarketLabel, generateMarketVariant, getMarketKey, isSameMarket } from '../services/markets';
+import { downloadBlob } from '../utils/helpers';
+import Loader from './Loader';
+import MarkdownComponent from './MarkdownRenderer';
+import StyleCheckNotice from './StyleCheckNotice';
+import { useAbortSignals } from '../utils/abort';
+
+const IconGlobe = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9V3m0 18a9 9 0 009-9m-9 9a9 9 0 00-9-9" /></svg>;
+const IconRefresh = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>;
+const IconDownload = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>;
+
+interface Props {
+    appState: AppState;
+    onMarketVariantsChange: (updater: (prev: MarketVariant[]) => MarketVariant[]) => void;
+    onLocalizationComplete: () => void;
+}
+
+const MarketLocalizer: React.FC<Props> = ({ appState, onMarketVariantsChange, onLocalizationComplete }) => {
+    const [generatingKeys, setGeneratingKeys] = useState<string[]>([]);
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [previewKey, setPreviewKey] = useState<string | null>(null);
+    const { createSignal, cancel } = useAbortSignals();
+
+    const { markets, marketVariants } = appState;
+    const missingMarkets = markets.filter(m => !findMarketVariant(marketVariants, m));
+
+    const generateVariant = async (market: Market, signal = createSignal()) => {
+        const key = getMarketKey(market);
+        setGeneratingKeys(prev => [...prev, key]);
+        setErrors(prev => ({ ...prev, [key]: '' }));
+        try {
+            const variant = await generateMarketVariant(market, appState, { signal });
+            if (signal.aborted) return;
+            onMarketVariantsChange(prev => [...prev.filter(v => !isSameMarket(v, market)), variant]);
+            setPreviewKey(key);
+        } catch (err: any) {
+            if (!signal.aborted) setErrors(prev => ({ ...prev, [key]: err.message || 'Failed to localize the article.' }));
+        } finally {
+            if (!signal.aborted) setGeneratingKeys(prev => prev.filter(k => k !== key));
+        }
+    };
+
+    // One market at a time, so a long run doesn't hit the rate limit. Cancelling stops the whole run.
+    const generateMissing = async () => {
+        const signal = createSignal();
+        for (const market of missingMarkets) {
+            if (signal.aborted) break;
+            await generateVariant(market, signal);
+        }
+    };
+
+    const handleCancel = () => {
+        cancel();
+        setGeneratingKeys([]);
+    };
+
+    const downloadVariant = (variant: MarketVariant) => {
+        const filename = `${variant.title || appState.topic}-${variant.language}-${variant.country}.md`.replace(/\s+/g, '-');
+        downloadBlob(new Blob([variant.draft], { type: 'text/markdown' }), filename);
+    };
+
+    const previewVariant = marketVariants.find(v => getMarketKey(v) === previewKey);
+
+    return (
+        <div className="h-full flex flex-col animate-fade-in">
+            <header className="mb-8 flex justify-between items-center">
+                <div>
+                    <h2 className="text-3xl font-bold text-slate-100">Market Localization</h2>
+                    <p className="text-slate-400 mt-2">Localize the draft for each market, with keyword research in the market's own language.</p>
+                </div>
+                {missingMarkets.length > 0 && (
+                    <button
+                        onClick={generateMissing}
+                        disabled={generatingKeys.length > 0}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-md font-semibold hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+                    >
+                        Localize {missingMarkets.length === 1 ? '1 Market' : `${missingMarkets.length} Markets`}
+                    </button>
+                )}
+            </header>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 flex-grow overflow-hidden">
+                <aside className="space-y-3 overflow-y-auto">
+                    <div className="bg-slate-800/50 rounded-lg p-4 border border-slate-700">
+                        <p className="text-xs uppercase tracking-wider text-slate-500">Primary market</p>
+                        <p className="text-slate-200 font-semibold mt-1">{formatMarketLabel(appState)}</p>
+                        <p className="text-xs text-slate-500 mt-1">Covered by the main draft.</p>
+                    </div>
+                    {markets.length === 0 && (
+                        <p className="text-sm text-slate-500 p-4">No additional markets. Add them in Setup to create localized variants.</p>
+                    )}
+                    {markets.map(market => {
+                        const key = getMarketKey(market);
+                        const variant = findMarketVariant(marketVariants, market);
+                        const isGenerating = generatingKeys.includes(key);
+                        return (
+                            <div key={key} className={`bg-slate-800/50 rounded-lg p-4 border ${previewKey === key ? 'border-indigo-500' : 'border-slate-700'}`}>
+                                <div className="flex items-center justify-between gap-2">
+                                    <div className="flex items-center gap-2 text-slate-200 font-semibold">
+                                        <IconGlobe /> {formatMarketLabel(market)}
+                                    </div>
+                                    {variant && !isGenerating && (
+                                        <div className="flex items-center gap-1">
+                                            <button onClick={() => downloadVariant(variant)} className="p-1.5 text-slate-400 hover:text-white" title="Download Markdown"><IconDownload /></button>
+                                            <button onClick={() => generateVariant(market)} disabled={generatingKeys.length > 0} className="p-1.5 text-slate-400 hover:text-white disabled:opacity-50" title="Regenerate"><IconRefresh /></button>
+                                        </div>
+                                    )}
+                                </div>
+                                {isGenerating ? (
+                                    <p className="text-sm text-indigo-300 mt-2 animate-pulse">Researching keywords and localizing...</p>
+                                ) : variant ? (
+                                    <button onClick={() => setPreviewKey(key)} className="text-left w-full mt-2">
+                                        <p className="text-sm text-slate-300 line-clamp-2">{variant.title || 'Untitled'}</p>
+                                        {variant.keywords.length > 0 && (
+                                            <div className="flex flex-wrap gap-1 mt-2">
+                                                {variant.keywords.slice(0, 5).map(kw => (
+                                                    <span key={kw} className="text-xs bg-slate-700 text-slate-300 px-2 py-0.5 rounded">{kw}</span>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </button>
+                                ) : (
+                                    <button
+                                        onClick={() => generateVariant(market)}
+                                        disabled={generatingKeys.length > 0}
+                                        className="mt-2 text-sm font-medium text-indigo-400 hover:text-indigo-300 disabled:text-slate-500"
+                                    >
+                                        Localize for this market
+                                    </button>
+                                )}
+                                {errors[key] && <p className="text-xs text-red-400 mt-2">{errors[key]}</p>}
+                            </div>
+                        );
+                    })}
+                </aside>
+
+                <main className="lg:col-span-2 bg-slate-800/50 rounded-lg p-4 overflow-y-auto">
+                    {previewKey && generatingKeys.includes(previewKey) ? (
+                        <Loader message="Localizing the article..." onCancel={handleCancel} />
+                    ) : previewVariant ? (
+                        <>
+                            <div className="flex items-center justify-between mb-4 border-b border-slate-700 pb-2">
+                                <h3 className="text-xl font-semibold text-indigo-400">{formatMarketLabel(previewVariant)}</h3>
+                                <span className="text-xs text-slate-500">{new Date(previewVariant.updatedAt).toLocaleString()}</span>
+                            </div>
+                            <div className="mb-4">
+                                <StyleCheckNotice text={previewVariant.draft} styleGuide={appState.styleGuide} />
+                            </div>
+                            <div className="prose prose-invert max-w-none">
+                                {previewVariant.draft.split(/\n{2,}/).map((block, index) => (
+                                    <MarkdownComponent key={index} content={block} />
+                                ))}
+                            </div>
+                        </>
+                    ) : (
+                        <div className="h-full flex items-center justify-center text-slate-500 text-sm">
+                            Select a localized variant to preview it.
+                        </div>
+                    )}
+                </main>
+            </div>
+
+            <footer className="flex-shrink-0 pt-6 flex justify-end">
+                <button
+                    onClick={onLocalizationComplete}
+                    disabled={generatingKeys.length > 0 || missingMarkets.length > 0}
+                    title={missingMarkets.length > 0 ? 'Localize every market first' : undefined}
+                    className="px-6 py-3 bg-indigo-600 text-white rounded-md font-semibold hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+                >
+                    Continue to Publish
+                </button>
+            </footer>
+        </div>
+    );
+};
+
+export default MarketLocalizer;
@@ -0,0 +1,148 @@
+
+import React, { useState } from 'react';
+import { getProvider } from '../services/providers';
+import { MODEL_TASKS, MODEL_TASK_IDS, ModelTask, TaskRoute, loadModelRoutes, resetModelRoutes, saveModelRoutes } from '../services/modelRouting';
+
+// Form values as typed. Empty fields fall back to the provider's defaults.
+interface RouteDraft {
+    model: string;
+    fallbacks: string;
+    temperature: string;
+    thinkingBudget: string;
+}
+
+const toDraft = (route?: TaskRoute): RouteDraft => ({
+    model: route?.model ?? '',
+    fallbacks: route?.fallbacks.join(', ') ?? '',
+    temperature: route?.temperature?.toString() ?? '',
+    thinkingBudget: route?.thinkingBudget?.toString() ?? '',
+});
+
+const loadDrafts = (providerId: string) => {
+    const routes = loadModelRoutes(providerId);
+    return Object.fromEntries(MODEL_TASK_IDS.map(task => [task, toDraft(routes[task])])) as Record<ModelTask, RouteDraft>;
+};
+
+const parseNumber = (value: string) => value.trim() === '' ? null : Number(value);
+
+function validateDraft(draft: RouteDraft): string | null {
+    const temperature = parseNumber(draft.temperature);
+    if (temperature !== null && (!Number.isFinite(temperature) || temperature < 0 || temperature > 2)) return 'Temperature must be between 0 and 2.';
+    const thinkingBudget = parseNumber(draft.thinkingBudget);
+    if (thinkingBudget !== null && (!Number.isInteger(thinkingBudget) || thinkingBudget < -1)) return 'Thinking budget must be a whole number of tokens, or -1.';
+    return null;
+}
+
+const toRoute = (draft: RouteDraft): TaskRoute | null => {
+    const route: TaskRoute = {
+        model: draft.model.trim(),
+        fallbacks: draft.fallbacks.split(',').map(model => model.trim()).filter(Boolean),
+        temperature: parseNumber(draft.temperature),
+        thinkingBudget: parseNumber(draft.thinkingBudget),
+    };
+    const isDefault = !route.model && route.fallbacks.length === 0 && route.temperature === null && route.thinkingBudget === null;
+    return isDefault ? null : route;
+};
+
+const cellInputClassName = "w-full px-2 py-1 bg-slate-800 border border-slate-700 rounded text-xs font-mono focus:ring-2 focus:ring-indigo-500 outline-none disabled:opacity-40";
+
+const ModelRoutingSettings: React.FC = () => {
+    // Model names differ between providers, so the table edits the routes of the saved provider
+    const provider = getProvider();
+    const [drafts, setDrafts] = useState(() => loadDrafts(provider.id));
+    const [savedDrafts, setSavedDrafts] = useState(drafts);
+
+    const errors = MODEL_TASK_IDS.map(task => validateDraft(drafts[task])).filter(Boolean);
+    const isDirty = JSON.stringify(drafts) !== JSON.stringify(savedDrafts);
+
+    const updateDraft = (task: ModelTask, changes: Partial<RouteDraft>) =>
+        setDrafts(prev => ({ ...prev, [task]: { ...prev[task], ...changes } }));
+
+    const handleSave = () => {
+        const routes: Partial<Record<ModelTask, TaskRoute>> = {};
+        for (const task of MODEL_TASK_IDS) {
+            const route = toRoute(drafts[task]);
+            if (route) routes[task] = route;
+        }
+        saveModelRoutes(provider.id, routes);
+        const saved = loadDrafts(provider.id);
+        setDrafts(saved);
+        setSavedDrafts(saved);
+    };
+
+    const handleReset = () => {
+        if (!window.confirm(`Reset every task to the default models of ${provider.label}?`)) return;
+        resetModelRoutes(provider.id);
+        const saved = loadDrafts(provider.id);
+        setDrafts(saved);
+        setSavedDrafts(saved);
+    };
+
+    return (
+        <div className="space-y-3">
+            <p className="text-xs text-slate-400">
+                Which models each task runs on with <span className="text-slate-200">{provider.label}</span>. When a model is out of quota the task moves on to its fallbacks in order. Empty fields use the provider's defaults.
+            </p>
+            <div className="max-h-[28rem] overflow-y-auto">
+                <table className="w-full text-xs text-left">
+                    <thead className="text-slate-500 sticky top-0 bg-slate-900">
+                        <tr>
+                            <th className="py-2 pr-3">Task</th>
+                            <th className="py-2 pr-2">Model</th>
+                            <th className="py-2 pr-2">Fallbacks</th>
+                            <th className="py-2 pr-2 w-20">Temperature</th>
+                            <th className="py-2 w-24" title="Tokens the model may spend thinking. -1 lets the model decide, 0 turns thinking off. Ignored by OpenAI-compatible servers.">Thinking</th>
+                        </tr>
+                    </thead>
+                    <tbody className="text-slate-300">
+                        {MODEL_TASK_IDS.map(task => {
+                            const info = MODEL_TASKS[task];
+                            const draft = drafts[task];
+                            const isText = info.kind === 'text';
+                            const defaultFallbacks = info.fallbackTiers.map(tier => provider.models[tier]).filter(model => model && model !== provider.models[info.tier]);
+                            const error = validateDraft(draft);
+                            return (
+                                <tr key={task} className="border-t border-slate-800 align-top">
+                                    <td className="py-2 pr-3">
+                                        <span className="block font-medium text-slate-200">{info.label}</span>
+                                        <span className="block text-[11px] text-slate-500">{info.description}</span>
+                                        {error && <span className="block text-[11px] text-red-400">{error}</span>}
+                                    </td>
+                                    <td className="py-2 pr-2">
+                                        <input type="text" value={draft.model} onChange={e => updateDraft(task, { model: e.target.value })} placeholder={provider.models[info.tier] || 'none'} className={cellInputClassName} />
+                                    </td>
+                                    <td className="py-2 pr-2">
+                                        <input type="text" value={draft.fallbacks} onChange={e => updateDraft(task, { fallbacks: e.target.value })} placeholder={defaultFallbacks.join(', ') || 'none'} className={cellInputClassName} />
+                                    </td>
+                                    <td className="py-2 pr-2">
+                                        <input type="number" min="0" max="2" step="0.1" value={draft.temperature} onChange={e => updateDraft(task, { temperature: e.target.value })} disabled={!isText} placeholder="default" className={cellInputClassName} />
+                                    </td>
+                                    <td className="py-2">
+                                        <input type="number" min="-1" step="1024" value={draft.thinkingBudget} onChange={e => updateDraft(task, { thinkingBudget: e.target.value })} disabled={!isText} placeholder="default" className={cellInputClassName} />
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            <div className="flex justify-end gap-2">
+                <button
+                    onClick={handleReset}
+                    className="px-3 py-1.5 text-sm bg-slate-700 text-white rounded-md font-medium hover:bg-slate-600"
+                >
+                    Reset to Defaults
+                </button>
+                <button
+                    onClick={handleSave}
+                    disabled={!isDirty || errors.length > 0}
+                    className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-md font-medium hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed"
+                >
+                    Save Routes
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ModelRoutingSettings;
@@ -0,0 +1,226 @@
+
+import React, { useRef, useState } from 'react';
+import { ProjectSummary, ProjectType } from '../types';
+import { DEFAULT_PROJECT_TYPE, PIPELINES, PipelineDefinition, getPipelineSteps, isProjectType } from '../workflow';
+import { listProjects, createProject, duplicateProject, setProjectArchived, deleteProject } from '../services/projects';
+import { exportProjectBundle, importProjectBundle, BUNDLE_FILE_EXTENSION } from '../services/projectBundle';
+import { formatCost, loadProjectUsage } from '../services/usage';
+import { downloadBlob } from '../utils/helpers';
+
+// Icons
+const IconPlus = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" /></svg>;
+const IconDuplicate = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>;
+const IconArchive = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" /></svg>;
+const IconDownload = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>;
+const IconUpload = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>;
+const IconTrash = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1.5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" /></svg>;
+
+interface Props {
+    activeProjectId: string | null;
+    onOpenProject: (id: string) => void;
+    onProjectDeleted: (id: string) => void;
+}
+
+const ProjectDashboard: React.FC<Props> = ({ activeProjectId, onOpenProject, onProjectDeleted }) => {
+    const [projects, setProjects] = useState<ProjectSummary[]>(listProjects);
+    const [showArchived, setShowArchived] = useState(false);
+    const [newProjectName, setNewProjectName] = useState('');
+    const [newProjectType, setNewProjectType] = useState(DEFAULT_PROJECT_TYPE);
+    const [error, setError] = useState<string | null>(null);
+    const [busyProjectId, setBusyProjectId] = useState<string | null>(null);
+    const [busyAction, setBusyAction] = useState<'export' | 'duplicate' | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const refresh = () => setProjects(listProjects());
+
+    const handleCreate = (e: React.FormEvent) => {
+        e.preventDefault();
+        const project = createProject(newProjectName, newProjectType);
+        setNewProjectName('');
+        onOpenProject(project.id);
+    };
+
+    const handleDuplicate = async (id: string) => {
+        setBusyProjectId(id);
+        setBusyAction('duplicate');
+        setError(null);
+        try {
+            await duplicateProject(id);
+            refresh();
+        } catch (err: any) {
+            setError(err.message || "Failed to duplicate project.");
+        } finally {
+            setBusyProjectId(null);
+            setBusyAction(null);
+        }
+    };
+
+    // The open project can't be archived: App would overwrite the flag with its own copy on the next save
+    const handleArchive = (id: string, archived: boolean) => {
+        if (id === activeProjectId) return;
+        setProjectArchived(id, archived);
+        refresh();
+    };
+
+    const handleExport = async (id: string) => {
+        setBusyProjectId(id);
+        setBusyAction('export');
+        setError(null);
+        try {
+            const { blob, filename } = await exportProjectBundle(id);
+            downloadBlob(blob, filename);
+        } catch (err: any) {
+            setError(err.message || "Failed to export project.");
+        } finally {
+            setBusyProjectId(null);
+            setBusyAction(null);
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsImporting(true);
+        setError(null);
+        try {
+            const project = await importProjectBundle(file);
+            onOpenProject(project.id);
+        } catch (err: any) {
+            setError(err.message || "Failed to import project.");
+            refresh();
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleDelete = (project: ProjectSummary) => {
+        if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+            deleteProject(project.id);
+            onProjectDeleted(project.id);
+            refresh();
+        }
+    };
+
+    const visibleProjects = projects.filter(p => p.archived === showArchived);
+    const archivedCount = projects.filter(p => p.archived).length;
+
+    return (
+        <div className="h-full flex flex-col animate-fade-in">
+            <header className="mb-8">
+                <h2 className="text-3xl font-bold text-slate-100">Projects</h2>
+                <p className="text-slate-400 mt-2">Every project keeps its own setup, research, draft and assets. Switch between them at any time.</p>
+            </header>
+
+            <form onSubmit={handleCreate} className="flex-shrink-0 mb-8">
+                <div className="relative">
+                    <input
+                        type="text"
+                        value={newProjectName}
+                        onChange={(e) => setNewProjectName(e.target.value)}
+                        placeholder="New project name, e.g. 'Spring gardening guide'"
+                        className="w-full pl-4 pr-44 py-4 bg-slate-800 border-2 border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                    />
+                    <button
+                        type="submit"
+                        className="absolute right-2.5 top-1/2 -translate-y-1/2 flex items-center px-5 py-2 bg-indigo-600 text-white rounded-md font-semibold hover:bg-indigo-700 transition-colors"
+                    >
+                        <IconPlus /> Create
+                    </button>
+                </div>
+                <div className="flex flex-wrap gap-2 mt-3">
+                    {(Object.entries(PIPELINES) as [ProjectType, PipelineDefinition][]).map(([type, pipeline]) => (
+                        <button
+                            key={type}
+                            type="button"
+                            onClick={() => setNewProjectType(type)}
+                            title={pipeline.description}
+                            className={`px-4 py-1.5 text-sm font-semibold rounded-full border transition-colors ${newProjectType === type ? 'bg-indigo-500/10 text-indigo-300 border-indigo-500/50' : 'text-slate-400 border-slate-700 hover:bg-white/5'}`}
+                        >
+                            {pipeline.label} <span className="font-normal text-slate-500">· {pipeline.steps.length} steps</span>
+                        </button>
+                    ))}
+                </div>
+            </form>
+
+            {error && <div className="text-red-400 bg-red-900/50 p-4 rounded-lg mb-4">{error}</div>}
+
+            <div className="flex items-center gap-2 mb-4">
+                <button
+                    onClick={() => setShowArchived(false)}
+                    className={`px-4 py-1.5 text-sm font-semibold rounded-full transition-colors ${!showArchived ? 'bg-indigo-500/10 text-indigo-300' : 'text-slate-400 hover:bg-white/5'}`}
+                >
+                    Active
+                </button>
+                <button
+                    onClick={() => setShowArchived(true)}
+                    className={`px-4 py-1.5 text-sm font-semibold rounded-full transition-colors ${showArchived ? 'bg-indigo-500/10 text-indigo-300' : 'text-slate-400 hover:bg-white/5'}`}
+                >
+                    Archived ({archivedCount})
+                </button>
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isImporting}
+                    className="ml-auto flex items-center px-4 py-1.5 text-sm font-semibold bg-slate-700 text-white rounded-md hover:bg-slate-600 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors"
+                >
+                    <IconUpload /> {isImporting ? 'Importing...' : 'Import Bundle'}
+                </button>
+                <input ref={fileInputRef} type="file" accept={`${BUNDLE_FILE_EXTENSION},.zip,application/zip`} onChange={handleImport} className="hidden" />
+            </div>
+
+            <div className="flex-grow overflow-y-auto pr-2 space-y-4">
+                {visibleProjects.length === 0 && (
+                    <div className="w-full p-8 text-center bg-slate-900/50 rounded-md border-2 border-dashed border-slate-700">
+                        <p className="text-slate-500">{showArchived ? 'No archived projects.' : 'No projects yet. Create one above to get started.'}</p>
+                    </div>
+                )}
+
+                {visibleProjects.map(project => {
+                    const isActive = project.id === activeProjectId;
+                    const progress = Math.max(0, project.highestCompletedStepIndex + 1);
+                    const stepCount = getPipelineSteps(project.type).length;
+                    const pipelineLabel = PIPELINES[isProjectType(project.type) ? project.type : DEFAULT_PROJECT_TYPE].label;
+                    const usage = loadProjectUsage(project.id).totals;
+                    return (
+                        <div key={project.id} className={`bg-slate-800/50 rounded-lg p-4 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 border transition-colors ${isActive ? 'border-indigo-500/50' : 'border-slate-700/50 hover:border-indigo-500/50'}`}>
+                            <div className="flex-grow min-w-0">
+                                <h4 className="font-semibold text-indigo-400 truncate">{project.name}</h4>
+                                <p className="text-slate-400 text-sm mt-1 truncate">
+                                    {project.topic || 'No topic selected yet'}{project.websiteUrl && <span className="text-slate-500"> · {project.websiteUrl}</span>}
+                                </p>
+                                <p className="text-xs text-slate-500 mt-1">
+                                    {pipelineLabel} · {project.activeStep} · {progress}/{stepCount} steps{usage.calls > 0 && ` · Est. cost ${formatCost(usage.costUsd)}`} · Updated {new Date(project.updatedAt).toLocaleString()}
+                                </p>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-2 flex-shrink-0">
+                                <button onClick={() => handleExport(project.id)} disabled={busyProjectId === project.id} className="flex items-center px-3 py-2 text-xs font-semibold bg-slate-800 text-slate-200 rounded-md hover:bg-slate-700 disabled:opacity-50 transition-colors border border-slate-700/50">
+                                    <IconDownload /> {busyProjectId === project.id && busyAction === 'export' ? 'Exporting...' : 'Export'}
+                                </button>
+                                <button onClick={() => handleDuplicate(project.id)} disabled={busyProjectId === project.id} className="flex items-center px-3 py-2 text-xs font-semibold bg-slate-800 text-slate-200 rounded-md hover:bg-slate-700 disabled:opacity-50 transition-colors border border-slate-700/50">
+                                    <IconDuplicate /> {busyProjectId === project.id && busyAction === 'duplicate' ? 'Duplicating...' : 'Duplicate'}
+                                </button>
+                                <button
+                                    onClick={() => handleArchive(project.id, !project.archived)}
+                                    disabled={isActive}
+                                    title={isActive ? 'Open another project to archive this one' : undefined}
+                                    className="flex items-center px-3 py-2 text-xs font-semibold bg-slate-800 text-slate-200 rounded-md hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors border border-slate-700/50"
+                                >
+                                    <IconArchive /> {project.archived ? 'Unarchive' : 'Archive'}
+                                </button>
+                                <button onClick={() => handleDelete(project)} className="flex items-center px-3 py-2 text-xs font-semibold text-red-400 bg-slate-800 rounded-md hover:bg-red-900/30 transition-colors border border-slate-700/50">
+                                    <IconTrash /> Delete
+                                </button>
+                                <button onClick={() => onOpenProject(project.id)} className="px-4 py-2 bg-indigo-600 text-white rounded-md font-semibold hover:bg-indigo-700 transition-colors">
+                                    {isActive ? 'Continue' : 'Open'}
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default ProjectDashboard;
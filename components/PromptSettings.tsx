@@ -0,0 +1,117 @@
+
+import React, { useState } from 'react';
+import { PROMPT_TEMPLATES } from '../services/promptTemplates';
+import { PROMPT_IDS, PromptId, formatPromptVersion, isOverrideOutdated, loadPromptOverrides, resetPromptOverride, savePromptOverride, validatePromptTemplate } from '../services/prompts';
+
+const PromptSettings: React.FC = () => {
+    const [overrides, setOverrides] = useState(loadPromptOverrides);
+    const [selectedId, setSelectedId] = useState<PromptId>(PROMPT_IDS[0]);
+    const [draft, setDraft] = useState(() => overrides[PROMPT_IDS[0]]?.template ?? PROMPT_TEMPLATES[PROMPT_IDS[0]].template);
+
+    const builtIn = PROMPT_TEMPLATES[selectedId];
+    const override = overrides[selectedId];
+    const savedTemplate = override?.template ?? builtIn.template;
+    const isDirty = draft !== savedTemplate;
+    const { unknown, unused } = validatePromptTemplate(selectedId, draft);
+
+    const selectPrompt = (id: PromptId) => {
+        if (isDirty && !window.confirm('Discard unsaved changes to this prompt?')) return;
+        setSelectedId(id);
+        setDraft(overrides[id]?.template ?? PROMPT_TEMPLATES[id].template);
+    };
+
+    const handleSave = () => {
+        if (draft === builtIn.template) {
+            handleReset();
+            return;
+        }
+        savePromptOverride(selectedId, draft);
+        setOverrides(loadPromptOverrides());
+    };
+
+    const handleReset = () => {
+        resetPromptOverride(selectedId);
+        setOverrides(loadPromptOverrides());
+        setDraft(builtIn.template);
+    };
+
+    return (
+        <div className="grid grid-cols-3 gap-4 min-h-[28rem]">
+            <ul className="space-y-1 overflow-y-auto max-h-[32rem] pr-1">
+                {PROMPT_IDS.map(id => {
+                    const promptOverride = overrides[id];
+                    return (
+                        <li key={id}>
+                            <button
+                                onClick={() => selectPrompt(id)}
+                                className={`w-full text-left px-3 py-2 rounded-md text-sm transition-colors ${selectedId === id ? 'bg-indigo-500/10 text-indigo-300' : 'text-slate-300 hover:bg-white/5'}`}
+                            >
+                                <span className="block font-medium truncate">{PROMPT_TEMPLATES[id].label}</span>
+                                <span className={`block text-[11px] ${promptOverride ? (isOverrideOutdated(id, promptOverride) ? 'text-amber-400' : 'text-indigo-400') : 'text-slate-500'}`}>
+                                    {promptOverride
+                                        ? `${formatPromptVersion({ version: PROMPT_TEMPLATES[id].version, overrideRevision: promptOverride.revision })}${isOverrideOutdated(id, promptOverride) ? ' · outdated' : ''}`
+                                        : `v${PROMPT_TEMPLATES[id].version} built-in`}
+                                </span>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+
+            <div className="col-span-2 flex flex-col gap-3">
+                <div>
+                    <h4 className="text-sm font-semibold text-slate-200">{builtIn.label}</h4>
+                    <p className="text-xs text-slate-400 mt-0.5">{builtIn.description}</p>
+                </div>
+                {override && isOverrideOutdated(selectedId, override) && (
+                    <p className="text-xs text-amber-400 bg-amber-900/20 border border-amber-800/50 rounded-md p-2">
+                        This override was written for v{override.basedOnVersion}. The built-in prompt is now v{builtIn.version}; compare with the default before keeping it.
+                    </p>
+                )}
+                <div className="flex flex-wrap gap-1">
+                    {builtIn.variables.map(name => (
+                        <button
+                            key={name}
+                            type="button"
+                            onClick={() => setDraft(prev => `${prev}{{${name}}}`)}
+                            title="Append to the template"
+                            className={`text-[11px] font-mono px-2 py-0.5 rounded ${unused.includes(name) ? 'bg-amber-900/30 text-amber-300' : 'bg-slate-700 text-slate-300'}`}
+                        >
+                            {`{{${name}}}`}
+                        </button>
+                    ))}
+                </div>
+                <textarea
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    spellCheck={false}
+                    className="flex-grow min-h-[18rem] w-full p-3 bg-slate-950 border border-slate-700 rounded-md font-mono text-xs text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none resize-none"
+                />
+                {(unknown.length > 0 || unused.length > 0) && (
+                    <div className="text-xs space-y-0.5">
+                        {unknown.length > 0 && <p className="text-red-400">Unknown variables, left as written: {unknown.map(n => `{{${n}}}`).join(', ')}</p>}
+                        {unused.length > 0 && <p className="text-amber-400">Not used: {unused.map(n => `{{${n}}}`).join(', ')}</p>}
+                    </div>
+                )}
+                <div className="flex justify-end gap-2">
+                    <button
+                        onClick={handleReset}
+                        disabled={!override && !isDirty}
+                        className="px-3 py-1.5 text-sm bg-slate-700 text-white rounded-md font-medium hover:bg-slate-600 disabled:opacity-50"
+                    >
+                        Reset to Default
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!isDirty}
+                        className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-md font-medium hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed"
+                    >
+                        Save Override
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PromptSettings;
@@ -0,0 +1,234 @@
+
+import React, { useState } from 'react';
+import { createProvider, loadProviderSettings, saveProviderSettings, ProviderId, ProviderSettings } from '../services/providers';
+import { clearGenerationLog, loadGenerationLog } from '../services/generationLog';
+import { formatPromptVersion } from '../services/prompts';
+import { PROMPT_TEMPLATES } from '../services/promptTemplates';
+import PromptSettings from './PromptSettings';
+import CacheSettings from './CacheSettings';
+import ModelRoutingSettings from './ModelRoutingSettings';
+import FixtureSettings from './FixtureSettings';
+import WebhookSettings from './WebhookSettings';
+import { MOCK_MODE } from '../services/fixtures';
+
+const IconX = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>;
+
+interface Props {
+    onClose: () => void;
+}
+
+type SettingsTab = 'provider' | 'models' | 'webhook' | 'prompts' | 'log' | 'cache' | 'fixtures';
+
+const TABS: { id: SettingsTab; label: string }[] = [
+    { id: 'provider', label: 'AI Provider' },
+    { id: 'models', label: 'Model Routing' },
+    { id: 'webhook', label: 'Webhook' },
+    { id: 'prompts', label: 'Prompt Templates' },
+    { id: 'log', label: 'Generation Log' },
+    { id: 'cache', label: 'Cache' },
+    // Only useful while replaying or recording
+    ...(MOCK_MODE !== 'off' ? [{ id: 'fixtures' as const, label: 'Fixtures' }] : []),
+];
+
+const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+    { id: 'gemini', label: 'Google Gemini', description: 'Search grounding, images and speech included.' },
+    { id: 'openai-compatible', label: 'OpenAI-compatible', description: 'OpenAI, or a local server such as Ollama, LM Studio or vLLM. No web search.' },
+];
+
+const inputClassName = "w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+
+const Field: React.FC<{ label: string; hint?: string; children: React.ReactNode }> = ({ label, hint, children }) => (
+    <label className="block">
+        <span className="block text-xs font-medium text-slate-300 mb-1">{label}</span>
+        {children}
+        {hint && <span className="block text-[11px] text-slate-500 mt-1">{hint}</span>}
+    </label>
+);
+
+const SettingsModal: React.FC<Props> = ({ onClose }) => {
+    const [activeTab, setActiveTab] = useState<SettingsTab>('provider');
+    const [generationLog, setGenerationLog] = useState(loadGenerationLog);
+    const [settings, setSettings] = useState<ProviderSettings>(loadProviderSettings);
+    const [testStatus, setTestStatus] = useState<{ state: 'idle' | 'testing' | 'ok' | 'error'; message?: string }>({ state: 'idle' });
+
+    const updateOpenAI = (changes: Partial<ProviderSettings['openaiCompatible']>) => {
+        setSettings(prev => ({ ...prev, openaiCompatible: { ...prev.openaiCompatible, ...changes } }));
+        setTestStatus({ state: 'idle' });
+    };
+
+    const handleTest = async () => {
+        setTestStatus({ state: 'testing' });
+        try {
+            const provider = createProvider(settings);
+            const { text } = await provider.generateText({ model: provider.models.fast, prompt: 'Reply with the single word OK.' });
+            setTestStatus({ state: 'ok', message: `Connected. ${provider.models.fast} replied: "${text.trim().slice(0, 40)}"` });
+        } catch (err: any) {
+            setTestStatus({ state: 'error', message: err.message || 'Connection failed.' });
+        }
+    };
+
+    const handleSave = () => {
+        saveProviderSettings(settings);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className={`bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-h-full overflow-y-auto ${activeTab === 'provider' ? 'max-w-lg' : 'max-w-4xl'}`} onClick={e => e.stopPropagation()}>
+                <header className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+                    <h2 className="text-lg font-semibold text-slate-100">Settings</h2>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white"><IconX /></button>
+                </header>
+
+                <nav className="flex gap-1 px-6 pt-4">
+                    {TABS.map(tab => (
+                        <button
+                            key={tab.id}
+                            onClick={() => setActiveTab(tab.id)}
+                            className={`px-3 py-1.5 text-sm rounded-md font-medium transition-colors ${activeTab === tab.id ? 'bg-indigo-500/10 text-indigo-300' : 'text-slate-400 hover:text-white'}`}
+                        >
+                            {tab.label}
+                        </button>
+                    ))}
+                </nav>
+
+                {activeTab === 'provider' && (<>
+                    <section className="px-6 py-5 space-y-4">
+                        <div className="grid grid-cols-2 gap-2">
+                            {PROVIDER_OPTIONS.map(option => (
+                                <button
+                                    key={option.id}
+                                    onClick={() => { setSettings(prev => ({ ...prev, provider: option.id })); setTestStatus({ state: 'idle' }); }}
+                                    className={`text-left p-3 rounded-lg border transition-colors ${settings.provider === option.id ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-700 hover:border-slate-500'}`}
+                                >
+                                    <span className="block text-sm font-semibold text-slate-200">{option.label}</span>
+                                    <span className="block text-[11px] text-slate-400 mt-1">{option.description}</span>
+                                </button>
+                            ))}
+                        </div>
+
+                        {settings.provider === 'gemini' ? (
+                            <Field label="API Key" hint="Leave empty to use the key the app was deployed with.">
+                                <input
+                                    type="password"
+                                    value={settings.gemini.apiKey}
+                                    onChange={e => { setSettings(prev => ({ ...prev, gemini: { apiKey: e.target.value } })); setTestStatus({ state: 'idle' }); }}
+                                    className={inputClassName}
+                                />
+                            </Field>
+                        ) : (
+                            <div className="space-y-3">
+                                <Field label="Base URL" hint="The server's /v1 endpoint.">
+                                    <input type="text" value={settings.openaiCompatible.baseUrl} onChange={e => updateOpenAI({ baseUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClassName} />
+                                </Field>
+                                <Field label="API Key" hint="Optional for most local servers.">
+                                    <input type="password" value={settings.openaiCompatible.apiKey} onChange={e => updateOpenAI({ apiKey: e.target.value })} className={inputClassName} />
+                                </Field>
+                                <div className="grid grid-cols-2 gap-3">
+                                    <Field label="Primary Model">
+                                        <input type="text" value={settings.openaiCompatible.primaryModel} onChange={e => updateOpenAI({ primaryModel: e.target.value })} className={inputClassName} />
+                                    </Field>
+                                    <Field label="Fast Model" hint="Defaults to the primary model.">
+                                        <input type="text" value={settings.openaiCompatible.fastModel} onChange={e => updateOpenAI({ fastModel: e.target.value })} className={inputClassName} />
+                                    </Field>
+                                    <Field label="Image Model" hint="Empty disables images.">
+                                        <input type="text" value={settings.openaiCompatible.imageModel} onChange={e => updateOpenAI({ imageModel: e.target.value })} placeholder="gpt-image-1" className={inputClassName} />
+                                    </Field>
+                                    <Field label="Speech Model" hint="Empty disables audio.">
+                                        <input type="text" value={settings.openaiCompatible.speechModel} onChange={e => updateOpenAI({ speechModel: e.target.value })} placeholder="gpt-4o-mini-tts" className={inputClassName} />
+                                    </Field>
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="flex items-center gap-3">
+                            <button
+                                onClick={handleTest}
+                                disabled={testStatus.state === 'testing'}
+                                className="px-3 py-1.5 text-sm bg-slate-700 text-white rounded-md font-medium hover:bg-slate-600 disabled:opacity-50"
+                            >
+                                {testStatus.state === 'testing' ? 'Testing...' : 'Test Connection'}
+                            </button>
+                            {testStatus.message && (
+                                <span className={`text-xs ${testStatus.state === 'ok' ? 'text-emerald-400' : 'text-red-400'}`}>{testStatus.message}</span>
+                            )}
+                        </div>
+                    </section>
+
+                    <footer className="flex justify-end gap-2 px-6 py-4 border-t border-slate-800">
+                        <button onClick={onClose} className="px-4 py-2 text-sm bg-slate-700 text-white rounded-md font-semibold hover:bg-slate-600">Cancel</button>
+                        <button onClick={handleSave} className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-md font-semibold hover:bg-indigo-700">Save</button>
+                    </footer>
+                </>)}
+
+                {activeTab === 'models' && (
+                    <section className="px-6 py-5">
+                        <ModelRoutingSettings />
+                    </section>
+                )}
+
+                {activeTab === 'webhook' && (
+                    <section className="px-6 py-5">
+                        <WebhookSettings />
+                    </section>
+                )}
+
+                {activeTab === 'prompts' && (
+                    <section className="px-6 py-5">
+                        <PromptSettings />
+                    </section>
+                )}
+
+                {activeTab === 'log' && (
+                    <section className="px-6 py-5 space-y-3">
+                        <div className="flex items-center justify-between">
+                            <p className="text-xs text-slate-400">The prompt template version and model behind each recent generation.</p>
+                            <button
+                                onClick={() => { clearGenerationLog(); setGenerationLog([]); }}
+                                disabled={generationLog.length === 0}
+                                className="px-3 py-1.5 text-xs bg-slate-700 text-white rounded-md font-medium hover:bg-slate-600 disabled:opacity-50"
+                            >
+                                Clear Log
+                            </button>
+                        </div>
+                        {generationLog.length === 0 ? (
+                            <p className="text-sm text-slate-500 py-8 text-center">No generations recorded yet.</p>
+                        ) : (
+                            <div className="max-h-[28rem] overflow-y-auto">
+                                <table className="w-full text-xs text-left">
+                                    <thead className="text-slate-500 sticky top-0 bg-slate-900">
+                                        <tr><th className="py-2 pr-3">Time</th><th className="py-2 pr-3">Prompt</th><th className="py-2 pr-3">Version</th><th className="py-2">Model</th></tr>
+                                    </thead>
+                                    <tbody className="text-slate-300">
+                                        {generationLog.map(record => (
+                                            <tr key={record.id} className="border-t border-slate-800">
+                                                <td className="py-1.5 pr-3 whitespace-nowrap text-slate-400">{new Date(record.timestamp).toLocaleString()}</td>
+                                                <td className="py-1.5 pr-3">{PROMPT_TEMPLATES[record.promptId]?.label ?? record.promptId}</td>
+                                                <td className="py-1.5 pr-3 font-mono">{formatPromptVersion({ version: record.promptVersion, overrideRevision: record.overrideRevision })}</td>
+                                                <td className="py-1.5 font-mono text-slate-400">{record.model}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </section>
+                )}
+
+                {activeTab === 'cache' && (
+                    <section className="px-6 py-5">
+                        <CacheSettings />
+                    </section>
+                )}
+
+                {activeTab === 'fixtures' && (
+                    <section className="px-6 py-5">
+                        <FixtureSettings />
+                    </section>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SettingsModal;
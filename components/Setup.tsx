@@ -1,9 +1,17 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { AppState, Market, SpellingVariant, StyleGuide } from '../types';
+import { createEmptyStyleGuide, isStyleGuideEmpty, loadWebsiteStyleGuide, saveWebsiteStyleGuide } from '../services/styleGuide';
+import { getMarketKey, isSameMarket } from '../services/markets';
 
 interface Props {
-    onSetupComplete: (websiteUrl: string, country: string, language: string) => void;
+    appState: AppState;
+    // Whether the project's pipeline produces localized variants for extra markets
+    supportsMarkets: boolean;
+    onSetupComplete: (websiteUrl: string, country: string, language: string, styleGuide: StyleGuide | null, markets: Market[]) => void;
 }
 
+const IconTrash = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>;
+
 const COUNTRIES = [
     'Australia', 'Austria', 'Bahrain', 'Bangladesh', 'Belgium', 'Brazil', 'Bulgaria', 'Canada', 'Chile', 'Colombia', 'Croatia', 'Cyprus', 'Czechia', 'Denmark', 'Egypt', 'Estonia', 'Finland', 'France', 'Germany', 'Greece', 'Hong Kong', 'Hungary', 'India', 'Indonesia', 'Ireland', 'Israel', 'Italy', 'Japan', 'Jordan', 'Kazakhstan', 'Kenya', 'Malaysia', 'Mexico', 'Morocco', 'Netherlands', 'New Zealand', 'Nigeria', 'Norway', 'Pakistan', 'Philippines', 'Poland', 'Portugal', 'Romania', 'Saudi Arabia', 'Serbia', 'Singapore', 'South Africa', 'South Korea', 'Spain', 'Sri Lanka', 'Sweden', 'Switzerland', 'Taiwan', 'Thailand', 'Tunisia', 'Turkiye', 'Ukraine', 'United Arab Emirates', 'United Kingdom', 'United States', 'Vietnam'
 ];
@@ -12,15 +20,51 @@ const LANGUAGES = [
     'Arabic', 'Bengali', 'Bulgarian', 'Chinese (Simplified)', 'Chinese (Traditional)', 'Croatian', 'Czech', 'Danish', 'Dutch', 'English', 'Estonian', 'Finnish', 'French', 'German', 'Greek', 'Hebrew', 'Hindi', 'Hungarian', 'Indonesian', 'Italian', 'Japanese', 'Korean', 'Macedonian', 'Malay', 'Norwegian (Bokmål)', 'Polish', 'Portuguese', 'Romanian', 'Russian', 'Serbian', 'Slovak', 'Spanish', 'Swedish', 'Tagalog', 'Thai', 'Turkish', 'Ukrainian', 'Urdu', 'Vietnamese'
 ];
 
-const Setup: React.FC<Props> = ({ onSetupComplete }) => {
-    const [websiteUrl, setWebsiteUrl] = useState('example.com');
-    const [country, setCountry] = useState('United States');
-    const [language, setLanguage] = useState('English');
+const READING_GRADES = [5, 6, 7, 8, 9, 10, 11, 12, 13, 14];
+
+const inputClassName = "w-full px-4 py-3 bg-slate-800 border-2 border-slate-700 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+
+const Setup: React.FC<Props> = ({ appState, supportsMarkets, onSetupComplete }) => {
+    const [websiteUrl, setWebsiteUrl] = useState(appState.websiteUrl || 'example.com');
+    const [country, setCountry] = useState(appState.country || 'United States');
+    const [language, setLanguage] = useState(appState.language || 'English');
+    const [styleGuide, setStyleGuide] = useState<StyleGuide>(appState.styleGuide ?? createEmptyStyleGuide());
+    const [bannedWordsInput, setBannedWordsInput] = useState((appState.styleGuide?.bannedWords ?? []).join(', '));
+    const [isStyleGuideEdited, setIsStyleGuideEdited] = useState(!!appState.styleGuide);
+    const [saveAsWebsiteDefault, setSaveAsWebsiteDefault] = useState(false);
+    const [markets, setMarkets] = useState<Market[]>(appState.markets);
+
+    // Prefill the guide from the website's saved default until the user starts editing it
+    useEffect(() => {
+        if (isStyleGuideEdited) return;
+        const saved = loadWebsiteStyleGuide(websiteUrl);
+        setStyleGuide(saved ?? createEmptyStyleGuide());
+        setBannedWordsInput((saved?.bannedWords ?? []).join(', '));
+    }, [websiteUrl, isStyleGuideEdited]);
+
+    const updateStyleGuide = (changes: Partial<StyleGuide>) => {
+        setIsStyleGuideEdited(true);
+        setStyleGuide(prev => ({ ...prev, ...changes }));
+    };
+
+    const updateMarket = (index: number, changes: Partial<Market>) => {
+        setMarkets(prev => prev.map((m, i) => i === index ? { ...m, ...changes } : m));
+    };
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (!websiteUrl.trim()) return;
-        onSetupComplete(websiteUrl.trim(), country, language);
+        const guide: StyleGuide = {
+            ...styleGuide,
+            bannedWords: bannedWordsInput.split(',').map(w => w.trim()).filter(Boolean),
+        };
+        if (saveAsWebsiteDefault) saveWebsiteStyleGuide(websiteUrl, guide);
+        // The primary pair is covered by the main draft, and each extra market only needs one variant
+        const primary = { country, language };
+        const extraMarkets = supportsMarkets
+            ? markets.filter((m, i) => !isSameMarket(m, primary) && markets.findIndex(other => isSameMarket(other, m)) === i)
+            : [];
+        onSetupComplete(websiteUrl.trim(), country, language, isStyleGuideEmpty(guide) ? null : guide, extraMarkets);
     };
 
     return (
@@ -77,6 +121,131 @@ const Setup: React.FC<Props> = ({ onSetupComplete }) => {
                             </select>
                         </div>
 
+                        {supportsMarkets && (
+                            <fieldset className="space-y-3 border-t border-slate-800 pt-6">
+                                <legend className="text-sm font-semibold text-slate-200 pr-2">Additional Markets</legend>
+                                <p className="text-xs text-slate-500">Each market gets its own keyword research and a localized draft variant.</p>
+                                {markets.map((market, index) => (
+                                    <div key={`${getMarketKey(market)}-${index}`} className="flex items-center gap-2">
+                                        <select
+                                            aria-label="Market country"
+                                            value={market.country}
+                                            onChange={(e) => updateMarket(index, { country: e.target.value })}
+                                            className={inputClassName}
+                                        >
+                                            {COUNTRIES.map(c => <option key={c} value={c}>{c}</option>)}
+                                        </select>
+                                        <select
+                                            aria-label="Market language"
+                                            value={market.language}
+                                            onChange={(e) => updateMarket(index, { language: e.target.value })}
+                                            className={inputClassName}
+                                        >
+                                            {LANGUAGES.map(l => <option key={l} value={l}>{l}</option>)}
+                                        </select>
+                                        <button
+                                            type="button"
+                                            onClick={() => setMarkets(prev => prev.filter((_, i) => i !== index))}
+                                            className="p-2 text-slate-500 hover:text-red-400 transition-colors"
+                                            title="Remove market"
+                                        >
+                                            <IconTrash />
+                                        </button>
+                                    </div>
+                                ))}
+                                <button
+                                    type="button"
+                                    onClick={() => setMarkets(prev => [...prev, { country: 'United Kingdom', language: 'English' }])}
+                                    className="text-sm font-medium text-indigo-400 hover:text-indigo-300"
+                                >
+                                    + Add market
+                                </button>
+                            </fieldset>
+                        )}
+
+                        <fieldset className="space-y-4 border-t border-slate-800 pt-6">
+                            <legend className="text-sm font-semibold text-slate-200 pr-2">Style Guide <span className="font-normal text-slate-500">(optional)</span></legend>
+                            <div>
+                                <label htmlFor="brand-voice" className="block text-sm font-medium text-slate-300 mb-2">
+                                    Brand Voice
+                                </label>
+                                <textarea
+                                    id="brand-voice"
+                                    rows={2}
+                                    value={styleGuide.brandVoice}
+                                    onChange={(e) => updateStyleGuide({ brandVoice: e.target.value })}
+                                    placeholder="e.g., 'Friendly and direct, like a knowledgeable colleague. No hype.'"
+                                    className={inputClassName}
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="banned-words" className="block text-sm font-medium text-slate-300 mb-2">
+                                    Banned Words
+                                </label>
+                                <input
+                                    id="banned-words"
+                                    type="text"
+                                    value={bannedWordsInput}
+                                    onChange={(e) => { setIsStyleGuideEdited(true); setBannedWordsInput(e.target.value); }}
+                                    placeholder="Comma-separated, e.g., 'delve, unlock, game-changer'"
+                                    className={inputClassName}
+                                />
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label htmlFor="reading-grade" className="block text-sm font-medium text-slate-300 mb-2">
+                                        Reading Level
+                                    </label>
+                                    <select
+                                        id="reading-grade"
+                                        value={styleGuide.readingGrade ?? ''}
+                                        onChange={(e) => updateStyleGuide({ readingGrade: e.target.value ? Number(e.target.value) : null })}
+                                        className={inputClassName}
+                                    >
+                                        <option value="">Any</option>
+                                        {READING_GRADES.map(g => <option key={g} value={g}>Grade {g}</option>)}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label htmlFor="spelling-select" className="block text-sm font-medium text-slate-300 mb-2">
+                                        Spelling
+                                    </label>
+                                    <select
+                                        id="spelling-select"
+                                        value={styleGuide.spelling ?? ''}
+                                        onChange={(e) => updateStyleGuide({ spelling: (e.target.value || null) as SpellingVariant | null })}
+                                        className={inputClassName}
+                                    >
+                                        <option value="">Any</option>
+                                        <option value="American">American</option>
+                                        <option value="British">British</option>
+                                    </select>
+                                </div>
+                            </div>
+                            <div>
+                                <label htmlFor="formatting-rules" className="block text-sm font-medium text-slate-300 mb-2">
+                                    Formatting Rules
+                                </label>
+                                <textarea
+                                    id="formatting-rules"
+                                    rows={2}
+                                    value={styleGuide.formattingRules}
+                                    onChange={(e) => updateStyleGuide({ formattingRules: e.target.value })}
+                                    placeholder="e.g., 'Sentence-case headings. No exclamation marks. Use the Oxford comma.'"
+                                    className={inputClassName}
+                                />
+                            </div>
+                            <label className="flex items-center gap-2 text-sm text-slate-400 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={saveAsWebsiteDefault}
+                                    onChange={(e) => setSaveAsWebsiteDefault(e.target.checked)}
+                                    className="h-4 w-4 rounded border-slate-600 bg-slate-800 text-indigo-600 focus:ring-indigo-500"
+                                />
+                                Save as default for this website
+                            </label>
+                        </fieldset>
+
                         <div className="pt-4">
                             <button
                                 type="submit"
@@ -0,0 +1,153 @@
+
+import React, { useMemo, useState } from 'react';
+import { DraftBlock, DraftSnapshot } from '../types';
+import { BlockCommandInput } from '../utils/blockHistory';
+import { BlockDiffRow, diffBlocks, SNAPSHOT_KIND_LABELS } from '../utils/draftSnapshots';
+import { generateId } from '../utils/helpers';
+
+const IconX = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>;
+const IconArrowRight = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M13 7l5 5m0 0l-5 5m5-5H6" /></svg>;
+
+// Pseudo snapshot ID for the live draft in the editor
+const CURRENT_DRAFT_ID = 'current';
+
+interface Props {
+    snapshots: DraftSnapshot[];
+    currentTitle: string;
+    currentBlocks: DraftBlock[];
+    initialLeftId: string;
+    onRestore: (snapshot: DraftSnapshot) => void;
+    onApplyBlockChange: (label: string, input: BlockCommandInput) => void;
+    onClose: () => void;
+}
+
+const ROW_STYLES: Record<BlockDiffRow['type'], { left: string; right: string }> = {
+    equal: { left: 'border-slate-700/50 text-slate-400', right: 'border-slate-700/50 text-slate-400' },
+    changed: { left: 'border-amber-500/40 bg-amber-900/10 text-slate-200', right: 'border-amber-500/40 bg-amber-900/10 text-slate-200' },
+    removed: { left: 'border-red-500/40 bg-red-900/10 text-slate-200', right: '' },
+    added: { left: '', right: 'border-emerald-500/40 bg-emerald-900/10 text-slate-200' },
+};
+
+const SnapshotDiffViewer: React.FC<Props> = ({ snapshots, currentTitle, currentBlocks, initialLeftId, onRestore, onApplyBlockChange, onClose }) => {
+    const [leftId, setLeftId] = useState(initialLeftId);
+    const [rightId, setRightId] = useState(CURRENT_DRAFT_ID);
+    const [hideUnchanged, setHideUnchanged] = useState(false);
+
+    const resolve = (id: string) => {
+        if (id === CURRENT_DRAFT_ID) return { title: currentTitle, blocks: currentBlocks };
+        return snapshots.find(s => s.id === id) ?? { title: '', blocks: [] };
+    };
+    const left = resolve(leftId);
+    const right = resolve(rightId);
+    const leftSnapshot = snapshots.find(s => s.id === leftId);
+    // Blocks can only be picked into the live draft
+    const canCherryPick = rightId === CURRENT_DRAFT_ID && leftId !== CURRENT_DRAFT_ID;
+
+    const rows = useMemo(() => diffBlocks(left.blocks, right.blocks), [left.blocks, right.blocks]);
+    const changeCount = rows.filter(r => r.type !== 'equal').length;
+
+    const handleCherryPick = (row: BlockDiffRow, rowIndex: number) => {
+        if (row.type === 'changed') {
+            onApplyBlockChange('Restore block from snapshot', { type: 'update', blockId: row.right.id, content: row.left.content });
+        } else if (row.type === 'removed') {
+            // Insert after the closest preceding block that exists in the current draft
+            let index = 0;
+            for (let k = rowIndex - 1; k >= 0; k--) {
+                const previous = rows[k];
+                if (previous.type !== 'removed') {
+                    index = currentBlocks.findIndex(b => b.id === previous.right.id) + 1;
+                    break;
+                }
+            }
+            onApplyBlockChange('Restore block from snapshot', { type: 'insert', index, block: { id: generateId('block'), content: row.left.content } });
+        } else if (row.type === 'added') {
+            onApplyBlockChange('Remove block not in snapshot', { type: 'delete', blockId: row.right.id });
+        }
+    };
+
+    const renderSelect = (value: string, onChange: (id: string) => void) => (
+        <select value={value} onChange={(e) => onChange(e.target.value)} className="w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-sm outline-none focus:border-indigo-500">
+            <option value={CURRENT_DRAFT_ID}>Current draft</option>
+            {[...snapshots].reverse().map(s => (
+                <option key={s.id} value={s.id}>{s.name} · {SNAPSHOT_KIND_LABELS[s.kind]} · {new Date(s.createdAt).toLocaleString()}</option>
+            ))}
+        </select>
+    );
+
+    const renderBlock = (block: DraftBlock | undefined, style: string) => block
+        ? <div className={`p-3 rounded-md border text-sm whitespace-pre-wrap break-words ${style}`}>{block.content}</div>
+        : <div className="p-3 rounded-md border border-dashed border-slate-800" />;
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="bg-slate-800 rounded-lg shadow-2xl w-full max-w-6xl h-[90vh] flex flex-col animate-fade-in">
+                <header className="p-4 border-b border-slate-700 flex justify-between items-center">
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-100">Compare Snapshots</h3>
+                        <p className="text-xs text-slate-400 mt-1">{changeCount} changed block{changeCount === 1 ? '' : 's'}</p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                        <label className="flex items-center gap-2 text-sm text-slate-400 cursor-pointer">
+                            <input type="checkbox" checked={hideUnchanged} onChange={(e) => setHideUnchanged(e.target.checked)} className="accent-indigo-500" />
+                            Hide unchanged
+                        </label>
+                        <button onClick={onClose} className="text-slate-400 hover:text-white"><IconX /></button>
+                    </div>
+                </header>
+
+                <div className="grid grid-cols-2 gap-4 p-4 border-b border-slate-700">
+                    <div className="space-y-2">
+                        {renderSelect(leftId, setLeftId)}
+                        <p className="text-sm font-semibold text-slate-200 truncate">{left.title || 'Untitled'}</p>
+                    </div>
+                    <div className="space-y-2">
+                        {renderSelect(rightId, setRightId)}
+                        <p className="text-sm font-semibold text-slate-200 truncate">{right.title || 'Untitled'}</p>
+                    </div>
+                </div>
+
+                <div className="flex-grow overflow-y-auto p-4 space-y-2">
+                    {rows.length === 0 && <p className="text-center text-slate-500 py-8">Both versions are empty.</p>}
+                    {rows.map((row, i) => {
+                        if (hideUnchanged && row.type === 'equal') return null;
+                        const leftBlock = row.type === 'added' ? undefined : row.left;
+                        const rightBlock = row.type === 'removed' ? undefined : row.right;
+                        return (
+                            <div key={i} className="grid grid-cols-2 gap-4 items-start group">
+                                <div className="relative">
+                                    {renderBlock(leftBlock, ROW_STYLES[row.type].left)}
+                                    {canCherryPick && (row.type === 'changed' || row.type === 'removed') && (
+                                        <button onClick={() => handleCherryPick(row, i)} className="absolute top-2 right-2 flex items-center px-2 py-1 text-xs font-semibold bg-indigo-600 text-white rounded-md opacity-0 group-hover:opacity-100 transition-opacity">
+                                            <IconArrowRight /> Use this
+                                        </button>
+                                    )}
+                                </div>
+                                <div className="relative">
+                                    {renderBlock(rightBlock, ROW_STYLES[row.type].right)}
+                                    {canCherryPick && row.type === 'added' && (
+                                        <button onClick={() => handleCherryPick(row, i)} className="absolute top-2 right-2 px-2 py-1 text-xs font-semibold text-red-400 bg-slate-800 border border-slate-700 rounded-md opacity-0 group-hover:opacity-100 transition-opacity">
+                                            Remove
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <footer className="p-4 border-t border-slate-700 flex justify-between items-center">
+                    <p className="text-xs text-slate-500">{canCherryPick ? 'Hover a changed block to copy it into the current draft.' : 'Compare a snapshot against the current draft to pick individual blocks.'}</p>
+                    <button
+                        onClick={() => leftSnapshot && onRestore(leftSnapshot)}
+                        disabled={!leftSnapshot}
+                        className="px-6 py-2 bg-indigo-600 text-white rounded-md font-semibold hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed"
+                    >
+                        Restore Left Version
+                    </button>
+                </footer>
+            </div>
+        </div>
+    );
+};
+
+export default SnapshotDiffViewer;
@@ -0,0 +1,45 @@
+
+import React, { useMemo, useState } from 'react';
+import { StyleGuide } from '../types';
+import { isStyleGuideEmpty } from '../services/styleGuide';
+import { checkStyleGuide } from '../utils/styleCheck';
+
+const IconCheck = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>;
+const IconWarning = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" /></svg>;
+
+interface Props {
+    text: string;
+    styleGuide: StyleGuide | null;
+    label?: string;
+}
+
+// Shows whether generated text follows the project's style guide. Renders nothing without a guide.
+const StyleCheckNotice: React.FC<Props> = ({ text, styleGuide, label = 'Style guide' }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const violations = useMemo(() => checkStyleGuide(text, styleGuide), [text, styleGuide]);
+
+    if (isStyleGuideEmpty(styleGuide) || !text.trim()) return null;
+
+    if (violations.length === 0) {
+        return (
+            <div className="flex items-center gap-2 text-xs text-emerald-400">
+                <IconCheck /> {label}: no issues found
+            </div>
+        );
+    }
+
+    return (
+        <div className="text-xs">
+            <button onClick={() => setIsExpanded(!isExpanded)} className="flex items-center gap-2 text-amber-400 hover:text-amber-300">
+                <IconWarning /> {label}: {violations.length} issue{violations.length === 1 ? '' : 's'} {isExpanded ? '(hide)' : '(show)'}
+            </button>
+            {isExpanded && (
+                <ul className="mt-2 space-y-1 text-slate-400 list-disc list-inside animate-fade-in">
+                    {violations.map((violation, i) => <li key={i}>{violation.message}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default StyleCheckNotice;
@@ -1,29 +1,64 @@
 
 import React, { useState, useEffect } from 'react';
+import { ProgressUpdate } from '../types';
+import { groupProgressUpdates, ProgressTask } from '../utils/progressLog';
 
 interface Props {
-    messages: string[];
+    updates: ProgressUpdate[];
+    onCancel?: () => void;
 }
 
 const IconCheck = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" /></svg>;
+const IconX = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>;
 
-const ThinkingProcess: React.FC<Props> = ({ messages }) => {
-    const [currentIndex, setCurrentIndex] = useState(0);
+// Notes beyond this are folded away so a retry storm doesn't push the other tasks off screen
+const MAX_VISIBLE_NOTES = 3;
 
-    useEffect(() => {
-        setCurrentIndex(0);
-    }, [messages]);
+const formatElapsed = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const TaskRow: React.FC<{ task: ProgressTask; now: number }> = ({ task, now }) => (
+    <div className="flex items-start gap-4 animate-fade-in">
+        <div className={`flex-shrink-0 w-6 h-6 flex items-center justify-center rounded-full border transition-all duration-500
+            ${task.status === 'succeeded'
+                ? 'bg-emerald-500/20 border-emerald-500 text-emerald-400'
+                : task.status === 'failed'
+                    ? 'bg-red-500/20 border-red-500 text-red-400'
+                    : 'border-indigo-400 border-t-transparent animate-spin'
+            }
+        `}>
+            {task.status === 'succeeded' && <IconCheck />}
+            {task.status === 'failed' && <IconX />}
+        </div>
+
+        <div className="min-w-0 flex-grow">
+            <div className="flex items-baseline justify-between gap-3">
+                <span className={`text-sm font-medium ${task.status === 'running' ? 'text-indigo-200' : 'text-slate-400'}`}>{task.label}</span>
+                <span className="text-[11px] font-mono text-slate-500 flex-shrink-0">{formatElapsed((task.finishedAt ?? now) - task.startedAt)}</span>
+            </div>
+            {task.detail && (
+                <p className={`text-xs mt-0.5 ${task.status === 'failed' ? 'text-red-400' : 'text-slate-500'}`}>{task.detail}</p>
+            )}
+            {task.notes.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-[11px] text-amber-300/80">
+                    {task.notes.length > MAX_VISIBLE_NOTES && <li className="text-slate-500">{task.notes.length - MAX_VISIBLE_NOTES} earlier notes</li>}
+                    {task.notes.slice(-MAX_VISIBLE_NOTES).map((note, i) => <li key={i}>{note}</li>)}
+                </ul>
+            )}
+        </div>
+    </div>
+);
+
+const ThinkingProcess: React.FC<Props> = ({ updates, onCancel }) => {
+    const [now, setNow] = useState(Date.now());
+    const tasks = groupProgressUpdates(updates);
+    const isRunning = tasks.length === 0 || tasks.some(task => task.status === 'running');
 
+    // Ticks the elapsed time of running tasks
     useEffect(() => {
-        if (currentIndex < messages.length - 1) {
-            // Randomized timing between 2.5s and 4s for a more natural "thinking" feel
-            const time = Math.floor(Math.random() * 1500) + 2500;
-            const timer = setTimeout(() => {
-                setCurrentIndex(prev => prev + 1);
-            }, time);
-            return () => clearTimeout(timer);
-        }
-    }, [currentIndex, messages.length]);
+        if (!isRunning) return;
+        const timer = setInterval(() => setNow(Date.now()), 500);
+        return () => clearInterval(timer);
+    }, [isRunning]);
 
     return (
         <div className="flex flex-col items-center justify-center w-full max-w-lg mx-auto my-12 animate-fade-in">
@@ -40,39 +75,24 @@ const ThinkingProcess: React.FC<Props> = ({ messages }) => {
                     AI Reasoning Engine
                 </h3>
 
-                <div className="space-y-5 relative z-10">
-                    {messages.map((msg, index) => {
-                        const isCompleted = index < currentIndex;
-                        const isCurrent = index === currentIndex;
-                        const isPending = index > currentIndex;
-
-                        return (
-                            <div 
-                                key={index} 
-                                className={`flex items-center gap-4 transition-all duration-700 ease-out
-                                    ${isPending ? 'opacity-20 translate-y-2 scale-95' : 'opacity-100 translate-y-0 scale-100'}
-                                `}
-                            >
-                                <div className={`flex-shrink-0 w-6 h-6 flex items-center justify-center rounded-full border transition-all duration-500
-                                    ${isCompleted 
-                                        ? 'bg-emerald-500/20 border-emerald-500 text-emerald-400 scale-100' 
-                                        : isCurrent 
-                                            ? 'border-indigo-400 border-t-transparent animate-spin' 
-                                            : 'border-slate-700 bg-slate-800 scale-90'
-                                    }
-                                `}>
-                                    {isCompleted && <IconCheck />}
-                                </div>
-                                
-                                <span className={`text-sm font-medium transition-colors duration-500
-                                    ${isCompleted ? 'text-slate-400' : isCurrent ? 'text-indigo-200' : 'text-slate-600'}
-                                `}>
-                                    {msg}
-                                </span>
-                            </div>
-                        );
-                    })}
+                <div className="space-y-5 relative z-10 max-h-[50vh] overflow-y-auto">
+                    {tasks.length === 0 ? (
+                        <div className="flex items-center gap-4">
+                            <div className="flex-shrink-0 w-6 h-6 rounded-full border border-indigo-400 border-t-transparent animate-spin"></div>
+                            <span className="text-sm font-medium text-indigo-200">Starting...</span>
+                        </div>
+                    ) : (
+                        tasks.map(task => <TaskRow key={task.id} task={task} now={now} />)
+                    )}
                 </div>
+
+                {onCancel && (
+                    <div className="flex justify-end mt-6 relative z-10">
+                        <button onClick={onCancel} className="px-3 py-1.5 text-sm text-slate-400 border border-slate-700 rounded-md hover:text-white hover:border-slate-500 transition-colors">
+                            Cancel
+                        </button>
+                    </div>
+                )}
             </div>
         </div>
     );
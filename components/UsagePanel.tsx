@@ -0,0 +1,153 @@
+
+import React, { useEffect, useState } from 'react';
+import { formatCost, isOverBudget, loadProjectUsage, setProjectBudget, subscribeToUsage, summarizeUsage, UsageEvent, UsageTotals } from '../services/usage';
+
+const IconX = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" /></svg>;
+
+interface Props {
+    projectId: string;
+    projectName: string;
+    onClose: () => void;
+}
+
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const groupBy = (events: UsageEvent[], key: (event: UsageEvent) => string): [string, UsageTotals][] => {
+    const groups = new Map<string, UsageEvent[]>();
+    for (const event of events) {
+        const group = key(event);
+        groups.set(group, [...(groups.get(group) ?? []), event]);
+    }
+    return [...groups.entries()]
+        .map(([group, groupEvents]): [string, UsageTotals] => [group, summarizeUsage(groupEvents)])
+        .sort((a, b) => b[1].costUsd - a[1].costUsd);
+};
+
+const BreakdownTable: React.FC<{ title: string; rows: [string, UsageTotals][] }> = ({ title, rows }) => (
+    <div>
+        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">{title}</h4>
+        <table className="w-full text-xs text-left">
+            <thead className="text-slate-500">
+                <tr><th className="py-1.5 pr-3 font-medium"></th><th className="py-1.5 pr-3 font-medium text-right">Calls</th><th className="py-1.5 pr-3 font-medium text-right">Tokens in / out</th><th className="py-1.5 font-medium text-right">Cost</th></tr>
+            </thead>
+            <tbody className="text-slate-300">
+                {rows.map(([label, totals]) => (
+                    <tr key={label} className="border-t border-slate-800">
+                        <td className="py-1.5 pr-3 truncate max-w-[10rem]" title={label}>{label}</td>
+                        <td className="py-1.5 pr-3 text-right">{totals.calls}</td>
+                        <td className="py-1.5 pr-3 text-right font-mono">{formatTokens(totals.inputTokens)} / {formatTokens(totals.outputTokens)}</td>
+                        <td className="py-1.5 text-right font-mono">{formatCost(totals.costUsd)}{totals.unpricedCalls > 0 && <span className="text-slate-500">*</span>}</td>
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+const UsagePanel: React.FC<Props> = ({ projectId, projectName, onClose }) => {
+    const [usage, setUsage] = useState(() => loadProjectUsage(projectId));
+    const [budgetInput, setBudgetInput] = useState(usage.budgetUsd?.toString() ?? '');
+
+    // Calls that finish while the panel is open show up straight away
+    useEffect(() => subscribeToUsage(() => setUsage(loadProjectUsage(projectId))), [projectId]);
+
+    const { totals } = usage;
+    const overBudget = isOverBudget(usage);
+    const budgetShare = usage.budgetUsd ? Math.min(100, (totals.costUsd / usage.budgetUsd) * 100) : 0;
+    const parsedBudget = parseFloat(budgetInput);
+    const isBudgetValid = budgetInput.trim() === '' || (Number.isFinite(parsedBudget) && parsedBudget > 0);
+
+    const handleSaveBudget = () => {
+        setProjectBudget(projectId, budgetInput.trim() === '' ? null : parsedBudget);
+        setUsage(loadProjectUsage(projectId));
+    };
+
+    const stats = [
+        { label: 'Estimated cost', value: formatCost(totals.costUsd) },
+        { label: 'Calls', value: String(totals.calls) },
+        { label: 'Tokens in / out', value: `${formatTokens(totals.inputTokens)} / ${formatTokens(totals.outputTokens)}` },
+        { label: 'Images', value: String(totals.images) },
+        { label: 'Audio', value: `${Math.round(totals.audioSeconds / 60 * 10) / 10} min` },
+        { label: 'Avg. latency', value: totals.calls ? `${(totals.latencyMs / totals.calls / 1000).toFixed(1)}s` : '–' },
+    ];
+
+    return (
+        <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+            <div className="bg-slate-900 border border-slate-700 rounded-xl shadow-2xl w-full max-w-3xl max-h-full overflow-y-auto" onClick={e => e.stopPropagation()}>
+                <header className="flex items-center justify-between px-6 py-4 border-b border-slate-800">
+                    <div className="min-w-0">
+                        <h2 className="text-lg font-semibold text-slate-100">Usage & Cost</h2>
+                        <p className="text-xs text-slate-400 truncate">{projectName}</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-400 hover:text-white"><IconX /></button>
+                </header>
+
+                <section className="px-6 py-5 space-y-6">
+                    <div className="grid grid-cols-3 gap-3">
+                        {stats.map(stat => (
+                            <div key={stat.label} className="bg-slate-800/50 border border-slate-700/50 rounded-lg p-3">
+                                <span className="block text-[11px] text-slate-500">{stat.label}</span>
+                                <span className="block text-lg font-semibold text-slate-100 font-mono">{stat.value}</span>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="space-y-2">
+                        <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Budget Cap</h4>
+                        <div className="flex items-center gap-2">
+                            <span className="text-sm text-slate-400">$</span>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                value={budgetInput}
+                                onChange={e => setBudgetInput(e.target.value)}
+                                placeholder="No cap"
+                                className="w-32 px-3 py-1.5 bg-slate-800 border border-slate-700 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 outline-none"
+                            />
+                            <button
+                                onClick={handleSaveBudget}
+                                disabled={!isBudgetValid}
+                                className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-md font-medium hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed"
+                            >
+                                {budgetInput.trim() === '' ? 'Remove Cap' : 'Set Cap'}
+                            </button>
+                        </div>
+                        {usage.budgetUsd !== null && (
+                            <div>
+                                <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                                    <div className={`h-full ${overBudget ? 'bg-red-500' : budgetShare > 80 ? 'bg-amber-500' : 'bg-indigo-500'}`} style={{ width: `${budgetShare}%` }} />
+                                </div>
+                                <p className={`text-xs mt-1 ${overBudget ? 'text-red-400' : 'text-slate-500'}`}>
+                                    {overBudget
+                                        ? `Cap of ${formatCost(usage.budgetUsd)} reached. New AI calls for this project are blocked.`
+                                        : `${formatCost(totals.costUsd)} of ${formatCost(usage.budgetUsd)} used.`}
+                                </p>
+                            </div>
+                        )}
+                    </div>
+
+                    {usage.events.length === 0 ? (
+                        <p className="text-sm text-slate-500 py-6 text-center">No AI calls recorded for this project yet.</p>
+                    ) : (
+                        <div className="space-y-2">
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <BreakdownTable title="By Step" rows={groupBy(usage.events, event => event.step ?? 'Other')} />
+                                <BreakdownTable title="By Model" rows={groupBy(usage.events, event => event.model)} />
+                            </div>
+                            {usage.events.length < totals.calls && (
+                                <p className="text-[11px] text-slate-500">The breakdowns cover the last {usage.events.length} calls. The totals above include all {totals.calls}.</p>
+                            )}
+                        </div>
+                    )}
+
+                    <p className="text-[11px] text-slate-500">
+                        Costs are estimates from public list prices. * Includes calls to models without a known price, such as local models, which count as free.
+                    </p>
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default UsagePanel;
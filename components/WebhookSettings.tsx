@@ -0,0 +1,160 @@
+
+import React, { useState } from 'react';
+import { MOCK_MODE } from '../services/fixtures';
+import { DEFAULT_WEBHOOK_SETTINGS, WEBHOOK_FUNCTIONS, WebhookAuthType, WebhookFunction, WebhookSettings as WebhookSettingsValue, loadWebhookSettings, saveWebhookSettings, testWebhookFunction } from '../services/webhook';
+
+type TestResult = { state: 'testing' | 'ok' | 'error'; message?: string };
+
+const AUTH_OPTIONS: { id: WebhookAuthType; label: string }[] = [
+    { id: 'none', label: 'None' },
+    { id: 'bearer', label: 'Bearer token' },
+    { id: 'header', label: 'Custom header' },
+];
+
+const inputClassName = "w-full px-3 py-2 bg-slate-800 border border-slate-700 rounded-md text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all";
+
+const isHttpUrl = (value: string) => {
+    try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+};
+
+function validateSettings(settings: WebhookSettingsValue): string | null {
+    if (settings.url.trim() && !isHttpUrl(settings.url.trim())) return 'The endpoint must be an http(s) URL.';
+    const badOverride = WEBHOOK_FUNCTIONS.find(func => settings.endpoints[func.id].trim() && !isHttpUrl(settings.endpoints[func.id].trim()));
+    if (badOverride) return `The ${badOverride.label} endpoint must be an http(s) URL.`;
+    if (settings.auth !== 'none' && !settings.token) return 'Enter the token to send, or choose no authentication.';
+    if (settings.auth === 'header' && !settings.headerName.trim()) return 'Enter the name of the header.';
+    return null;
+}
+
+const WebhookSettings: React.FC = () => {
+    const [settings, setSettings] = useState(loadWebhookSettings);
+    const [savedSettings, setSavedSettings] = useState(settings);
+    const [results, setResults] = useState<Partial<Record<WebhookFunction, TestResult>>>({});
+
+    const error = validateSettings(settings);
+    const isDirty = JSON.stringify(settings) !== JSON.stringify(savedSettings);
+    const isTesting = WEBHOOK_FUNCTIONS.some(func => results[func.id]?.state === 'testing');
+
+    const update = (changes: Partial<WebhookSettingsValue>) => {
+        setSettings(prev => ({ ...prev, ...changes }));
+        setResults({});
+    };
+
+    const updateEndpoint = (func: WebhookFunction, url: string) => update({ endpoints: { ...settings.endpoints, [func]: url } });
+
+    // Tests what is in the form, saved or not, so settings can be checked before saving them
+    const handleTest = () => {
+        WEBHOOK_FUNCTIONS.forEach(({ id }) => {
+            setResults(prev => ({ ...prev, [id]: { state: 'testing' } }));
+            testWebhookFunction(id, settings)
+                .then(message => setResults(prev => ({ ...prev, [id]: { state: 'ok', message } })))
+                .catch(err => setResults(prev => ({ ...prev, [id]: { state: 'error', message: err.message || 'Failed.' } })));
+        });
+    };
+
+    const handleSave = () => {
+        saveWebhookSettings(settings);
+        setSavedSettings(settings);
+    };
+
+    const handleReset = () => {
+        if (!window.confirm('Reset the webhook to the default endpoint without authentication?')) return;
+        saveWebhookSettings(DEFAULT_WEBHOOK_SETTINGS);
+        setSettings(DEFAULT_WEBHOOK_SETTINGS);
+        setSavedSettings(DEFAULT_WEBHOOK_SETTINGS);
+        setResults({});
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-xs text-slate-400">
+                The n8n workflow or backend that maps sites, scrapes pages and looks up keyword data. Each function is posted as JSON with a <code className="text-slate-300">function</code> field.
+                {MOCK_MODE === 'replay' && ' Mock mode answers these calls offline, so the connection test is off.'}
+            </p>
+
+            <label className="block">
+                <span className="block text-xs font-medium text-slate-300 mb-1">Endpoint URL</span>
+                <input type="text" value={settings.url} onChange={e => update({ url: e.target.value })} placeholder="https://your-n8n.example.com/webhook/rankenstein" className={inputClassName} />
+                <span className="block text-[11px] text-slate-500 mt-1">Leave empty to turn the webhook off; research then goes on without site and keyword data.</span>
+            </label>
+
+            <div className="grid grid-cols-3 gap-3">
+                <label className="block">
+                    <span className="block text-xs font-medium text-slate-300 mb-1">Authentication</span>
+                    <select value={settings.auth} onChange={e => update({ auth: e.target.value as WebhookAuthType })} className={inputClassName}>
+                        {AUTH_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                    </select>
+                </label>
+                {settings.auth === 'header' && (
+                    <label className="block">
+                        <span className="block text-xs font-medium text-slate-300 mb-1">Header Name</span>
+                        <input type="text" value={settings.headerName} onChange={e => update({ headerName: e.target.value })} className={inputClassName} />
+                    </label>
+                )}
+                {settings.auth !== 'none' && (
+                    <label className="block">
+                        <span className="block text-xs font-medium text-slate-300 mb-1">{settings.auth === 'bearer' ? 'Token' : 'Header Value'}</span>
+                        <input type="password" value={settings.token} onChange={e => update({ token: e.target.value })} className={inputClassName} />
+                    </label>
+                )}
+            </div>
+
+            <table className="w-full text-xs text-left">
+                <thead className="text-slate-500">
+                    <tr>
+                        <th className="py-2 pr-3">Function</th>
+                        <th className="py-2 pr-3">Endpoint override</th>
+                        <th className="py-2 w-48">Test</th>
+                    </tr>
+                </thead>
+                <tbody className="text-slate-300">
+                    {WEBHOOK_FUNCTIONS.map(func => {
+                        const result = results[func.id];
+                        return (
+                            <tr key={func.id} className="border-t border-slate-800 align-top">
+                                <td className="py-2 pr-3">
+                                    <span className="block font-medium text-slate-200">{func.label}</span>
+                                    <span className="block text-[11px] text-slate-500">{func.description}</span>
+                                </td>
+                                <td className="py-2 pr-3">
+                                    <input type="text" value={settings.endpoints[func.id]} onChange={e => updateEndpoint(func.id, e.target.value)} placeholder={settings.url || 'none'} className="w-full px-2 py-1 bg-slate-800 border border-slate-700 rounded text-xs font-mono focus:ring-2 focus:ring-indigo-500 outline-none" />
+                                </td>
+                                <td className={`py-2 ${result?.state === 'ok' ? 'text-emerald-400' : result?.state === 'error' ? 'text-red-400 break-words' : 'text-slate-500'}`}>
+                                    {result?.state === 'testing' ? 'Testing...' : result?.message ?? '—'}
+                                </td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+                <button
+                    onClick={handleTest}
+                    disabled={isTesting || MOCK_MODE === 'replay' || !!error}
+                    className="mr-auto px-3 py-1.5 text-sm bg-slate-700 text-white rounded-md font-medium hover:bg-slate-600 disabled:opacity-50"
+                >
+                    {isTesting ? 'Testing...' : 'Test Connection'}
+                </button>
+                <button onClick={handleReset} className="px-3 py-1.5 text-sm bg-slate-700 text-white rounded-md font-medium hover:bg-slate-600">
+                    Reset to Default
+                </button>
+                <button
+                    onClick={handleSave}
+                    disabled={!isDirty || !!error}
+                    className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-md font-medium hover:bg-indigo-700 disabled:bg-slate-600 disabled:cursor-not-allowed"
+                >
+                    Save Webhook
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default WebhookSettings;
@@ -0,0 +1,121 @@
+
+import { ASSET_STORE, requestToPromise, withStore } from './db';
+import { blobToDataUrl, dataUrlToBlob, generateId } from '../utils/helpers';
+
+// AppState and draft markdown reference stored binaries as `asset://<id>` instead of inlining base64.
+export const ASSET_URL_PREFIX = 'asset://';
+const ASSET_REF_REGEX = /asset:\/\/[\w-]+/g;
+
+export interface StoredAsset {
+    id: string;
+    projectId: string;
+    mimeType: string;
+    blob: Blob;
+    createdAt: number;
+}
+
+// Object URLs are created once per asset and reused for the lifetime of the page.
+const objectUrlCache = new Map<string, string>();
+
+export const isAssetRef = (url: string | undefined | null): url is string => !!url && url.startsWith(ASSET_URL_PREFIX);
+
+const toAssetId = (ref: string) => ref.slice(ASSET_URL_PREFIX.length);
+
+/**
+ * Stores a binary (a Blob or a `data:` URL) for a project and returns its `asset://` reference.
+ */
+export async function saveAsset(projectId: string, data: Blob | string): Promise<string> {
+    const blob = typeof data === 'string' ? dataUrlToBlob(data) : data;
+    const asset: StoredAsset = {
+        id: generateId('asset'),
+        projectId,
+        mimeType: blob.type || 'application/octet-stream',
+        blob,
+        createdAt: Date.now(),
+    };
+    await withStore(ASSET_STORE, 'readwrite', store => requestToPromise(store.put(asset)));
+    return ASSET_URL_PREFIX + asset.id;
+}
+
+export async function getAsset(ref: string): Promise<StoredAsset | null> {
+    if (!isAssetRef(ref)) return null;
+    const asset = await withStore(ASSET_STORE, 'readonly', store => requestToPromise(store.get(toAssetId(ref))));
+    return (asset as StoredAsset | undefined) ?? null;
+}
+
+export async function deleteAsset(ref: string) {
+    if (!isAssetRef(ref)) return;
+    await withStore(ASSET_STORE, 'readwrite', store => requestToPromise(store.delete(toAssetId(ref))));
+    const cached = objectUrlCache.get(ref);
+    if (cached) {
+        URL.revokeObjectURL(cached);
+        objectUrlCache.delete(ref);
+    }
+}
+
+export async function listProjectAssets(projectId: string): Promise<StoredAsset[]> {
+    const assets = await withStore(ASSET_STORE, 'readonly', store =>
+        requestToPromise(store.index('projectId').getAll(projectId))
+    );
+    return assets as StoredAsset[];
+}
+
+export async function deleteProjectAssets(projectId: string) {
+    const assets = await listProjectAssets(projectId);
+    await Promise.all(assets.map(asset => deleteAsset(ASSET_URL_PREFIX + asset.id)));
+}
+
+/**
+ * Copies every asset of one project to another. Returns a map of old reference to new reference.
+ */
+export async function copyProjectAssets(fromProjectId: string, toProjectId: string): Promise<Record<string, string>> {
+    const assets = await listProjectAssets(fromProjectId);
+    const mapping: Record<string, string> = {};
+    for (const asset of assets) {
+        mapping[ASSET_URL_PREFIX + asset.id] = await saveAsset(toProjectId, asset.blob);
+    }
+    return mapping;
+}
+
+/**
+ * Replaces every `asset://` reference found in a string using the given mapping.
+ */
+export function remapAssetRefs(text: string, mapping: Record<string, string>): string {
+    return text.replace(ASSET_REF_REGEX, ref => mapping[ref] ?? ref);
+}
+
+/**
+ * Resolves an `asset://` reference to a URL the browser can display. Other URLs are returned unchanged.
+ */
+export async function resolveAssetUrl(url: string): Promise<string> {
+    if (!isAssetRef(url)) return url;
+    const cached = objectUrlCache.get(url);
+    if (cached) return cached;
+    const asset = await getAsset(url);
+    if (!asset) return '';
+    const objectUrl = URL.createObjectURL(asset.blob);
+    objectUrlCache.set(url, objectUrl);
+    return objectUrl;
+}
+
+/**
+ * Resolves an `asset://` reference to a self-contained `data:` URL, e.g. for exports.
+ */
+export async function resolveAssetDataUrl(url: string): Promise<string> {
+    if (!isAssetRef(url)) return url;
+    const asset = await getAsset(url);
+    return asset ? blobToDataUrl(asset.blob) : '';
+}
+
+/**
+ * Replaces all asset references inside a markdown document.
+ * `mode: 'display'` uses object URLs, `mode: 'export'` embeds data URLs.
+ */
+export async function resolveMarkdownAssets(markdown: string, mode: 'display' | 'export' = 'display'): Promise<string> {
+    const refs = [...new Set(markdown.match(ASSET_REF_REGEX) ?? [])];
+    if (refs.length === 0) return markdown;
+    const resolve = mode === 'export' ? resolveAssetDataUrl : resolveAssetUrl;
+    const resolved = await Promise.all(refs.map(ref => resolve(ref).catch(() => '')));
+    const mapping = Object.fromEntries(refs.map((ref, i) => [ref, resolved[i]]));
+    return remapAssetRefs(markdown, mapping);
+}
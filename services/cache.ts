@@ -0,0 +1,100 @@
+
+import { CACHE_STORE, requestToPromise, withStore } from './db';
+
+// Responses are addressed by a hash of everything that determines them, so identical requests share an entry
+export interface CacheEntry<T = unknown> {
+    key: string;
+    namespace: string;
+    value: T;
+    createdAt: number;
+    expiresAt: number;
+}
+
+export const HOUR = 60 * 60 * 1000;
+export const DAY = 24 * HOUR;
+
+// Serializes with sorted object keys so equal requests hash the same regardless of property order
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort()
+            .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+export async function hashKey(namespace: string, keyParts: unknown): Promise<string> {
+    const bytes = new TextEncoder().encode(`${namespace}\n${stableStringify(keyParts)}`);
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${namespace}:${hex}`;
+}
+
+async function readEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+        const entry = await withStore(CACHE_STORE, 'readonly', store => requestToPromise(store.get(key)));
+        return (entry as CacheEntry<T> | undefined) ?? null;
+    } catch (error) {
+        console.warn("Failed to read from the response cache", error);
+        return null;
+    }
+}
+
+async function writeEntry(entry: CacheEntry) {
+    try {
+        await withStore(CACHE_STORE, 'readwrite', store => requestToPromise(store.put(entry)));
+    } catch (error) {
+        console.warn("Failed to write to the response cache", error);
+    }
+}
+
+/**
+ * Returns the cached response for `keyParts` if it has not expired, otherwise runs `fetcher` and caches its result.
+ * Failed fetches are not cached, and a broken cache never fails the request.
+ */
+export async function withCache<T>(
+    namespace: string,
+    ttlMs: number,
+    keyParts: unknown,
+    fetcher: () => Promise<T>,
+    options: { bypass?: boolean } = {}
+): Promise<T> {
+    const key = await hashKey(namespace, keyParts);
+    if (!options.bypass) {
+        const entry = await readEntry<T>(key);
+        if (entry && entry.expiresAt > Date.now()) return entry.value;
+    }
+    const value = await fetcher();
+    const now = Date.now();
+    await writeEntry({ key, namespace, value, createdAt: now, expiresAt: now + ttlMs });
+    return value;
+}
+
+export async function getCacheStats(): Promise<{ namespace: string; entries: number; expired: number }[]> {
+    const entries = await withStore(CACHE_STORE, 'readonly', store => requestToPromise(store.getAll())) as CacheEntry[];
+    const now = Date.now();
+    const stats = new Map<string, { namespace: string; entries: number; expired: number }>();
+    for (const entry of entries) {
+        const stat = stats.get(entry.namespace) ?? { namespace: entry.namespace, entries: 0, expired: 0 };
+        stat.entries++;
+        if (entry.expiresAt <= now) stat.expired++;
+        stats.set(entry.namespace, stat);
+    }
+    return [...stats.values()].sort((a, b) => a.namespace.localeCompare(b.namespace));
+}
+
+/**
+ * Removes cached responses, either all of them or those of a single namespace.
+ */
+export async function clearCache(namespace?: string) {
+    await withStore(CACHE_STORE, 'readwrite', async store => {
+        if (!namespace) {
+            await requestToPromise(store.clear());
+            return;
+        }
+        const keys = await requestToPromise(store.index('namespace').getAllKeys(namespace));
+        await Promise.all(keys.map(key => requestToPromise(store.delete(key))));
+    });
+}
@@ -0,0 +1,68 @@
+
+const DB_NAME = 'rankenstein';
+const DB_VERSION = 3;
+
+export const ASSET_STORE = 'assets';
+export const CACHE_STORE = 'responseCache';
+export const FIXTURE_STORE = 'fixtures';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first use, creates or upgrades) the app's IndexedDB database.
+ * The connection is shared across callers.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(ASSET_STORE)) {
+                    const store = db.createObjectStore(ASSET_STORE, { keyPath: 'id' });
+                    store.createIndex('projectId', 'projectId', { unique: false });
+                }
+                if (!db.objectStoreNames.contains(CACHE_STORE)) {
+                    const store = db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+                    store.createIndex('namespace', 'namespace', { unique: false });
+                }
+                if (!db.objectStoreNames.contains(FIXTURE_STORE)) {
+                    db.createObjectStore(FIXTURE_STORE, { keyPath: 'key' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Runs `fn` inside a transaction on a single store and resolves once the transaction commits.
+ */
+export async function withStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+    const result = await fn(tx.objectStore(storeName));
+    await done;
+    return result;
+}
@@ -0,0 +1,110 @@
+
+import { hashKey } from './cache';
+import { FIXTURE_STORE, requestToPromise, withStore } from './db';
+import { ProviderOperation } from './providers/types';
+
+/**
+ * Set with MOCK_MODE in .env.local. "replay" answers every AI and webhook call from recorded
+ * fixtures, or with deterministic made-up data when none matches, so the app runs without keys or
+ * network. "record" calls the real services and saves each response as a fixture.
+ */
+export type MockMode = 'off' | 'replay' | 'record';
+
+export const MOCK_MODE: MockMode = process.env.MOCK_MODE === 'replay' || process.env.MOCK_MODE === 'record' ? process.env.MOCK_MODE : 'off';
+
+export type FixtureKind = ProviderOperation | 'webhook';
+
+export interface Fixture<T = unknown> {
+    key: string;
+    kind: FixtureKind;
+    // Kept so exported fixtures can be read and edited by hand
+    request: unknown;
+    response: T;
+    recordedAt: number;
+}
+
+interface FixtureFile {
+    format: 'rankenstein-fixtures';
+    version: 1;
+    fixtures: Fixture[];
+}
+
+export const FIXTURE_FILE_EXTENSION = '.fixtures.json';
+
+export class FixtureImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FixtureImportError';
+    }
+}
+
+// Fixtures match on what was asked, not on the model or sampling settings, so responses recorded
+// with one provider replay on the mock provider's models. Callbacks can't be stored either.
+const fixtureRequest = (request: object) => {
+    const { signal: _signal, onText: _onText, model: _model, temperature: _temperature, thinkingBudget: _thinkingBudget, ...rest } = request as Record<string, unknown>;
+    return rest;
+};
+
+const fixtureKey = (kind: FixtureKind, request: object) => hashKey(`fixture:${kind}`, fixtureRequest(request));
+
+export async function findFixture<T>(kind: FixtureKind, request: object): Promise<T | undefined> {
+    try {
+        const key = await fixtureKey(kind, request);
+        const fixture = await withStore(FIXTURE_STORE, 'readonly', store => requestToPromise(store.get(key))) as Fixture<T> | undefined;
+        return fixture?.response;
+    } catch (error) {
+        console.warn("Failed to read fixtures", error);
+        return undefined;
+    }
+}
+
+export async function saveFixture(kind: FixtureKind, request: object, response: unknown) {
+    const fixture: Fixture = { key: await fixtureKey(kind, request), kind, request: fixtureRequest(request), response, recordedAt: Date.now() };
+    try {
+        await withStore(FIXTURE_STORE, 'readwrite', store => requestToPromise(store.put(fixture)));
+    } catch (error) {
+        console.warn("Failed to record a fixture", error);
+    }
+}
+
+/**
+ * Runs a real call and saves what it returned. Failed calls are not recorded.
+ */
+export async function recordResponse<T>(kind: FixtureKind, request: object, fetcher: () => Promise<T>): Promise<T> {
+    const response = await fetcher();
+    await saveFixture(kind, request, response);
+    return response;
+}
+
+export const listFixtures = () =>
+    withStore(FIXTURE_STORE, 'readonly', store => requestToPromise(store.getAll())) as Promise<Fixture[]>;
+
+export const clearFixtures = () =>
+    withStore(FIXTURE_STORE, 'readwrite', store => requestToPromise(store.clear()));
+
+export async function exportFixtures(): Promise<Blob> {
+    const file: FixtureFile = { format: 'rankenstein-fixtures', version: 1, fixtures: await listFixtures() };
+    return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Adds the fixtures of an exported file, replacing recorded ones for the same requests.
+ * Returns how many were imported.
+ */
+export async function importFixtures(file: Blob): Promise<number> {
+    let parsed: Partial<FixtureFile>;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch (error: any) {
+        throw new FixtureImportError(`Could not read the fixture file: ${error.message}`);
+    }
+    if (parsed.format !== 'rankenstein-fixtures' || !Array.isArray(parsed.fixtures)) {
+        throw new FixtureImportError("This is not a Rankenstein fixture file.");
+    }
+    if (parsed.version !== 1) {
+        throw new FixtureImportError(`Fixture file version ${parsed.version} is not supported.`);
+    }
+    const fixtures = parsed.fixtures.filter(fixture => fixture && typeof fixture.key === 'string' && fixture.kind);
+    await withStore(FIXTURE_STORE, 'readwrite', store => Promise.all(fixtures.map(fixture => requestToPromise(store.put(fixture)))));
+    return fixtures.length;
+}
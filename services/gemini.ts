@@ -1,36 +1,23 @@
 
-import { GoogleGenAI, Type, Modality, GenerateContentResponse, Part, FunctionDeclaration, Tool } from "@google/genai";
-import { ResearchResult, TopicIdea, CompetitorInfo, InternalLink, RankedKeyword, EeatSource } from "../types";
+import { ResearchResult, TopicIdea, CompetitorInfo, InternalLink, RankedKeyword, EeatSource, AppState, StyleGuide, Market, RequestOptions, ChatToolInvocation, DraftBlock, DraftPatch } from "../types";
 import { callWebhookTool } from "./webhook";
-
-// Use process.env.API_KEY as per guidelines
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const PRIMARY_MODEL = 'gemini-3-pro-preview';
-const FALLBACK_MODEL = 'gemini-2.5-flash';
-
-// Helper to extract JSON from a string that might contain markdown fences
-function extractJson(text: string): string {
-    const match = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-    if (match) return match[1].trim();
-    
-    // Fallback: try to find the first [ or { and the last ] or }
-    const firstOpen = text.search(/[{\[]/);
-    const lastClose = text.search(/[}\]]$/); // Search from end isn't direct in JS regex, but let's try simple trim first
-    
-    if (firstOpen !== -1) {
-        const lastIndex = text.lastIndexOf(text[firstOpen] === '{' ? '}' : ']');
-        if (lastIndex !== -1) {
-            return text.substring(firstOpen, lastIndex + 1);
-        }
-    }
-    
-    return text.trim();
-}
+import { formatStyleGuidePrompt } from "./styleGuide";
+import { ChatTurn, CircuitOpenError, JsonRequest, JsonSchema, TextRequest, TextResult, ToolDeclaration, ToolResult, getProvider, retryAfterMs } from "./providers";
+import { ModelChoice, ModelTask, resolveModelChain } from "./modelRouting";
+import { PromptId, RenderedPrompt, renderPrompt } from "./prompts";
+import { recordGeneration } from "./generationLog";
+import { StructuredOutputError, parseStructuredOutput, validateAgainstSchema } from "./schema";
+import { DAY, withCache } from "./cache";
+import { reportNote, runTask } from "./progress";
+import { abortableDelay } from "../utils/abort";
+import { generateId } from "../utils/helpers";
+import { DraftSection, formatOutline, formatSection, indexDraft, retrieveSections } from "../utils/draftIndex";
 
 function isQuotaError(error: any): boolean {
     // Log error to help debugging
     if (error) console.warn("Checking error for quota/server:", error);
+    // Friendly errors keep the provider error as their cause
+    if (error?.cause && isQuotaError(error.cause)) return true;
     
     const status = error.status || error.code;
 
@@ -51,252 +38,314 @@ function isQuotaError(error: any): boolean {
            ));
 }
 
+// Friendly errors keep the provider error as their cause
+const openCircuitOf = (error: any): CircuitOpenError | null =>
+    error instanceof CircuitOpenError ? error : error?.cause instanceof CircuitOpenError ? error.cause : null;
+
 /**
- * Retries an async operation with exponential backoff.
+ * Retries an async operation with exponential backoff, or as long as the server asked us to wait.
+ * An aborted signal or an open circuit stops further attempts.
  */
-async function withRetry<T>(fn: () => Promise<T>, retries = 3, baseDelay = 2000): Promise<T> {
+async function withRetry<T>(
+    fn: () => Promise<T>,
+    options: RequestOptions = {},
+    { retries = 3, baseDelay = 2000 }: { retries?: number; baseDelay?: number } = {}
+): Promise<T> {
+    const { signal } = options;
+    signal?.throwIfAborted();
     try {
         return await fn();
     } catch (error: any) {
+        // The model is already known to be rate limited, so retrying would only add load
+        const circuitError = openCircuitOf(error);
+        if (circuitError) throw circuitError;
         // Retry on 429s or 500s that might be transient
-        if (retries > 0 && isQuotaError(error)) {
-            console.warn(`Gemini API Error (${error.status || error.code || 'Error'}). Retrying in ${baseDelay}ms... (${retries} retries left)`);
-            await new Promise(resolve => setTimeout(resolve, baseDelay));
-            return withRetry(fn, retries - 1, baseDelay * 2);
+        if (retries > 0 && !signal?.aborted && isQuotaError(error)) {
+            const status = error.status || error.code || 'Error';
+            const delay = Math.max(baseDelay, retryAfterMs(error) ?? 0);
+            console.warn(`Gemini API Error (${status}). Retrying in ${delay}ms... (${retries} retries left)`);
+            reportNote(options, `${status}: retrying in ${Math.ceil(delay / 1000)}s (${retries} ${retries === 1 ? 'retry' : 'retries'} left)`);
+            await abortableDelay(delay, signal);
+            return withRetry(fn, options, { retries: retries - 1, baseDelay: baseDelay * 2 });
         }
         throw error;
     }
 }
 
 /**
- * Tries a primary model function, and falls back to a secondary model function if quota is exceeded.
+ * Runs a task on the models configured for it in Settings, moving down the fallback chain when a
+ * model is out of quota. The last model in the chain gets the most retries.
  */
 async function withModelFallback<T>(
-    primaryFn: (model: string) => Promise<T>,
-    fallbackFn: (model: string) => Promise<T> = primaryFn
+    task: ModelTask,
+    fn: (choice: ModelChoice) => Promise<T>,
+    options: RequestOptions = {},
+    chain: ModelChoice[] = resolveModelChain(task)
 ): Promise<T> {
+    const [choice, next, ...rest] = chain;
+    if (!next) return withRetry(() => fn(choice), options, { retries: 3, baseDelay: 2000 });
     try {
-        // Try with retries on the primary model first
-        return await withRetry(() => primaryFn(PRIMARY_MODEL), 1, 1000);
+        return await withRetry(() => fn(choice), options, { retries: 1, baseDelay: 1000 });
     } catch (error: any) {
-        if (isQuotaError(error)) {
-            console.warn(`Primary model (${PRIMARY_MODEL}) failed with ${error.status || error.code || 'error'}. Switching to fallback model (${FALLBACK_MODEL}).`);
-            // Try the fallback model with standard retries
-            return await withRetry(() => fallbackFn(FALLBACK_MODEL), 3, 2000);
+        if (!options.signal?.aborted && (error instanceof CircuitOpenError || isQuotaError(error))) {
+            console.warn(`Model ${choice.model} failed with ${error.status || error.code || 'error'}. Switching to fallback model (${next.model}).`);
+            reportNote(options, `${choice.model} unavailable, switched to ${next.model}`);
+            return withModelFallback(task, fn, options, [next, ...rest]);
         }
         throw error;
     }
 }
 
-export async function generateTopicIdeas(theme: string): Promise<TopicIdea[]> {
-    return withRetry(async () => {
+// Runs a rendered prompt on the active provider and records which template version produced the result
+async function runTextPrompt(prompt: RenderedPrompt, request: Omit<TextRequest, 'prompt' | 'signal'>, options: RequestOptions = {}): Promise<TextResult> {
+    const result = await getProvider().generateText({ ...request, prompt: prompt.text, signal: options.signal });
+    recordGeneration(prompt, request.model);
+    return result;
+}
+
+// Partial answers are passed on as the text so far, not as the latest chunk
+type PartialTextHandler = (text: string) => void;
+
+// Runs a text prompt, streamed when the caller wants to show the answer as it is written
+async function completeTextPrompt(prompt: RenderedPrompt, request: Omit<TextRequest, 'prompt' | 'signal'>, options: RequestOptions, onPartial?: PartialTextHandler): Promise<string> {
+    if (!onPartial) return (await runTextPrompt(prompt, request, options)).text;
+    const stream = await getProvider().streamText({ ...request, prompt: prompt.text, signal: options.signal });
+    recordGeneration(prompt, request.model);
+    let text = '';
+    for await (const chunk of stream) {
+        text += chunk;
+        onPartial(text);
+    }
+    return text;
+}
+
+// How long answers to research prompts are reused. Creative prompts are never cached, so regenerating gives a new result.
+const PROMPT_CACHE_TTLS: Partial<Record<PromptId, number>> = {
+    competitorAnalysis: DAY,
+    eeatSources: 3 * DAY,
+    keywordSeeds: 7 * DAY,
+    keywordSelection: DAY,
+    outlineSuggestions: 3 * DAY,
+    internalLinkSelection: 7 * DAY,
+};
+
+async function withPromptCache<T>(prompt: RenderedPrompt, request: object, options: RequestOptions, fetcher: () => Promise<T>): Promise<T> {
+    const ttl = PROMPT_CACHE_TTLS[prompt.id];
+    if (!ttl) return fetcher();
+    let fetched = false;
+    const result = await withCache(`ai:${prompt.id}`, ttl, { provider: getProvider().id, prompt: prompt.text, ...request }, () => {
+        fetched = true;
+        return fetcher();
+    }, { bypass: options.bypassCache });
+    if (!fetched) reportNote(options, 'Reused a cached response');
+    return result;
+}
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Sends invalid structured output back to the model together with its validation errors
+async function repairStructuredOutput<T>(
+    prompt: RenderedPrompt,
+    model: string,
+    schema: JsonSchema,
+    response: string,
+    errors: string[],
+    options: RequestOptions = {}
+): Promise<T> {
+    for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+        console.warn(`Output of "${prompt.id}" failed validation, repair attempt ${attempt} of ${MAX_REPAIR_ATTEMPTS}:`, errors);
+        reportNote(options, `Output did not match the expected format, asking the model to fix it (attempt ${attempt} of ${MAX_REPAIR_ATTEMPTS})`);
+        const repairPrompt = renderPrompt('structuredOutputRepair', {
+            originalPrompt: prompt.text,
+            response,
+            errors: errors.map(error => `- ${error}`).join('\n'),
+            schema: JSON.stringify(schema, null, 2),
+        });
+        response = (await runTextPrompt(repairPrompt, { model, schema }, options)).text;
+        const result = parseStructuredOutput<T>(response, schema);
+        if (result.errors.length === 0) return result.value!;
+        errors = result.errors;
+    }
+    throw new StructuredOutputError(errors, response);
+}
+
+async function runJsonPrompt<T>(prompt: RenderedPrompt, request: Omit<JsonRequest, 'prompt' | 'signal'>, options: RequestOptions = {}): Promise<T> {
+    return withPromptCache(prompt, request, options, async () => {
+        const result = await getProvider().generateJson<T>({ ...request, prompt: prompt.text, signal: options.signal });
+        recordGeneration(prompt, request.model);
+        const errors = validateAgainstSchema(result, request.schema);
+        if (errors.length === 0) return result;
+        return repairStructuredOutput<T>(prompt, request.model, request.schema, JSON.stringify(result, null, 2), errors, options);
+    });
+}
+
+// Reads JSON out of a plain text answer. Prompts with web search need this because search rules out native JSON mode
+async function runStructuredPrompt<T>(
+    prompt: RenderedPrompt,
+    request: Omit<TextRequest, 'prompt' | 'signal'>,
+    schema: JsonSchema,
+    options: RequestOptions = {}
+): Promise<{ value: T; sources: TextResult['sources'] }> {
+    return withPromptCache(prompt, { ...request, schema }, options, async () => {
+        const response = await runTextPrompt(prompt, { ...request, schema }, options);
+        if (request.useSearch) reportNote(options, `Found ${response.sources.length} grounding ${response.sources.length === 1 ? 'source' : 'sources'}`);
+        const result = parseStructuredOutput<T>(response.text, schema);
+        const value = result.errors.length === 0 ? result.value! : await repairStructuredOutput<T>(prompt, request.model, schema, response.text, result.errors, options);
+        return { value, sources: response.sources };
+    });
+}
+
+const STRING_LIST_SCHEMA: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const TOPIC_IDEAS_SCHEMA: JsonSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            title: { type: 'string' },
+            description: { type: 'string' },
+        },
+        required: ['title', 'description'],
+    },
+};
+
+export async function generateTopicIdeas(theme: string, styleGuide?: StyleGuide | null, options: RequestOptions = {}): Promise<TopicIdea[]> {
+    return runTask({ id: 'topicIdeas', label: 'Finding topic ideas', summarize: ideas => `${ideas.length} ideas` }, options, options => withModelFallback('ideation', async choice => {
         try {
-            // Using Flash for faster ideation (Standard for this task)
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: `You are an expert content strategist specializing in Generative Engine Optimization (GEO) and building Content Authority. 
-                
-                Based on the theme '${theme}', generate 5 blog topic ideas that are designed to be "Uniquely Citable Assets".
-                
-                Criteria for topics:
-                1.  **Answer-First Potential:** Topics that allow for a direct, definitive answer or definition immediately (good for AI overviews).
-                2.  **High Utility:** Topics that solve specific problems ("How-to", "Ultimate Guides").
-                3.  **Data/Analysis Potential:** Topics where we can present "original" analysis or structured comparisons (Lists, Tables).
-                
-                For each idea, provide:
-                - A catchy, SEO-friendly title (Title Case).
-                - A brief description of why this topic builds authority.
-
-                Respond with a valid, perfectly formatted JSON array of objects, where each object has "title" and "description" keys.`,
-                config: {
-                    tools: [{ googleSearch: {} }],
-                },
-            });
-            
-            const jsonString = extractJson(response.text);
-            return JSON.parse(jsonString);
+            const prompt = renderPrompt('topicIdeas', { theme, styleGuide: formatStyleGuidePrompt(styleGuide) });
+            const { value } = await runStructuredPrompt<TopicIdea[]>(prompt, {
+                ...choice,
+                useSearch: true,
+            }, TOPIC_IDEAS_SCHEMA, options);
+            return value;
         } catch (error) {
             console.error("Error generating topic ideas:", error);
-            throw new Error("Failed to generate topic ideas. Please try a different theme.");
+            throw new Error("Failed to generate topic ideas. Please try a different theme.", { cause: error });
         }
-    });
+    }, options));
 }
 
-export async function generateTopicIdeasForWebsite(websiteUrl: string, country: string, language: string): Promise<TopicIdea[]> {
-    return withRetry(async () => {
+export async function generateTopicIdeasForWebsite(websiteUrl: string, country: string, language: string, styleGuide?: StyleGuide | null, options: RequestOptions = {}): Promise<TopicIdea[]> {
+    return runTask({ id: 'websiteTopicIdeas', label: 'Finding topic ideas for your website', summarize: ideas => `${ideas.length} ideas` }, options, options => withModelFallback('ideation', async choice => {
         try {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: `You are an expert content strategist specializing in Generative Engine Optimization (GEO). 
-                
-                Task: Analyze the website '${websiteUrl}' using Google Search to understand its niche, authority level, and audience.
-                
-                Then, generate 5 blog topic ideas for the '${country}' market in '${language}' that would help this specific website build "Topical Authority".
-                
-                The topics must:
-                1.  Fill a gap in the current content strategy.
-                2.  Lend themselves to structured formatting (Tables, Lists, Steps) which AI models prefer.
-                3.  Be specific enough to demonstrate "Experience" (E-E-A-T).
-
-                Respond with a valid JSON array of objects, where each object has "title" and "description" keys.`,
-                config: {
-                    tools: [{ googleSearch: {} }],
-                },
+            const prompt = renderPrompt('websiteTopicIdeas', {
+                websiteUrl,
+                country,
+                language,
+                styleGuide: formatStyleGuidePrompt(styleGuide),
             });
-            
-            const jsonString = extractJson(response.text);
-            return JSON.parse(jsonString);
+            const { value } = await runStructuredPrompt<TopicIdea[]>(prompt, {
+                ...choice,
+                useSearch: true,
+            }, TOPIC_IDEAS_SCHEMA, options);
+            return value;
         } catch (error) {
             console.error("Error generating topic ideas for website:", error);
-            throw new Error("Failed to generate topic ideas for your website. Please check the URL or try a manual theme.");
+            throw new Error("Failed to generate topic ideas for your website. Please check the URL or try a manual theme.", { cause: error });
         }
-    });
+    }, options));
 }
 
 
-export async function analyzeCompetitors(topic: string): Promise<{ competitors: Omit<CompetitorInfo, 'url'>[], groundingLinks: CompetitorInfo[] }> {
-    return withRetry(async () => {
+export async function analyzeCompetitors(topic: string, options: RequestOptions = {}): Promise<{ competitors: Omit<CompetitorInfo, 'url'>[], groundingLinks: CompetitorInfo[] }> {
+    return runTask({ id: 'competitorAnalysis', label: 'Analyzing competitors', summarize: r => `${r.competitors.length} competitors, ${r.groundingLinks.length} sources` }, options, options => withModelFallback('competitors', async choice => {
         try {
-            const response = await ai.models.generateContent({
-                model: PRIMARY_MODEL,
-                contents: `You are an SEO analyst. For the topic '${topic}', perform in-depth research using Google Search to analyze the top 3 competing articles. 
-                
-                For each competitor, identify:
-                1. Their main argument.
-                2. **Content Gaps:** What are they missing? (e.g., Lack of original data, poor formatting, outdated info, lack of specific examples).
-                3. **Structure:** Do they use tables, lists, or specific schema?
-
-                Respond with a valid JSON object with a "competitors" key. "competitors" should be an array of objects.
-                
-                CRITICAL: Each object MUST have exactly two keys:
-                - "title": string
-                - "summary": string. Combine the argument, gaps, and structure analysis into this SINGLE string. Do NOT use nested objects.`,
-                config: {
-                    tools: [{ googleSearch: {} }],
+            const prompt = renderPrompt('competitorAnalysis', { topic });
+            const { value, sources } = await runStructuredPrompt<{ competitors: Omit<CompetitorInfo, 'url'>[] }>(prompt, {
+                ...choice,
+                useSearch: true,
+            }, {
+                type: 'object',
+                properties: {
+                    competitors: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                title: { type: 'string' },
+                                summary: { type: 'string', description: 'Argument, content gaps and structure combined into one string.' },
+                            },
+                            required: ['title', 'summary'],
+                        },
+                    },
                 },
-            });
+                required: ['competitors'],
+            }, options);
 
-            const jsonString = extractJson(response.text);
-            const parsedData = JSON.parse(jsonString);
-            
-            // Robust mapping to ensure summary is always a string (fixes React Error #31)
-            const competitors = (parsedData.competitors || []).map((c: any) => {
-                let summaryText = "";
-                
-                // If model returns a string as requested
-                if (typeof c.summary === 'string') {
-                    summaryText = c.summary;
-                } 
-                // If model returns an object (e.g. {main_argument: ...}), flatten it
-                else if (typeof c.summary === 'object' && c.summary !== null) {
-                    summaryText = Object.entries(c.summary)
-                        .map(([k, v]) => `${k.replace(/_/g, ' ')}: ${v}`)
-                        .join('. ');
-                }
-                // If model put keys at root level instead of inside summary
-                else {
-                    const parts = [];
-                    if (c.main_argument) parts.push(`Argument: ${c.main_argument}`);
-                    if (c.content_gaps) parts.push(`Gaps: ${c.content_gaps}`);
-                    if (c.structure) parts.push(`Structure: ${c.structure}`);
-                    summaryText = parts.join('. ') || "Analysis available in source link.";
-                }
-
-                return {
-                    title: typeof c.title === 'string' ? c.title : 'Competitor Analysis',
-                    summary: summaryText
-                };
-            });
-            
-            const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [];
-            
-            const groundingLinks: CompetitorInfo[] = groundingChunks
-                .map(chunk => ({
-                    title: chunk.web?.title ?? 'Unknown Source',
-                    url: chunk.web?.uri ?? '#',
-                    summary: '' 
-                }))
-                .filter(link => link.url !== '#');
+            const competitors = value.competitors.map(({ title, summary }) => ({ title, summary }));
+            const groundingLinks: CompetitorInfo[] = sources.map(source => ({ ...source, summary: '' }));
 
             return { competitors, groundingLinks };
 
         } catch (error) {
             console.error("Error analyzing competitors:", error);
-            throw new Error("Failed to analyze competitor data.");
+            throw new Error("Failed to analyze competitor data.", { cause: error });
         }
-    });
+    }, options));
 }
 
-export async function findEeatSources(topic: string): Promise<EeatSource[]> {
-    return withRetry(async () => {
-        const prompt = `
-            You are a research assistant building E-E-A-T (Experience, Expertise, Authoritativeness, Trustworthiness) for a blog post about "${topic}".
-
-            Find 3-4 highly authoritative, non-commercial sources that can be cited to back up claims. 
-            **Priority Sources:**
-            1.  Original Research / Studies / Statistics.
-            2.  Government (.gov) or Academic (.edu) publications.
-            3.  Recognized Industry Standards bodies.
-
-            **Exclude:** Generic blogs, competitors, or sales pages.
-
-            For each source, provide:
-            1. "title"
-            2. "url"
-            3. "summary": A single string sentence explaining exactly what data point or insight this source provides. Do NOT return an object.
-
-            Respond with ONLY a valid JSON array of objects.
-        `;
+export async function findEeatSources(topic: string, options: RequestOptions = {}): Promise<EeatSource[]> {
+    return runTask({ id: 'eeatSources', label: 'Finding E-E-A-T sources', summarize: sources => `${sources.length} sources` }, options, options => withModelFallback('sources', async choice => {
+        const prompt = renderPrompt('eeatSources', { topic });
         try {
-            const response = await ai.models.generateContent({
-                model: PRIMARY_MODEL,
-                contents: prompt,
-                config: {
-                    tools: [{ googleSearch: {} }],
+            const { value } = await runStructuredPrompt<EeatSource[]>(prompt, {
+                ...choice,
+                useSearch: true,
+            }, {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        title: { type: 'string' },
+                        url: { type: 'string' },
+                        summary: { type: 'string' },
+                    },
+                    required: ['title', 'url', 'summary'],
                 },
-            });
-            const jsonString = extractJson(response.text);
-            const parsed = JSON.parse(jsonString);
-            
-            // Safety map
-            return Array.isArray(parsed) ? parsed.map((s: any) => ({
-                title: s.title || "Source",
-                url: s.url || "#",
-                summary: typeof s.summary === 'object' ? JSON.stringify(s.summary) : String(s.summary || "")
-            })) : [];
+            }, options);
+            return value.map(({ title, url, summary }) => ({ title, url, summary }));
         } catch (error) {
             console.error("Error finding E-E-A-T sources:", error);
-            throw new Error("Failed to find E-E-A-T sources.");
+            throw new Error("Failed to find E-E-A-T sources.", { cause: error });
         }
-    });
+    }, options));
 }
 
 
 export async function generateKeywordStrategy(
     topic: string,
     rankedKeywords: RankedKeyword[],
-    callWebhook: (func: 'suggested_keywords', params: { keyword: string }) => Promise<any[]>
+    callWebhook: (func: 'suggested_keywords', params: { keyword: string }) => Promise<any[]>,
+    market?: Market,
+    options: RequestOptions = {}
 ): Promise<string[]> {
-    return withRetry(async () => {
+    return runTask({
+        id: market ? `keywordStrategy:${market.country}|${market.language}` : 'keywordStrategy',
+        label: market ? `Building the keyword strategy for ${market.language} (${market.country})` : 'Building the keyword strategy',
+        summarize: keywords => `${keywords.length} keywords`,
+    }, options, options => withModelFallback('keywords', async choice => {
         try {
+            // Keywords for another market must be what people there actually search, not a translation
+            const marketText = market
+                ? `The keywords MUST be written in ${market.language} and reflect how people in ${market.country} search for this topic.`
+                : '';
+
             // Step 1: Extract 3 seed keywords to ensure broad coverage
             // CRITICAL: User wants 1-2 words max for seeds to get long tail results
-            const seedPrompt = `
-                Identify 3 distinct, high-search-volume seed keywords (maximum 2 words each) related to the topic: "${topic}".
-                These will be used to query a keyword database.
-                Respond with ONLY a valid JSON array of strings. Example: ["keyword one", "keyword two", "keyword three"]
-            `;
+            const seedPrompt = renderPrompt('keywordSeeds', { topic, marketRules: marketText });
             
-            const seedResponse = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: seedPrompt,
-            });
             let seeds: string[] = [];
             try {
-                seeds = JSON.parse(extractJson(seedResponse.text));
+                seeds = (await runStructuredPrompt<string[]>(seedPrompt, {
+                    ...choice,
+                }, { ...STRING_LIST_SCHEMA, minItems: 1 }, options)).value;
             } catch (e) {
+                // A cancelled run stops here instead of carrying on with the fallback seed
+                if (options.signal?.aborted) throw e;
                 seeds = [topic.split(' ').slice(0, 2).join(' ')]; 
+                reportNote(options, 'Seed keyword extraction failed, falling back to the topic');
             }
+            reportNote(options, `Seed keywords: ${seeds.slice(0, 3).join(', ')}`);
 
             // Step 2: Call the webhook multiple times in parallel for richer data
             let allSuggestions: any[] = [];
@@ -306,6 +355,7 @@ export async function generateKeywordStrategy(
                  const promises = limitedSeeds.map(seed => 
                     callWebhook('suggested_keywords', { keyword: seed })
                         .catch(err => {
+                            if (options.signal?.aborted) throw err;
                             console.warn(`Keyword lookup failed for seed "${seed}":`, err);
                             return [];
                         })
@@ -315,157 +365,92 @@ export async function generateKeywordStrategy(
             }
 
             // Step 3: AI Selection
-            const selectionPrompt = `
-                Topic: "${topic}"
-                
-                Goal: Select 10 target keywords including long-tail questions.
-                
-                Available Data:
-                1. Tool Suggestions (from seeds: ${seeds.join(', ')}): ${JSON.stringify(allSuggestions.slice(0, 50))}
-                2. Existing Rankings: ${JSON.stringify(rankedKeywords.map(k => k.keyword).slice(0, 20))}
-
-                Instructions:
-                - Prioritize high-volume, long-tail keywords.
-                - Include question-based keywords ("How to...", "What is...").
-                - If tool data is missing, infer high-value keywords based on search logic.
-
-                Respond with ONLY a valid JSON array of 10 keyword strings.
-            `;
-
-            const finalKeywordsResponse = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: selectionPrompt,
-                config: {
-                    tools: [{ googleSearch: {} }],
-                },
+            const selectionPrompt = renderPrompt('keywordSelection', {
+                topic,
+                seeds: seeds.join(', '),
+                toolSuggestions: JSON.stringify(allSuggestions.slice(0, 50)),
+                existingRankings: JSON.stringify(rankedKeywords.map(k => k.keyword).slice(0, 20)),
+                marketRules: marketText ? `- ${marketText}` : '',
             });
-            const jsonString = extractJson(finalKeywordsResponse.text);
-            return JSON.parse(jsonString);
+
+            const { value } = await runStructuredPrompt<string[]>(selectionPrompt, {
+                ...choice,
+                useSearch: true,
+            }, { ...STRING_LIST_SCHEMA, minItems: 1 }, options);
+            return value;
 
         } catch (error) {
             console.error("Error generating keyword strategy:", error);
-            throw new Error("Failed to generate a keyword strategy.");
+            throw new Error("Failed to generate a keyword strategy.", { cause: error });
         }
-    });
+    }, options));
 }
 
 
-export async function generateOutlineSuggestions(topic: string): Promise<string[]> {
-    return withRetry(async () => {
+export async function generateOutlineSuggestions(topic: string, options: RequestOptions = {}): Promise<string[]> {
+    return runTask({ id: 'outlineSuggestions', label: 'Suggesting outline structures', summarize: suggestions => `${suggestions.length} suggestions` }, options, options => withModelFallback('researchAssist', async choice => {
         try {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: `For the topic "${topic}", suggest 3 structural approaches that follow the **Answer-First (Inverted Pyramid)** model for Generative Engine Optimization.
-                
-                Examples: 
-                - "Definitive Guide (Definition + Steps + Data)"
-                - "Comparative Analysis (Table-heavy + Pros/Cons)"
-                - "Problem/Solution (Direct Answer + Detailed Walkthrough)"
-                
-                Respond with a valid JSON array of 3 string titles describing the structure.`,
-            });
-            const jsonString = extractJson(response.text);
-            return JSON.parse(jsonString);
+            const prompt = renderPrompt('outlineSuggestions', { topic });
+            const { value } = await runStructuredPrompt<string[]>(prompt, {
+                ...choice,
+            }, STRING_LIST_SCHEMA, options);
+            return value;
         } catch (error) {
             console.error("Error generating outline suggestions:", error);
-            throw new Error("Failed to generate outline suggestions.");
+            throw new Error("Failed to generate outline suggestions.", { cause: error });
         }
-    });
+    }, options));
 }
 
-export async function selectRelevantInternalLinks(topic: string, allLinks: InternalLink[]): Promise<InternalLink[]> {
-    return withRetry(async () => {
-        const prompt = `
-            You are building a "Content Cluster" to establish Topical Authority.
-            
-            Main Topic: "${topic}"
-            
-            Task: Select 3-5 internal links from the list below that are logically related to the main topic. These will be used to build a "hub and spoke" model.
-            
-            List:
-            ${allLinks.map(link => `- ${link.title} (${link.url})`).join('\n')}
-
-            Respond with a valid JSON array of objects ({title, url}).
-        `;
+export async function selectRelevantInternalLinks(topic: string, allLinks: InternalLink[], options: RequestOptions = {}): Promise<InternalLink[]> {
+    return runTask({ id: 'internalLinkSelection', label: 'Selecting relevant internal links', summarize: links => `${links.length} of ${allLinks.length} links` }, options, options => withModelFallback('researchAssist', async choice => {
+        const prompt = renderPrompt('internalLinkSelection', {
+            topic,
+            links: allLinks.map(link => `- ${link.title} (${link.url})`).join('\n'),
+        });
 
         try {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.ARRAY,
-                        items: {
-                            type: Type.OBJECT,
-                            properties: {
-                                title: { type: Type.STRING },
-                                url: { type: Type.STRING }
-                            },
-                            required: ["title", "url"]
-                        }
+            return await runJsonPrompt<InternalLink[]>(prompt, {
+                ...choice,
+                schema: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            title: { type: 'string' },
+                            url: { type: 'string' }
+                        },
+                        required: ["title", "url"]
                     }
                 }
-            });
-            return JSON.parse(response.text);
+            }, options);
         } catch (error) {
             console.error("Error selecting relevant internal links:", error);
             return [];
         }
-    });
+    }, options));
 }
 
 
-export async function generateOutline(topic: string, keywords: string[], competitors: Omit<CompetitorInfo, 'url'>[], internalLinks: InternalLink[]): Promise<string[]> {
-    return withRetry(async () => {
-        const prompt = `
-            Create a detailed, GEO-optimized blog post outline for: '${topic}'.
-            
-            **Strategy: The AI-Citable Blog**
-            1.  **Answer-First / Inverted Pyramid:** The very first section after the Intro must provide the direct answer, summary, or definition that a user (or AI) is looking for.
-            2.  **E-E-A-T:** Include specific sections for "Key Takeaways", "Expert Analysis", or "Data Breakdown".
-            3.  **Machine Readability:** Plan for sections that will use Lists or Tables.
-            
-            Target Keywords: ${keywords.join(', ')}
-            
-            Competitor Context (Beat these):
-            ${competitors.map(c => `- ${c.title}: ${c.summary}`).join('\n')}
-            
-            Internal Links to Weave In:
-            ${internalLinks.map(l => `- ${l.title} (${l.url})`).join('\n')}
-
-            Format:
-            - Provide clean descriptive section titles only.
-            - **PROHIBITED:** Do NOT include "H2", "H3", "Section:" or numeric prefixes in the strings.
-            - Use indentation (2 spaces) to denote hierarchy.
-
-            Example structure:
-            - Introduction (Hook + Thesis)
-            - Direct Answer / Core Definition
-            - Main Point 1
-              - Detail for Point 1
-            - Conclusion
-
-            Respond with a valid JSON array of strings.
-        `;
+export async function generateOutline(topic: string, keywords: string[], competitors: Omit<CompetitorInfo, 'url'>[], internalLinks: InternalLink[], styleGuide?: StyleGuide | null, options: RequestOptions = {}): Promise<string[]> {
+    return runTask({ id: 'outline', label: 'Writing the outline', summarize: outline => `${outline.length} headings` }, options, options => withModelFallback('outline', async choice => {
+        const prompt = renderPrompt('outline', {
+            topic,
+            keywords: keywords.join(', '),
+            competitors: competitors.map(c => `- ${c.title}: ${c.summary}`).join('\n'),
+            internalLinks: internalLinks.map(l => `- ${l.title} (${l.url})`).join('\n'),
+            styleGuide: formatStyleGuidePrompt(styleGuide),
+        });
         try {
-            const response = await ai.models.generateContent({
-                model: PRIMARY_MODEL,
-                contents: prompt,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.ARRAY,
-                        items: { type: Type.STRING }
-                    }
-                }
-            });
-            return JSON.parse(response.text);
+            return await runJsonPrompt<string[]>(prompt, {
+                ...choice,
+                schema: STRING_LIST_SCHEMA
+            }, options);
         } catch (error) {
             console.error("Error generating outline:", error);
-            throw new Error("Failed to generate the article outline.");
+            throw new Error("Failed to generate the article outline.", { cause: error });
         }
-    });
+    }, options));
 }
 
 export async function refineOutlineWithAI(
@@ -473,56 +458,33 @@ export async function refineOutlineWithAI(
     topic: string, 
     keywords: string[], 
     competitors: Omit<CompetitorInfo, 'url'>[], 
-    internalLinks: InternalLink[]
+    internalLinks: InternalLink[],
+    styleGuide?: StyleGuide | null,
+    options: RequestOptions = {}
 ): Promise<string[]> {
-    return withRetry(async () => {
-        const prompt = `
-            Refine this outline to maximize "Generative Engine Optimization" (GEO) and E-E-A-T.
-
-            Topic: '${topic}'
-            
-            Checklist for refinement:
-            1.  **Is the "Direct Answer" prominent near the top?**
-            2.  **Are there opportunities for Tables or structured lists?** (Add notes like "[Table: comparison of x and y]" if missing).
-            3.  **Does it cover the 'People Also Ask' questions implied by the keywords:** ${keywords.slice(0,5).join(', ')}?
-            4.  **Does it demonstrate depth of expertise?**
-
-            Current Outline:
-            ---
-            ${currentOutline}
-            ---
-            
-            **Strict Formatting:**
-            - Return ONLY strings representing the sections.
-            - Do NOT include "H2" or "H3" labels.
-            - Keep indentation for hierarchy.
-
-            Respond with the improved JSON array of strings.
-        `;
+    return runTask({ id: 'outlineRefinement', label: 'Refining the outline', summarize: outline => `${outline.length} headings` }, options, options => withModelFallback('outline', async choice => {
+        const prompt = renderPrompt('outlineRefinement', {
+            topic,
+            keywords: keywords.slice(0,5).join(', '),
+            currentOutline,
+            styleGuide: formatStyleGuidePrompt(styleGuide),
+        });
         try {
-            const response = await ai.models.generateContent({
-                model: PRIMARY_MODEL,
-                contents: prompt,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.ARRAY,
-                        items: { type: Type.STRING }
-                    }
-                }
-            });
-            return JSON.parse(response.text);
+            return await runJsonPrompt<string[]>(prompt, {
+                ...choice,
+                schema: STRING_LIST_SCHEMA
+            }, options);
         } catch (error) {
             console.error("Error refining outline:", error);
-            throw new Error("Failed to refine the article outline with AI.");
+            throw new Error("Failed to refine the article outline with AI.", { cause: error });
         }
-    });
+    }, options));
 }
 
 
-export async function generateLongFormContent(prompt: string, internalLinks: InternalLink[]) {
-    // Wrapped in model fallback logic - Primary is Gemini 3.0 Pro
-    return await withModelFallback(async (model) => {
+export async function generateLongFormContent(prompt: string, internalLinks: InternalLink[], styleGuide?: StyleGuide | null, options: RequestOptions = {}) {
+    // Falls back down the drafting chain, primary then fast by default
+    return runTask({ id: 'longFormArticle', label: 'Starting the article' }, options, options => withModelFallback('drafting', async choice => {
         const internalLinksText = internalLinks.length > 0
             ? `
             INTEGRATION INSTRUCTION:
@@ -533,432 +495,554 @@ export async function generateLongFormContent(prompt: string, internalLinks: Int
             : '';
 
         try {
-            const textPrompt = `
-                ${prompt}
-                ${internalLinksText}
-
-                **MANDATORY WRITING GUIDELINES (STRICT):**
-
-                1.  **Pure Markdown Output Only:** 
-                    - **NO FILLER:** Do NOT include ANY introductory text like "Here is the article", "Here is a draft", "Sure, I can help".
-                    - **NO HEADER LABELS:** Do NOT use words like "H1", "H2", "H3", "Title:", "Section:". **ONLY** use standard Markdown hash symbols (#, ##, ###) for headers.
-                      - **CORRECT:** ## The Benefits of Yoga
-                      - **INCORRECT:** H2: The Benefits of Yoga
-                      - **INCORRECT:** **H2** The Benefits of Yoga
-                    - **Title:** The output must start immediately with the # Title.
-
-                2.  **The "Answer-First" Mandate:** 
-                    - The very first paragraph must be a **Direct Answer**, Definition, or clear Summary of the solution. This allows AI to cite the top of the article.
-
-                3.  **Format for Machine Readability:**
-                    - **Structure:** Use ## for main sections and ### for subsections.
-                    - **Content Flow:** Every ## Header MUST be followed by introductory text (1-2 paragraphs) before any nested ### headers appear.
-                    - **Paragraphs:** Keep them short (2-3 sentences max).
-                    - **Keywords:** Use **bolding** for core concepts.
-                    - **Lists:** Use bullet points liberally.
-                    - **Tables:** You MUST include at least one Markdown data table.
-
-                4.  **Voice & Tone:**
-                    - Write as a seasoned expert. Authoritative but conversational.
-
-                5.  **Visuals:**
-                    - Include placeholders: \`[IMAGE: detailed prompt]\` or \`[GRAPH: description]\`.
-
-                Stream the content now.
-            `;
-            return await ai.models.generateContentStream({
-                model: model,
-                contents: textPrompt,
+            const textPrompt = renderPrompt('longFormArticle', {
+                brief: prompt,
+                internalLinks: internalLinksText,
+                voice: styleGuide?.brandVoice.trim() || 'Write as a seasoned expert. Authoritative but conversational.',
+                styleGuide: formatStyleGuidePrompt(styleGuide),
+            });
+            const stream = await getProvider().streamText({
+                ...choice,
+                prompt: textPrompt.text,
+                signal: options.signal,
             });
+            recordGeneration(textPrompt, choice.model);
+            return stream;
         } catch (error) {
-            console.error(`Error generating content with model ${model}:`, error);
+            console.error(`Error generating content with model ${choice.model}:`, error);
             throw error; // Propagate to fallback handler
         }
-    });
+    }, options));
 }
 
-export async function reviewArticle(draft: string): Promise<string> {
-    return await withModelFallback(async (model) => {
-        const prompt = `
-            You are an expert Editor preparing this content for WordPress publication.
-
-            **Your Task:** Clean and Polish the Markdown draft.
+export async function reviewArticle(draft: string, styleGuide?: StyleGuide | null, options: RequestOptions = {}): Promise<string> {
+    return runReview(draft, styleGuide, options);
+}
 
-            **CRITICAL RULES - REMOVE ALL FILLER:**
-            1.  **Delete Labels:** Remove any text that explicitly labels the section type (e.g. "H1", "H2", "H3", "Title:", "Introduction:", "Section:"). 
-                - Transform "H2: Title" to "## Title".
-                - Transform "Section: Title" to "## Title".
-            2.  **Delete Meta-Talk:** Remove any intro/outro text from the AI (e.g. "Here is the generated blog post...", "I hope this helps"). The output must start with the # Title and end with the final paragraph.
-            3.  **Fix Hierarchy:** Ensure ## Headers are never immediately followed by ### Headers. Insert a summary sentence if text is missing between headers.
-            4.  **Fix Spacing:** Ensure there is a blank line before and after every table, code block, and list.
-            5.  **Preserve:** Keep all internal links and [IMAGE] placeholders exactly as they are.
+/**
+ * Same as reviewArticle, passing the reviewed article so far to `onPartial` as it is written.
+ * A fallback model starts the text over.
+ */
+export async function streamReviewArticle(draft: string, styleGuide: StyleGuide | null | undefined, onPartial: PartialTextHandler, options: RequestOptions = {}): Promise<string> {
+    return runReview(draft, styleGuide, options, onPartial);
+}
 
-            Draft to Review:
-            ---
-            ${draft}
-            ---
+async function runReview(draft: string, styleGuide: StyleGuide | null | undefined, options: RequestOptions, onPartial?: PartialTextHandler): Promise<string> {
+    return runTask({ id: 'articleReview', label: 'Reviewing the draft' }, options, options => withModelFallback('review', async choice => {
+        const prompt = renderPrompt('articleReview', {
+            styleGuideRule: styleGuide ? '6.  **Enforce the style guide below:** Rewrite any sentence that breaks it (banned words, spelling variant, reading level).' : '',
+            styleGuide: formatStyleGuidePrompt(styleGuide),
+            draft,
+        });
+        try {
+            const response = await completeTextPrompt(prompt, {
+                ...choice,
+            }, options, onPartial);
+            return response.trim();
+        } catch (error) {
+            console.error(`Error reviewing article with model ${choice.model}:`, error);
+            throw error;
+        }
+    }, options));
+}
 
-            Return ONLY the final cleaned Markdown.
-        `;
+export async function localizeArticle(draft: string, market: Market, keywords: string[], styleGuide?: StyleGuide | null, options: RequestOptions = {}): Promise<string> {
+    return runTask({ id: `localization:${market.country}|${market.language}`, label: `Localizing for ${market.language} (${market.country})` }, options, options => withModelFallback('localization', async choice => {
+        const prompt = renderPrompt('localization', {
+            language: market.language,
+            country: market.country,
+            keywords: keywords.length > 0 ? keywords.join(', ') : 'infer the most searched local terms for the topic',
+            styleGuide: formatStyleGuidePrompt(styleGuide),
+            draft,
+        });
         try {
-            const response = await ai.models.generateContent({
-                model: model,
-                contents: prompt,
-            });
+            const response = await runTextPrompt(prompt, {
+                ...choice,
+            }, options);
             return response.text.trim();
         } catch (error) {
-            console.error(`Error reviewing article with model ${model}:`, error);
+            console.error(`Error localizing article for ${market.language} (${market.country}) with model ${choice.model}:`, error);
             throw error;
         }
-    });
+    }, options));
 }
 
+const CONTEXTUAL_TASKS: Record<'TEXT' | 'IMAGE' | 'GRAPH' | 'TABLE', PromptId> = {
+    TEXT: 'insertParagraph',
+    IMAGE: 'insertImage',
+    GRAPH: 'insertGraph',
+    TABLE: 'insertTable',
+};
+
 export async function generateContextualAddition(
     prevContext: string, 
     nextContext: string, 
-    type: 'TEXT' | 'IMAGE' | 'GRAPH' | 'TABLE'
+    type: 'TEXT' | 'IMAGE' | 'GRAPH' | 'TABLE',
+    styleGuide?: StyleGuide | null,
+    options: RequestOptions = {}
 ): Promise<string> {
-    return await withModelFallback(async (model) => {
+    return runContextualAddition(prevContext, nextContext, type, styleGuide, options);
+}
+
+/**
+ * Same as generateContextualAddition, passing the text so far to `onPartial` as it is written.
+ * Image and graph placeholders are only wrapped once complete.
+ */
+export async function streamContextualAddition(
+    prevContext: string,
+    nextContext: string,
+    type: 'TEXT' | 'IMAGE' | 'GRAPH' | 'TABLE',
+    styleGuide: StyleGuide | null | undefined,
+    onPartial: PartialTextHandler,
+    options: RequestOptions = {}
+): Promise<string> {
+    return runContextualAddition(prevContext, nextContext, type, styleGuide, options, onPartial);
+}
+
+async function runContextualAddition(
+    prevContext: string,
+    nextContext: string,
+    type: 'TEXT' | 'IMAGE' | 'GRAPH' | 'TABLE',
+    styleGuide: StyleGuide | null | undefined,
+    options: RequestOptions,
+    onPartial?: PartialTextHandler
+): Promise<string> {
+    return runTask({ id: 'contextualAddition', label: `Generating ${type.toLowerCase()} content` }, options, options => withModelFallback('drafting', async choice => {
         try {
-            const prompt = `
-                You are a content assistant. 
-                Context Before: "...${prevContext.slice(-300)}..."
-                Context After: "...${nextContext.slice(0, 300)}..."
-                
-                Task:
-                ${type === 'TEXT' ? 'Write a single bridging paragraph (2-3 sentences) that naturally connects the context before to the context after. Maintain the same tone.' : ''}
-                ${type === 'IMAGE' ? 'Generate a specific, descriptive prompt for an image that would fit perfectly between these two sections. Return ONLY the prompt text.' : ''}
-                ${type === 'GRAPH' ? 'Generate a description for a data visualization, chart, or graph that would illustrate the point being made. Return ONLY the description.' : ''}
-                ${type === 'TABLE' ? 'Generate a Markdown data table that organizes relevant information from the context or adds value (e.g. Pros/Cons, Features, Comparisons). Return ONLY the markdown table.' : ''}
-                
-                Do not include "Here is the text" or quotes. Just the content.
-            `;
-
-            const response = await ai.models.generateContent({
-                model: model,
-                contents: prompt,
+            const prompt = renderPrompt('contextualAddition', {
+                before: prevContext.slice(-300),
+                after: nextContext.slice(0, 300),
+                task: renderPrompt(CONTEXTUAL_TASKS[type], {}).text,
+                styleGuide: type === 'TEXT' || type === 'TABLE' ? formatStyleGuidePrompt(styleGuide) : '',
             });
+
+            const response = await completeTextPrompt(prompt, {
+                ...choice,
+            }, options, onPartial);
             
-            let result = response.text.trim();
+            let result = response.trim();
             if (type === 'IMAGE') return `[IMAGE: ${result}]`;
             if (type === 'GRAPH') return `[GRAPH: ${result}]`;
             return result;
 
         } catch (error) {
-            console.error(`Error generating contextual addition with model ${model}:`, error);
+            console.error(`Error generating contextual addition with model ${choice.model}:`, error);
             throw error;
         }
+    }, options));
+}
+
+// What the draft assistant's tools can see besides their arguments
+interface ChatToolContext {
+    appState: Pick<AppState, 'websiteUrl' | 'country' | 'language'>;
+    sections: DraftSection[];
+}
+
+// Tools the draft assistant may call, and how each is run
+const CHAT_TOOLS: { declaration: ToolDeclaration; run: (args: Record<string, unknown>, context: ChatToolContext, options: RequestOptions) => Promise<unknown> }[] = [
+    {
+        declaration: {
+            name: 'get_keyword_data',
+            description: 'Get search volume and competition data for a keyword.',
+            parameters: {
+                type: 'object',
+                properties: { keyword: { type: 'string' } },
+                required: ['keyword']
+            }
+        },
+        run: (args, { appState }, options) => callWebhookTool('suggested_keywords', appState, { keyword: String(args.keyword ?? '') }, options),
+    },
+    {
+        declaration: {
+            name: 'analyze_url',
+            description: 'Analyze a specific URL for content gaps or data.',
+            parameters: {
+                type: 'object',
+                properties: { url: { type: 'string' } },
+                required: ['url']
+            }
+        },
+        run: (args, { appState }, options) => callWebhookTool('url_scrape', appState, { url: String(args.url ?? '') }, options),
+    },
+    {
+        declaration: {
+            name: 'read_section',
+            description: 'Read the current text of a draft section that was not included with the message. Use a section ID from the outline.',
+            parameters: {
+                type: 'object',
+                properties: { sectionId: { type: 'string' } },
+                required: ['sectionId']
+            }
+        },
+        run: async (args, { sections }) => {
+            const section = sections.find(s => s.id === args.sectionId);
+            if (!section) throw new Error(`There is no section "${args.sectionId}". Use an ID from the outline.`);
+            return formatSection(section);
+        },
+    },
+];
+
+// Model turns that may call tools before the assistant has to answer
+const MAX_CHAT_STEPS = 5;
+
+const PROPOSE_EDITS_TOOL = 'propose_edits';
+
+// Declared per message so the block IDs the model may target are the ones in the draft right now
+const proposeEditsDeclaration = (blocks: DraftBlock[]): ToolDeclaration => ({
+    name: PROPOSE_EDITS_TOOL,
+    description: 'Propose changes to the draft. Each edit is shown to the user as a diff they can accept or reject; nothing changes until they accept it.',
+    parameters: {
+        type: 'object',
+        properties: {
+            edits: {
+                type: 'array',
+                minItems: 1,
+                items: {
+                    type: 'object',
+                    properties: {
+                        op: { type: 'string', enum: ['replace', 'insert_after', 'delete', 'retitle'] },
+                        blockId: { type: 'string', enum: blocks.map(b => b.id), description: 'The block to replace, insert after or delete. Not used by retitle.' },
+                        content: { type: 'string', description: 'Markdown of the new block for replace and insert_after.' },
+                        title: { type: 'string', description: 'The new article title for retitle.' },
+                    },
+                    required: ['op']
+                }
+            }
+        },
+        required: ['edits']
+    }
+});
+
+/**
+ * Turns the arguments of a propose_edits call into patches against the given draft.
+ * Edits that name a missing block or leave out their text are reported back instead.
+ */
+function parseDraftPatches(args: Record<string, unknown>, draft: { title: string; blocks: DraftBlock[] }, idPrefix: string): { patches: DraftPatch[]; errors: string[] } {
+    const patches: DraftPatch[] = [];
+    const errors: string[] = [];
+    const edits = Array.isArray(args.edits) ? args.edits : [];
+    edits.forEach((edit: any, i) => {
+        const id = `${idPrefix}:${i}`;
+        const op = String(edit?.op ?? '');
+        const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+        if (op === 'retitle') {
+            const title = text(edit.title).replace(/^#\s*/, '');
+            if (title) patches.push({ id, op, before: draft.title, title });
+            else errors.push(`Edit ${i + 1}: retitle needs a title.`);
+            return;
+        }
+        const block = draft.blocks.find(b => b.id === edit?.blockId);
+        if (!block) {
+            errors.push(`Edit ${i + 1}: there is no block "${edit?.blockId}".`);
+            return;
+        }
+        const content = text(edit.content);
+        if (op === 'delete') {
+            patches.push({ id, op, blockId: block.id, before: block.content });
+        } else if ((op === 'replace' || op === 'insert_after') && content) {
+            patches.push({ id, op, blockId: block.id, before: block.content, content });
+        } else {
+            errors.push(op === 'replace' || op === 'insert_after' ? `Edit ${i + 1}: ${op} needs content.` : `Edit ${i + 1}: unknown op "${op}".`);
+        }
     });
+    return { patches, errors };
+}
+
+// Characters of draft text sent with each message, picked from the sections that match it best
+const CHAT_CONTEXT_CHARS = 10000;
+// User messages, with the model and tool turns that answered them, kept in a chat session
+const MAX_SESSION_MESSAGES = 10;
+
+/**
+ * The draft chat's conversation, kept between messages so earlier answers and tool results stay in
+ * context without being rebuilt from the chat panel every turn.
+ */
+export interface DraftChatSession {
+    turns: ChatTurn[];
+}
+
+export const createDraftChatSession = (): DraftChatSession => ({ turns: [] });
+
+// Drops the oldest messages, always at a user turn so tool calls stay next to their results
+function trimSession(turns: ChatTurn[]): ChatTurn[] {
+    const userTurns = turns.flatMap((turn, i) => turn.role === 'user' ? [i] : []);
+    return userTurns.length > MAX_SESSION_MESSAGES ? turns.slice(userTurns[userTurns.length - MAX_SESSION_MESSAGES]) : turns;
 }
 
+/**
+ * Answers a message about the draft. The model gets the outline of the whole article and the
+ * sections that match the message, and can read the others with a tool. Rewrites come back as
+ * patches for the user to review rather than as text to copy into the blocks.
+ * The session is only extended once the answer is complete.
+ */
 export async function chatWithDraft(
-    currentDraft: string,
-    chatHistory: { role: 'user' | 'model'; text: string }[],
+    session: DraftChatSession,
+    draft: { title: string; blocks: DraftBlock[] },
     userMessage: string,
-    appState: { websiteUrl: string, country: string, language: string }
-): Promise<string> {
-    return await withModelFallback(async (model) => {
-        try {
-            // Define tools for the chat
-            const webhookTool: Tool = {
-                functionDeclarations: [
-                    {
-                        name: 'get_keyword_data',
-                        description: 'Get search volume and competition data for a keyword.',
-                        parameters: {
-                            type: Type.OBJECT,
-                            properties: { keyword: { type: Type.STRING } },
-                            required: ['keyword']
-                        }
-                    },
-                    {
-                        name: 'analyze_url',
-                        description: 'Analyze a specific URL for content gaps or data.',
-                        parameters: {
-                            type: Type.OBJECT,
-                            properties: { url: { type: Type.STRING } },
-                            required: ['url']
-                        }
-                    }
-                ]
-            };
+    appState: Pick<AppState, 'websiteUrl' | 'country' | 'language' | 'styleGuide'>,
+    onToolInvocation: (invocation: ChatToolInvocation) => void = () => {},
+    options: RequestOptions = {}
+): Promise<{ text: string; patches: DraftPatch[] }> {
+    return runDraftChat(session, draft, userMessage, appState, onToolInvocation, options);
+}
 
-            const chat = ai.chats.create({
-                model: model,
-                config: {
-                    tools: [webhookTool, { googleSearch: {} }],
-                    systemInstruction: `You are an expert Content Editor assistant. 
-                    You have access to the full article draft.
-                    User will ask you to modify the draft or answer questions about it.
-                    
-                    If the user asks to "Rewrite" or "Add" something, you must output the SPECIFIC section of markdown that changed, or the whole article if requested.
-                    If the user asks for data, use the available tools.
-                    
-                    Current Draft Context (Reference only, do not output unless asked):
-                    ${currentDraft.substring(0, 10000)}... (truncated if too long)
-                    `
-                },
-                history: chatHistory.map(h => ({
-                    role: h.role,
-                    parts: [{ text: h.text }]
-                }))
-            });
+/**
+ * Same as chatWithDraft, passing the answer so far to `onPartial` as it is written.
+ * Each model turn starts the text over, so text written before a tool call is replaced by the answer.
+ */
+export async function streamChatWithDraft(
+    session: DraftChatSession,
+    draft: { title: string; blocks: DraftBlock[] },
+    userMessage: string,
+    appState: Pick<AppState, 'websiteUrl' | 'country' | 'language' | 'styleGuide'>,
+    onPartial: PartialTextHandler,
+    onToolInvocation: (invocation: ChatToolInvocation) => void = () => {},
+    options: RequestOptions = {}
+): Promise<{ text: string; patches: DraftPatch[] }> {
+    return runDraftChat(session, draft, userMessage, appState, onToolInvocation, options, onPartial);
+}
 
-            const result = await chat.sendMessage({ message: userMessage });
-            
-            // Handle function calls
-            const toolCalls = result.functionCalls;
-            if (toolCalls && toolCalls.length > 0) {
-                // Simple handling: Execute first tool call and send back to model
-                const call = toolCalls[0];
-                let toolResult = "";
-                
-                if (call.name === 'get_keyword_data') {
-                     const data = await callWebhookTool('suggested_keywords', appState, { keyword: call.args.keyword as string });
-                     toolResult = JSON.stringify(data);
-                } else if (call.name === 'analyze_url') {
-                     const data = await callWebhookTool('url_scrape', appState, { url: call.args.url as string });
-                     toolResult = JSON.stringify(data);
-                }
+async function runDraftChat(
+    session: DraftChatSession,
+    draft: { title: string; blocks: DraftBlock[] },
+    userMessage: string,
+    appState: Pick<AppState, 'websiteUrl' | 'country' | 'language' | 'styleGuide'>,
+    onToolInvocation: (invocation: ChatToolInvocation) => void,
+    options: RequestOptions,
+    onPartial?: PartialTextHandler
+): Promise<{ text: string; patches: DraftPatch[] }> {
+    // Invocation ids stay the same if a fallback model runs the conversation again, so the chat updates them in place
+    const runId = generateId('chat');
+    return runTask({ id: 'draftChat', label: 'Answering your message' }, options, options => withModelFallback('chat', async choice => {
+        try {
+            const sections = indexDraft(draft.blocks);
+            // The latest user message is also searched so follow-ups like "shorten it" find the same sections
+            const previousMessage = [...session.turns].reverse().find(turn => turn.role === 'user');
+            const relevant = retrieveSections(sections, `${userMessage} ${previousMessage?.role === 'user' ? previousMessage.text : ''}`, CHAT_CONTEXT_CHARS);
+            reportNote(options, `Reading ${relevant.length} of ${sections.length} sections`);
+
+            const tools = [...CHAT_TOOLS.map(tool => tool.declaration), proposeEditsDeclaration(draft.blocks)];
+            const prompt = renderPrompt('draftChat', {
+                styleGuide: formatStyleGuidePrompt(appState.styleGuide),
+                title: draft.title,
+                outline: formatOutline(sections),
+            });
+            const patches: DraftPatch[] = [];
+            const systemInstruction = prompt.text;
+            const context = relevant.map(formatSection).join('\n\n').substring(0, CHAT_CONTEXT_CHARS);
+            // The session keeps the message as typed; the draft text is only sent with the message it was retrieved for
+            const userTurn: ChatTurn = { role: 'user', text: userMessage };
+            let turns: ChatTurn[] = [];
+            const request = (extra: ChatTurn[] = []): ChatTurn[] => [
+                ...session.turns,
+                { role: 'user', text: `${userMessage}\n\nCurrent text of the relevant sections:\n\n${context}` },
+                ...turns,
+                ...extra,
+            ];
+            // Streams one model turn's text, starting over from empty
+            const streamTurn = () => {
+                if (!onPartial) return undefined;
+                let text = '';
+                onPartial(text);
+                return (chunk: string) => onPartial(text += chunk);
+            };
+            const finish = (text: string) => {
+                session.turns = trimSession([...session.turns, userTurn, ...turns, { role: 'model', text: text || `Proposed ${patches.length} edits.` }]);
+                return { text, patches };
+            };
 
-                const nextResponse = await chat.sendMessage({
-                    parts: [{
-                        functionResponse: {
-                            name: call.name,
-                            response: { result: toolResult }
-                        }
-                    }]
-                });
-                return nextResponse.text;
+            for (let step = 0; step < MAX_CHAT_STEPS; step++) {
+                const result = await getProvider().generateWithTools({ ...choice, systemInstruction, turns: request(), tools, useSearch: true, signal: options.signal, onText: streamTurn() });
+                if (step === 0) recordGeneration(prompt, choice.model);
+                if (result.toolCalls.length === 0) return finish(result.text);
+
+                // Parallel calls in one turn run together and are answered together
+                reportNote(options, `Calling ${result.toolCalls.map(call => call.name).join(', ')}`);
+                const results = await Promise.all(result.toolCalls.map(async (call, i): Promise<ToolResult> => {
+                    // Proposed edits are shown as patches rather than as a tool call
+                    if (call.name === PROPOSE_EDITS_TOOL) {
+                        const parsed = parseDraftPatches(call.args, draft, `${runId}:${step}:${i}`);
+                        patches.push(...parsed.patches);
+                        return { callId: call.id, name: call.name, result: JSON.stringify({ proposed: parsed.patches.length, rejected: parsed.errors }) };
+                    }
+                    const invocation: ChatToolInvocation = { id: `${runId}:${step}:${i}`, name: call.name, args: call.args, status: 'running' };
+                    onToolInvocation(invocation);
+                    const tool = CHAT_TOOLS.find(candidate => candidate.declaration.name === call.name);
+                    try {
+                        if (!tool) throw new Error(`Unknown tool "${call.name}".`);
+                        const output = JSON.stringify(await tool.run(call.args, { appState, sections }, options));
+                        onToolInvocation({ ...invocation, status: 'done', result: output });
+                        return { callId: call.id, name: call.name, result: output };
+                    } catch (error: any) {
+                        if (options.signal?.aborted) throw error;
+                        // The model is told about the failure so it can answer without the data or try something else
+                        onToolInvocation({ ...invocation, status: 'failed', result: error.message });
+                        return { callId: call.id, name: call.name, result: `Error: ${error.message}` };
+                    }
+                }));
+                turns = [
+                    ...turns,
+                    { role: 'model', text: result.text, toolCalls: result.toolCalls },
+                    { role: 'tool', results },
+                ];
             }
 
-            return result.text;
+            reportNote(options, `Stopped after ${MAX_CHAT_STEPS} tool steps`);
+            const final = await getProvider().generateWithTools({
+                ...choice,
+                systemInstruction,
+                turns: request([{ role: 'user', text: 'You have used all your tool calls. Answer my last message now with the information you already have.' }]),
+                tools,
+                signal: options.signal,
+                onText: streamTurn(),
+            });
+            return finish(final.text || (patches.length > 0 ? '' : "I gathered data with several tools but couldn't finish an answer. Try asking a narrower question."));
 
         } catch (error) {
             console.error("Chat error:", error);
             throw error; // Let fallback handle it if quota issue
         }
-    });
+    }, options));
 }
 
-export async function generateArticleImage(prompt: string): Promise<string> {
-    // Natural, authentic photography style prompt enforcement
-    const stylePrompt = "Authentic editorial photography, natural lighting, shot on 35mm film, minimal processing, photorealistic, highly detailed, cinematic composition. Wide angle 16:9 aspect ratio. Avoid oversaturated colors, avoid plastic skin textures, avoid surrealism, avoid 3D render styles, avoid AI-generated look.";
-    const enhancedPrompt = `${prompt} . ${stylePrompt}`;
-
-    // Method: Nano Banana (Gemini 2.5 Flash Image) - Fast & Reliable
-    // Explicitly using gemini-2.5-flash-image as per "Nano Banana Normal" request.
-    const tryNanoBanana = async () => {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts: [{ text: enhancedPrompt }] },
-        });
-        const parts = response.candidates?.[0]?.content?.parts;
-        if (parts) {
-            for (const part of parts) {
-                if (part.inlineData) {
-                     return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-                }
-            }
-        }
-        throw new Error("No image data from Nano Banana.");
-    };
-
-    // Fallback Method: Imagen 4.0 (Imagen 3)
-    const tryImagen4 = async () => {
-        console.log("Falling back to Imagen 4.0...");
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
-            prompt: enhancedPrompt,
-            config: {
-                numberOfImages: 1,
-                aspectRatio: '16:9', // Perfect for WordPress Featured Image
-            },
-        });
-        const base64 = response.generatedImages?.[0]?.image?.imageBytes;
-        if (base64) {
-            return `data:image/png;base64,${base64}`;
-        }
-        throw new Error("No image data from Imagen 4.0.");
-    };
+// Leaves the provider's default image model unset so its built-in fallback still applies
+const imageModel = (choice: ModelChoice) => choice.model && choice.model !== getProvider().models.image ? choice.model : undefined;
 
-    try {
-        return await withRetry(tryNanoBanana, 1, 1000);
-    } catch (error: any) {
-        console.warn("Nano Banana failed, trying Imagen...", error);
-        return await withRetry(tryImagen4, 1, 2000);
-    }
+export async function generateArticleImage(prompt: string, options: RequestOptions = {}): Promise<string> {
+    // Natural, authentic photography style prompt enforcement
+    const enhancedPrompt = renderPrompt('articleImage', { prompt });
+
+    // For its default model the provider falls back on its own (Nano Banana, then Imagen, on Gemini)
+    return runTask({ id: 'articleImage', label: 'Generating an image' }, options, options => withModelFallback('image', async choice => {
+        const image = await getProvider().generateImage({ model: imageModel(choice), prompt: enhancedPrompt.text, aspectRatio: '16:9', signal: options.signal });
+        recordGeneration(enhancedPrompt, choice.model || 'image');
+        return image;
+    }, options));
 }
 
-export async function editArticleImage(base64Image: string, mimeType: string, prompt: string): Promise<string> {
-    // Editing currently supported best on Nano Banana via multimodel input
-    return withRetry(async () => {
-        const stylePrompt = "Ensure result looks like authentic editorial photography, natural lighting, photorealistic. Avoid AI-generated look.";
-        const enhancedPrompt = `${prompt} - ${stylePrompt}`;
-
-        const imagePart = {
-            inlineData: {
-                data: base64Image,
-                mimeType: mimeType,
-            },
-        };
-        const textPart = { text: enhancedPrompt };
+export async function editArticleImage(base64Image: string, mimeType: string, prompt: string, options: RequestOptions = {}): Promise<string> {
+    // Editing uses multimodal input (Nano Banana on Gemini)
+    return runTask({ id: 'imageEdit', label: 'Editing the image' }, options, options => withModelFallback('image', async choice => {
+        const enhancedPrompt = renderPrompt('imageEdit', { prompt });
 
         try {
-            // Use Flash Image for editing
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash-image',
-                contents: { parts: [imagePart, textPart] },
+            const image = await getProvider().generateImage({
+                prompt: enhancedPrompt.text,
+                sourceImage: { data: base64Image, mimeType },
+                model: imageModel(choice),
+                signal: options.signal,
             });
-            
-            const parts = response.candidates?.[0]?.content?.parts;
-            if (parts) {
-                for (const part of parts) {
-                    if (part.inlineData) {
-                        return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
-                    }
-                }
-            }
-            throw new Error("No image data received from API for editing.");
+            recordGeneration(enhancedPrompt, choice.model || 'image');
+            return image;
         } catch (error) {
             console.error("Error editing image:", error);
-            throw new Error("Failed to edit image.");
+            throw new Error("Failed to edit image.", { cause: error });
         }
-    });
+    }, options));
 }
 
-export async function transformText(text: string, action: string, language: string): Promise<string> {
-    return await withModelFallback(async (model) => {
-        let instruction = '';
-        switch (action) {
-            case 'Shorten': instruction = 'Condense this text significantly. Remove fluff. Keep the core meaning.'; break;
-            case 'Elaborate': instruction = 'Expand on this text with more details, examples, and context.'; break;
-            case 'Formalize': instruction = 'Rewrite this text to be professional, authoritative, and business-appropriate.'; break;
-            case 'Simplify': instruction = 'Simplify the language to an 8th-grade reading level for maximum accessibility.'; break;
-            case 'Summarize': instruction = 'Create a bolded "Key Takeaway" summary of this text.'; break;
-            case 'Humanize': instruction = 'Inject conversational nuance. Use "we", "you", and authentic phrasing to sound less like a robot.'; break;
-            default: instruction = action;
-        }
+export async function transformText(text: string, action: string, language: string, styleGuide?: StyleGuide | null, options: RequestOptions = {}): Promise<string> {
+    return runTransform(text, action, language, styleGuide, options);
+}
+
+/**
+ * Same as transformText, passing the rewritten text so far to `onPartial` as it is written.
+ */
+export async function streamTransformText(text: string, action: string, language: string, styleGuide: StyleGuide | null | undefined, onPartial: PartialTextHandler, options: RequestOptions = {}): Promise<string> {
+    return runTransform(text, action, language, styleGuide, options, onPartial);
+}
+
+// Built-in block actions. Any other action is a custom instruction typed by the user.
+const TRANSFORM_PROMPTS: Record<string, PromptId> = {
+    Shorten: 'transformShorten',
+    Elaborate: 'transformElaborate',
+    Formalize: 'transformFormalize',
+    Simplify: 'transformSimplify',
+    Summarize: 'transformSummarize',
+    Humanize: 'transformHumanize',
+};
+
+async function runTransform(text: string, action: string, language: string, styleGuide: StyleGuide | null | undefined, options: RequestOptions, onPartial?: PartialTextHandler): Promise<string> {
+    return runTask({ id: 'textTransform', label: `Applying "${action}"` }, options, options => withModelFallback('transform', async choice => {
+        const instruction = TRANSFORM_PROMPTS[action] ? renderPrompt(TRANSFORM_PROMPTS[action], {}).text : action;
 
         try {
-            const response = await ai.models.generateContent({
-                model: model,
-                contents: `
-                Role: Expert Editor.
-                Task: Rewrite the text below according to the Instruction.
-                
-                Instruction: ${instruction}
-                Language: ${language}
-                
-                Text:
-                """${text}"""
-                
-                CRITICAL OUTPUT RULES:
-                1. Return ONLY the rewritten text.
-                2. Do NOT output a list of options (e.g. "Option 1", "Option 2").
-                3. Do NOT include any conversational filler (e.g., "Here is the text").
-                4. Provide exactly ONE best version.
-                `,
+            const prompt = renderPrompt('textTransform', {
+                instruction,
+                language,
+                text,
+                styleGuide: formatStyleGuidePrompt(styleGuide),
             });
-            return response.text.trim();
+            const response = await completeTextPrompt(prompt, {
+                ...choice,
+            }, options, onPartial);
+            return response.trim();
         } catch (error) {
-            console.error(`Error transforming text with action "${action}" on model ${model}:`, error);
+            console.error(`Error transforming text with action "${action}" on model ${choice.model}:`, error);
             throw error;
         }
-    });
+    }, options));
 }
 
-export async function regenerateTitle(articleContent: string): Promise<string> {
-    return withRetry(async () => {
-        const prompt = `
-            Generate a "Click-Worthy" but "Trustworthy" Headline for this article.
-            
-            Guidelines:
-            1.  **The 80/20 Rule:** The headline is critical.
-            2.  **Formulas:** Use "How To", "Listicle (7 Ways...)", or "The Ultimate Guide".
-            3.  **Hooks:** Include specificity (numbers, brackets like [2025 Update]).
-            4.  **Length:** Under 60 chars ideal, max 100.
-
-            Article Snippet:
-            ---
-            ${articleContent.substring(0, 2000)} 
-            ---
-
-            Respond with ONLY the headline.
-        `;
+export async function regenerateTitle(articleContent: string, styleGuide?: StyleGuide | null, options: RequestOptions = {}): Promise<string> {
+    return runTask({ id: 'headline', label: 'Writing a new title' }, options, options => withModelFallback('publishing', async choice => {
+        const prompt = renderPrompt('headline', {
+            styleGuide: formatStyleGuidePrompt(styleGuide),
+            article: articleContent.substring(0, 2000),
+        });
         try {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: prompt,
-            });
+            const response = await runTextPrompt(prompt, {
+                ...choice,
+            }, options);
             return response.text.trim();
         } catch (error) {
             console.error("Error regenerating title:", error);
-            throw new Error("Failed to regenerate the title.");
+            throw new Error("Failed to regenerate the title.", { cause: error });
         }
-    });
+    }, options));
 }
 
-export async function generateSpeech(text: string, voice: string): Promise<string> {
-    return withRetry(async () => {
+export async function generateSpeech(text: string, voice: string, styleGuide?: StyleGuide | null, options: RequestOptions = {}): Promise<string> {
+    const brandVoice = styleGuide?.brandVoice.trim();
+    const stylePrompt = renderPrompt('speechStyle', { brandVoice: brandVoice ? `, matching this brand voice (${brandVoice})` : '' });
+    return runTask({ id: 'speech', label: 'Generating audio' }, options, options => withModelFallback('speech', async choice => {
         try {
-            const response: GenerateContentResponse = await ai.models.generateContent({
-                model: "gemini-2.5-flash-preview-tts",
-                contents: [{ parts: [{ text: `Read this with an engaging, professional, podcast-style tone: ${text}` }] }],
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    speechConfig: {
-                        voiceConfig: {
-                            prebuiltVoiceConfig: { voiceName: voice },
-                        },
-                    },
-                },
+            const audio = await getProvider().generateSpeech({
+                model: choice.model || undefined,
+                text,
+                voice,
+                style: stylePrompt.text,
+                signal: options.signal,
             });
-            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-            if (!base64Audio) throw new Error("No audio data received.");
-            return base64Audio;
+            recordGeneration(stylePrompt, choice.model || 'speech');
+            return audio;
         } catch (error) {
             console.error("Error generating speech:", error);
-            throw new Error("Failed to generate speech.");
+            throw new Error("Failed to generate speech.", { cause: error });
         }
-    });
+    }, options));
 }
 
-export async function generateSocialPosts(text: string): Promise<Record<string, string>> {
-     return withRetry(async () => {
+export async function generateSocialPosts(text: string, styleGuide?: StyleGuide | null, options: RequestOptions = {}): Promise<Record<string, string>> {
+    return runTask({ id: 'socialPosts', label: 'Writing social posts', summarize: posts => `${Object.keys(posts).length} posts` }, options, options => withModelFallback('publishing', async choice => {
          try {
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: `Create high-engagement social media posts for this article.
-                
-                1. **LinkedIn:** Professional, thought-leadership focus. Use bullet points. Ask a question to drive comments. Minimal hashtags (max 3).
-                2. **Twitter (X):** Punchy, thread-starter style. Use hooks and data points. (3-4 hashtags).
-                3. **Reddit:** Community-focused, conversational, and value-driven. Avoid salesy language. NO hashtags.
-                4. **Instagram:** Visual storytelling caption. Engaging hook. Many hashtags (10-15) at the bottom.
-                5. **Facebook:** Engaging, shareable, and community-oriented tone. (2-3 hashtags).
-                
-                Respond in JSON: { "twitter": "...", "linkedin": "...", "reddit": "...", "instagram": "...", "facebook": "..." }
-                
-                Article: """${text}"""`,
-                config: {
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                            twitter: { type: Type.STRING },
-                            linkedin: { type: Type.STRING },
-                            reddit: { type: Type.STRING },
-                            instagram: { type: Type.STRING },
-                            facebook: { type: Type.STRING },
-                        }
+            const prompt = renderPrompt('socialPosts', { styleGuide: formatStyleGuidePrompt(styleGuide), article: text });
+            return await runJsonPrompt<Record<string, string>>(prompt, {
+                ...choice,
+                schema: {
+                    type: 'object',
+                    properties: {
+                        twitter: { type: 'string' },
+                        linkedin: { type: 'string' },
+                        reddit: { type: 'string' },
+                        instagram: { type: 'string' },
+                        facebook: { type: 'string' },
                     }
                 }
-            });
-            
-            return JSON.parse(response.text);
+            }, options);
         } catch (error) {
             console.error("Error generating social posts:", error);
-            throw new Error("Failed to generate social posts.");
+            throw new Error("Failed to generate social posts.", { cause: error });
         }
-    });
+    }, options));
 }
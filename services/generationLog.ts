@@ -0,0 +1,49 @@
+
+import { generateId } from '../utils/helpers';
+import { getProvider } from './providers';
+import { PromptId, RenderedPrompt } from './prompts';
+
+// Which prompt template version and model produced each generation
+export interface GenerationRecord {
+    id: string;
+    timestamp: number;
+    promptId: PromptId;
+    promptVersion: number;
+    overrideRevision: number | null;
+    provider: string;
+    model: string;
+}
+
+const GENERATION_LOG_KEY = 'rankensteinGenerationLog';
+const MAX_GENERATION_RECORDS = 200;
+
+export function loadGenerationLog(): GenerationRecord[] {
+    try {
+        const saved = localStorage.getItem(GENERATION_LOG_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+        console.error("Failed to parse generation log from localStorage", error);
+        return [];
+    }
+}
+
+export function recordGeneration(prompt: RenderedPrompt, model: string) {
+    const record: GenerationRecord = {
+        id: generateId('gen'),
+        timestamp: Date.now(),
+        promptId: prompt.id,
+        promptVersion: prompt.version,
+        overrideRevision: prompt.overrideRevision,
+        provider: getProvider().id,
+        model,
+    };
+    try {
+        localStorage.setItem(GENERATION_LOG_KEY, JSON.stringify([record, ...loadGenerationLog()].slice(0, MAX_GENERATION_RECORDS)));
+    } catch (error) {
+        console.error("Failed to save generation log to localStorage", error);
+    }
+}
+
+export function clearGenerationLog() {
+    localStorage.removeItem(GENERATION_LOG_KEY);
+}
@@ -0,0 +1,29 @@
+
+import { AppState, Market, MarketVariant, RequestOptions } from '../types';
+import { localizeArticle } from './gemini';
+import { fetchMarketKeywords } from './research';
+
+export const getMarketKey = (market: Market) => `${market.country}|${market.language}`;
+
+export const formatMarketLabel = (market: Market) => `${market.language} · ${market.country}`;
+
+export const isSameMarket = (a: Market, b: Market) => getMarketKey(a) === getMarketKey(b);
+
+export const findMarketVariant = (variants: MarketVariant[], market: Market) => variants.find(v => isSameMarket(v, market));
+
+/**
+ * Researches keywords for a market and localizes the primary draft around them.
+ */
+export async function generateMarketVariant(market: Market, appState: AppState, options: RequestOptions = {}): Promise<MarketVariant> {
+    const { rankedKeywords, keywords } = await fetchMarketKeywords(market, appState, options);
+    const localized = await localizeArticle(appState.draft, market, keywords, appState.styleGuide, options);
+    const titleMatch = localized.match(/^#\s+(.+)$/m);
+    return {
+        ...market,
+        rankedKeywords,
+        keywords,
+        title: titleMatch ? titleMatch[1].trim() : '',
+        draft: localized,
+        updatedAt: Date.now(),
+    };
+}
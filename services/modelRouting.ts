@@ -0,0 +1,97 @@
+
+import { getProvider, LLMProvider, ModelTier } from './providers';
+
+export type ModelTask =
+    | 'ideation' | 'keywords' | 'competitors' | 'sources' | 'researchAssist' | 'outline'
+    | 'drafting' | 'review' | 'localization' | 'transform' | 'chat' | 'publishing'
+    | 'image' | 'speech';
+
+export interface ModelTaskInfo {
+    label: string;
+    description: string;
+    // Image and speech tasks have no sampling settings
+    kind: 'text' | 'image' | 'speech';
+    tier: ModelTier;
+    // Tried in order once the primary model is out of quota
+    fallbackTiers: ModelTier[];
+}
+
+export const MODEL_TASKS: Record<ModelTask, ModelTaskInfo> = {
+    ideation: { label: 'Ideation', description: 'Article ideas and seed keywords.', kind: 'text', tier: 'fast', fallbackTiers: [] },
+    keywords: { label: 'Keyword Research', description: 'Keyword lists and trends.', kind: 'text', tier: 'fast', fallbackTiers: [] },
+    competitors: { label: 'Competitor Analysis', description: 'SERP research and competitor breakdowns.', kind: 'text', tier: 'primary', fallbackTiers: [] },
+    sources: { label: 'Source Research', description: 'E-E-A-T sources and citations.', kind: 'text', tier: 'primary', fallbackTiers: [] },
+    researchAssist: { label: 'Research Helpers', description: 'Outline suggestions and link selection.', kind: 'text', tier: 'fast', fallbackTiers: [] },
+    outline: { label: 'Outline', description: 'Article outlines.', kind: 'text', tier: 'primary', fallbackTiers: [] },
+    drafting: { label: 'Drafting', description: 'Long-form drafts and added sections.', kind: 'text', tier: 'primary', fallbackTiers: ['fast'] },
+    review: { label: 'Review', description: 'Quality and SEO review of drafts.', kind: 'text', tier: 'primary', fallbackTiers: ['fast'] },
+    localization: { label: 'Localization', description: 'Market variants of an article.', kind: 'text', tier: 'primary', fallbackTiers: ['fast'] },
+    transform: { label: 'Text Transforms', description: 'Rewrites of selected text.', kind: 'text', tier: 'primary', fallbackTiers: ['fast'] },
+    chat: { label: 'Draft Chat', description: 'The assistant in the drafting studio.', kind: 'text', tier: 'primary', fallbackTiers: ['fast'] },
+    publishing: { label: 'Publishing', description: 'Titles, audio scripts and social posts.', kind: 'text', tier: 'fast', fallbackTiers: [] },
+    image: { label: 'Images', description: 'Header and inline images, and image edits.', kind: 'image', tier: 'image', fallbackTiers: [] },
+    speech: { label: 'Speech', description: 'Audio versions of articles.', kind: 'speech', tier: 'speech', fallbackTiers: [] },
+};
+
+export const MODEL_TASK_IDS = Object.keys(MODEL_TASKS) as ModelTask[];
+
+// A task's saved configuration. Empty and null values use the provider's defaults.
+export interface TaskRoute {
+    model: string;
+    fallbacks: string[];
+    temperature: number | null;
+    thinkingBudget: number | null;
+}
+
+// One model to try, with the settings to call it with
+export interface ModelChoice {
+    model: string;
+    temperature?: number;
+    thinkingBudget?: number;
+}
+
+type ModelRoutes = Partial<Record<ModelTask, TaskRoute>>;
+
+// Model names differ between providers, so routes are saved for each provider separately
+const MODEL_ROUTES_KEY = 'rankensteinModelRoutes';
+
+function loadAllModelRoutes(): Record<string, ModelRoutes> {
+    try {
+        const saved = localStorage.getItem(MODEL_ROUTES_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+        console.error("Failed to parse model routes from localStorage", error);
+        return {};
+    }
+}
+
+export const loadModelRoutes = (providerId: string): ModelRoutes => loadAllModelRoutes()[providerId] ?? {};
+
+export function saveModelRoutes(providerId: string, routes: ModelRoutes) {
+    localStorage.setItem(MODEL_ROUTES_KEY, JSON.stringify({ ...loadAllModelRoutes(), [providerId]: routes }));
+}
+
+export function resetModelRoutes(providerId: string) {
+    const { [providerId]: _removed, ...rest } = loadAllModelRoutes();
+    localStorage.setItem(MODEL_ROUTES_KEY, JSON.stringify(rest));
+}
+
+export const emptyTaskRoute = (): TaskRoute => ({ model: '', fallbacks: [], temperature: null, thinkingBudget: null });
+
+/**
+ * The models a task is tried with, in order. Whatever the saved route leaves empty comes from the
+ * task's default tier and fallback tiers. A single empty model means none is configured, which the provider reports
+ * as an unsupported capability.
+ */
+export function resolveModelChain(task: ModelTask, provider: LLMProvider = getProvider()): ModelChoice[] {
+    const info = MODEL_TASKS[task];
+    const route = loadModelRoutes(provider.id)[task];
+    const fallbacks = route?.fallbacks.length ? route.fallbacks : info.fallbackTiers.map(tier => provider.models[tier]);
+    const models = [route?.model || provider.models[info.tier], ...fallbacks];
+    const params = {
+        temperature: route?.temperature ?? undefined,
+        thinkingBudget: route?.thinkingBudget ?? undefined,
+    };
+    const chain = [...new Set(models.map(model => model.trim()).filter(Boolean))];
+    return chain.length > 0 ? chain.map(model => ({ model, ...params })) : [{ model: '', ...params }];
+}
@@ -0,0 +1,46 @@
+
+import { ProgressUpdate, RequestOptions } from '../types';
+
+interface Task<T> {
+    id: string;
+    label: string;
+    // Short description of the result, e.g. "12 keywords"
+    summarize?: (result: T) => string | undefined;
+}
+
+// Notes reported outside of any task
+const GENERAL_TASK = { taskId: 'general', label: 'General' };
+
+/**
+ * Reports a detail of the running task, such as a retry or the number of sources found.
+ */
+export function reportNote(options: RequestOptions, detail: string) {
+    options.onProgress?.({ ...GENERAL_TASK, status: 'note', detail, timestamp: Date.now() });
+}
+
+/**
+ * Runs one sub-task and reports when it starts, succeeds or fails. `fn` receives options whose
+ * notes are attributed to this task. Nested tasks keep their own ids.
+ */
+export async function runTask<T>(task: Task<T>, options: RequestOptions, fn: (options: RequestOptions) => Promise<T>): Promise<T> {
+    const { onProgress } = options;
+    if (!onProgress) return fn(options);
+
+    const emit = (status: ProgressUpdate['status'], detail?: string) =>
+        onProgress({ taskId: task.id, label: task.label, status, detail, timestamp: Date.now() });
+    const taskOptions: RequestOptions = {
+        ...options,
+        onProgress: update => onProgress(update.taskId === GENERAL_TASK.taskId ? { ...update, taskId: task.id, label: task.label } : update),
+    };
+
+    emit('started');
+    try {
+        const result = await fn(taskOptions);
+        emit('succeeded', task.summarize?.(result));
+        return result;
+    } catch (error: any) {
+        // A cancelled request has no one left watching, and a remounted view would show a stale failure
+        if (!options.signal?.aborted) emit('failed', error?.message);
+        throw error;
+    }
+}
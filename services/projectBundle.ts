@@ -0,0 +1,150 @@
+
+import { AppState, Project } from '../types';
+import { createZip, readZip, ZipEntry } from '../utils/zip';
+import { ASSET_URL_PREFIX, deleteProjectAssets, listProjectAssets, remapAssetRefs, saveAsset } from './assetStore';
+import { buildProject, createEmptyAppState, loadProject, saveProject } from './projects';
+import { DEFAULT_PROJECT_TYPE, getInitialProgress, isProjectType } from '../workflow';
+
+// Bump when the bundle layout or the shape of AppState changes incompatibly.
+export const BUNDLE_SCHEMA_VERSION = 1;
+export const BUNDLE_FILE_EXTENSION = '.rankenstein.zip';
+
+const MANIFEST_PATH = 'project.json';
+
+interface BundleAsset {
+    ref: string;
+    path: string;
+    mimeType: string;
+}
+
+interface BundleManifest {
+    schemaVersion: number;
+    exportedAt: string;
+    project: { name: string; createdAt: number; type?: string };
+    state: AppState;
+    assets: BundleAsset[];
+}
+
+export class BundleImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BundleImportError';
+    }
+}
+
+const extensionForMimeType = (mimeType: string) => mimeType.split('/')[1]?.split(/[+;]/)[0] || 'bin';
+
+/**
+ * Packs a project's state and all of its stored assets into a single zip file.
+ */
+export async function exportProjectBundle(projectId: string): Promise<{ blob: Blob; filename: string }> {
+    const project = loadProject(projectId);
+    if (!project) throw new Error("Project not found.");
+
+    const assets = await listProjectAssets(projectId);
+    const bundleAssets: BundleAsset[] = assets.map(asset => ({
+        ref: ASSET_URL_PREFIX + asset.id,
+        path: `assets/${asset.id}.${extensionForMimeType(asset.mimeType)}`,
+        mimeType: asset.mimeType,
+    }));
+
+    const manifest: BundleManifest = {
+        schemaVersion: BUNDLE_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        project: { name: project.name, createdAt: project.createdAt, type: project.type },
+        state: project.state,
+        assets: bundleAssets,
+    };
+
+    const encoder = new TextEncoder();
+    const assetEntries = await Promise.all(assets.map(async (asset, i) => ({
+        name: bundleAssets[i].path,
+        data: new Uint8Array(await asset.blob.arrayBuffer()),
+    })));
+
+    const blob = createZip([
+        { name: MANIFEST_PATH, data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+        ...assetEntries,
+    ]);
+    const slug = project.name.toLowerCase().replace(/[^\w]+/g, '-').replace(/^-|-$/g, '') || 'project';
+    return { blob, filename: `${slug}${BUNDLE_FILE_EXTENSION}` };
+}
+
+function parseManifest(raw: string): BundleManifest {
+    let manifest: any;
+    try {
+        manifest = JSON.parse(raw);
+    } catch {
+        throw new BundleImportError("The bundle manifest is not valid JSON.");
+    }
+
+    const version = manifest?.schemaVersion;
+    if (typeof version !== 'number') {
+        throw new BundleImportError("The bundle has no schema version.");
+    }
+    if (version > BUNDLE_SCHEMA_VERSION) {
+        throw new BundleImportError(`This bundle was created by a newer version of the app (schema v${version}). Please update before importing.`);
+    }
+    if (version < 1) {
+        throw new BundleImportError(`Unsupported bundle schema version: ${version}.`);
+    }
+
+    const state = manifest.state;
+    if (!state || typeof state !== 'object' || typeof state.websiteUrl !== 'string' || !Array.isArray(state.outline)) {
+        throw new BundleImportError("The bundle does not contain a valid project state.");
+    }
+    if (!Array.isArray(manifest.assets)) {
+        throw new BundleImportError("The bundle asset list is missing.");
+    }
+    return manifest;
+}
+
+/**
+ * Restores a project from a bundle file as a new project and returns it.
+ */
+export async function importProjectBundle(file: Blob): Promise<Project> {
+    let entries: ZipEntry[];
+    try {
+        entries = await readZip(file);
+    } catch (error: any) {
+        throw new BundleImportError(`Could not read the bundle: ${error.message}`);
+    }
+
+    const files = new Map(entries.map(entry => [entry.name, entry.data]));
+    const manifestData = files.get(MANIFEST_PATH);
+    if (!manifestData) throw new BundleImportError(`The bundle is missing ${MANIFEST_PATH}.`);
+    const manifest = parseManifest(new TextDecoder().decode(manifestData));
+
+    const type = isProjectType(manifest.project?.type) ? manifest.project.type : DEFAULT_PROJECT_TYPE;
+    // The project is only saved once its assets are stored, so a failed import leaves nothing behind
+    const project = buildProject(manifest.project?.name || 'Imported Project', type);
+    try {
+        const assetMapping: Record<string, string> = {};
+        for (const asset of manifest.assets) {
+            const data = files.get(asset.path);
+            if (!data) {
+                console.warn(`Bundle asset ${asset.path} is missing, skipping.`);
+                continue;
+            }
+            assetMapping[asset.ref] = await saveAsset(project.id, new Blob([data], { type: asset.mimeType }));
+        }
+
+        const state: AppState = {
+            ...createEmptyAppState(),
+            ...JSON.parse(remapAssetRefs(JSON.stringify(manifest.state), assetMapping)),
+        };
+        const progress = getInitialProgress(state, project.type);
+        const imported: Project = {
+            ...project,
+            state,
+            activeStep: progress.step,
+            highestCompletedStepIndex: progress.index,
+            updatedAt: Date.now(),
+        };
+        saveProject(imported);
+        return imported;
+    } catch (error) {
+        await deleteProjectAssets(project.id).catch(cleanupError => console.error("Failed to delete the assets of a failed import", cleanupError));
+        throw error;
+    }
+}
@@ -0,0 +1,153 @@
+
+import { AppState, Project, ProjectSummary, ProjectType } from '../types';
+import { generateId } from '../utils/helpers';
+import { DEFAULT_PROJECT_TYPE, getInitialProgress, isProjectType } from '../workflow';
+import { copyProjectAssets, deleteProjectAssets, remapAssetRefs } from './assetStore';
+import { deleteProjectUsage } from './usage';
+
+const PROJECTS_INDEX_KEY = 'rankensteinProjects';
+const PROJECT_KEY_PREFIX = 'rankensteinProject:';
+const ACTIVE_PROJECT_KEY = 'rankensteinActiveProjectId';
+// Single-slot state used before the project library existed. Migrated once on first load.
+const LEGACY_STATE_KEY = 'rankensteinAppState';
+
+export const createEmptyAppState = (): AppState => ({
+    websiteUrl: '', country: '', language: '', topic: '', outline: [], draft: '', imageUrl: '', audioUrl: '', internalLinks: [], draftSnapshots: [], research: null, styleGuide: null, markets: [], marketVariants: []
+});
+
+const toSummary = ({ state, ...meta }: Project): ProjectSummary => ({
+    ...meta,
+    websiteUrl: state.websiteUrl,
+    topic: state.topic,
+});
+
+function readIndex(): ProjectSummary[] {
+    try {
+        const saved = localStorage.getItem(PROJECTS_INDEX_KEY);
+        if (saved) {
+            const parsed = JSON.parse(saved);
+            if (Array.isArray(parsed)) return parsed;
+        }
+    } catch (error) {
+        console.error("Failed to parse project index from localStorage", error);
+    }
+    return [];
+}
+
+function writeIndex(index: ProjectSummary[]) {
+    localStorage.setItem(PROJECTS_INDEX_KEY, JSON.stringify(index));
+}
+
+let legacyStateChecked = false;
+
+// Runs before the first read of the project list or the active project, so a migrated project opens on first load
+function migrateLegacyState() {
+    if (legacyStateChecked) return;
+    legacyStateChecked = true;
+    try {
+        const legacy = localStorage.getItem(LEGACY_STATE_KEY);
+        if (!legacy) return;
+        const state: AppState = { ...createEmptyAppState(), ...JSON.parse(legacy) };
+        const project = buildProject(state.topic || 'Imported Project', DEFAULT_PROJECT_TYPE, state);
+        saveProject(project);
+        localStorage.setItem(ACTIVE_PROJECT_KEY, project.id);
+    } catch (error) {
+        console.error("Failed to migrate legacy saved state", error);
+    } finally {
+        localStorage.removeItem(LEGACY_STATE_KEY);
+    }
+}
+
+// Builds a new project without saving it
+export function buildProject(name: string, type: ProjectType, state: AppState = createEmptyAppState()): Project {
+    const now = Date.now();
+    const progress = getInitialProgress(state, type);
+    return {
+        id: generateId('project'),
+        name: name.trim() || 'Untitled Project',
+        createdAt: now,
+        updatedAt: now,
+        archived: false,
+        type,
+        state,
+        activeStep: progress.step,
+        highestCompletedStepIndex: progress.index,
+    };
+}
+
+/**
+ * Lists all saved projects, most recently updated first.
+ */
+export function listProjects(): ProjectSummary[] {
+    migrateLegacyState();
+    return readIndex().sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function loadProject(id: string): Project | null {
+    try {
+        const saved = localStorage.getItem(PROJECT_KEY_PREFIX + id);
+        if (!saved) return null;
+        const project: Project = JSON.parse(saved);
+        // Projects saved before pipelines existed have no type
+        return { ...project, type: isProjectType(project.type) ? project.type : DEFAULT_PROJECT_TYPE, state: { ...createEmptyAppState(), ...project.state } };
+    } catch (error) {
+        console.error(`Failed to load project "${id}" from localStorage`, error);
+        return null;
+    }
+}
+
+export function saveProject(project: Project) {
+    localStorage.setItem(PROJECT_KEY_PREFIX + project.id, JSON.stringify(project));
+    const index = readIndex().filter(p => p.id !== project.id);
+    writeIndex([toSummary(project), ...index]);
+}
+
+export function createProject(name: string, type: ProjectType = DEFAULT_PROJECT_TYPE): Project {
+    const project = buildProject(name, type);
+    saveProject(project);
+    return project;
+}
+
+/**
+ * Duplicates a project including its stored assets, so the copy stays intact if the original is deleted.
+ */
+export async function duplicateProject(id: string): Promise<Project | null> {
+    const source = loadProject(id);
+    if (!source) return null;
+    const copy: Project = {
+        ...buildProject(`${source.name} (Copy)`, source.type, source.state),
+        activeStep: source.activeStep,
+        highestCompletedStepIndex: source.highestCompletedStepIndex,
+    };
+    const assetMapping = await copyProjectAssets(source.id, copy.id);
+    copy.state = JSON.parse(remapAssetRefs(JSON.stringify(source.state), assetMapping));
+    saveProject(copy);
+    return copy;
+}
+
+export function setProjectArchived(id: string, archived: boolean) {
+    const project = loadProject(id);
+    if (!project) return;
+    saveProject({ ...project, archived, updatedAt: Date.now() });
+}
+
+export function deleteProject(id: string) {
+    localStorage.removeItem(PROJECT_KEY_PREFIX + id);
+    writeIndex(readIndex().filter(p => p.id !== id));
+    deleteProjectUsage(id);
+    if (getActiveProjectId() === id) setActiveProjectId(null);
+    deleteProjectAssets(id).catch(error => console.error(`Failed to delete assets of project "${id}"`, error));
+}
+
+export function getActiveProjectId(): string | null {
+    migrateLegacyState();
+    return localStorage.getItem(ACTIVE_PROJECT_KEY);
+}
+
+export function setActiveProjectId(id: string | null) {
+    if (id) {
+        localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+    } else {
+        localStorage.removeItem(ACTIVE_PROJECT_KEY);
+    }
+}
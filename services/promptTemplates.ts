@@ -0,0 +1,519 @@
+
+// Built-in prompt templates. Bump a template's version whenever its text or variables change,
+// so generations and saved overrides can tell which revision they were made with.
+export interface PromptTemplate<V extends string = string> {
+    label: string;
+    description: string;
+    version: number;
+    // Filled in as {{name}}
+    variables: readonly V[];
+    template: string;
+}
+
+const definePrompt = <const V extends string>(prompt: PromptTemplate<V>) => prompt;
+
+export const PROMPT_TEMPLATES = {
+    topicIdeas: definePrompt({
+        label: 'Topic Ideas (Theme)',
+        description: 'Five topic ideas for a theme entered in Topic Ideation.',
+        version: 1,
+        variables: ['theme', 'styleGuide'],
+        template: `You are an expert content strategist specializing in Generative Engine Optimization (GEO) and building Content Authority.
+
+Based on the theme '{{theme}}', generate 5 blog topic ideas that are designed to be "Uniquely Citable Assets".
+
+Criteria for topics:
+1.  **Answer-First Potential:** Topics that allow for a direct, definitive answer or definition immediately (good for AI overviews).
+2.  **High Utility:** Topics that solve specific problems ("How-to", "Ultimate Guides").
+3.  **Data/Analysis Potential:** Topics where we can present "original" analysis or structured comparisons (Lists, Tables).
+
+For each idea, provide:
+- A catchy, SEO-friendly title (Title Case).
+- A brief description of why this topic builds authority.
+{{styleGuide}}
+Respond with a valid, perfectly formatted JSON array of objects, where each object has "title" and "description" keys.`,
+    }),
+    websiteTopicIdeas: definePrompt({
+        label: 'Topic Ideas (Website)',
+        description: 'Five topic ideas based on an analysis of the project website.',
+        version: 1,
+        variables: ['websiteUrl', 'country', 'language', 'styleGuide'],
+        template: `You are an expert content strategist specializing in Generative Engine Optimization (GEO).
+
+Task: Analyze the website '{{websiteUrl}}' using Google Search to understand its niche, authority level, and audience.
+
+Then, generate 5 blog topic ideas for the '{{country}}' market in '{{language}}' that would help this specific website build "Topical Authority".
+
+The topics must:
+1.  Fill a gap in the current content strategy.
+2.  Lend themselves to structured formatting (Tables, Lists, Steps) which AI models prefer.
+3.  Be specific enough to demonstrate "Experience" (E-E-A-T).
+{{styleGuide}}
+Respond with a valid JSON array of objects, where each object has "title" and "description" keys.`,
+    }),
+    competitorAnalysis: definePrompt({
+        label: 'Competitor Analysis',
+        description: 'Researches the top competing articles and their content gaps.',
+        version: 1,
+        variables: ['topic'],
+        template: `You are an SEO analyst. For the topic '{{topic}}', perform in-depth research using Google Search to analyze the top 3 competing articles.
+
+For each competitor, identify:
+1. Their main argument.
+2. **Content Gaps:** What are they missing? (e.g., Lack of original data, poor formatting, outdated info, lack of specific examples).
+3. **Structure:** Do they use tables, lists, or specific schema?
+
+Respond with a valid JSON object with a "competitors" key. "competitors" should be an array of objects.
+
+CRITICAL: Each object MUST have exactly two keys:
+- "title": string
+- "summary": string. Combine the argument, gaps, and structure analysis into this SINGLE string. Do NOT use nested objects.`,
+    }),
+    eeatSources: definePrompt({
+        label: 'E-E-A-T Sources',
+        description: 'Finds authoritative sources to cite.',
+        version: 1,
+        variables: ['topic'],
+        template: `You are a research assistant building E-E-A-T (Experience, Expertise, Authoritativeness, Trustworthiness) for a blog post about "{{topic}}".
+
+Find 3-4 highly authoritative, non-commercial sources that can be cited to back up claims.
+**Priority Sources:**
+1.  Original Research / Studies / Statistics.
+2.  Government (.gov) or Academic (.edu) publications.
+3.  Recognized Industry Standards bodies.
+
+**Exclude:** Generic blogs, competitors, or sales pages.
+
+For each source, provide:
+1. "title"
+2. "url"
+3. "summary": A single string sentence explaining exactly what data point or insight this source provides. Do NOT return an object.
+
+Respond with ONLY a valid JSON array of objects.`,
+    }),
+    keywordSeeds: definePrompt({
+        label: 'Keyword Seeds',
+        description: 'Short seed keywords sent to the keyword tool.',
+        version: 1,
+        variables: ['topic', 'marketRules'],
+        template: `Identify 3 distinct, high-search-volume seed keywords (maximum 2 words each) related to the topic: "{{topic}}".
+{{marketRules}}
+These will be used to query a keyword database.
+Respond with ONLY a valid JSON array of strings. Example: ["keyword one", "keyword two", "keyword three"]`,
+    }),
+    keywordSelection: definePrompt({
+        label: 'Keyword Selection',
+        description: 'Picks the 10 target keywords from tool suggestions and rankings.',
+        version: 1,
+        variables: ['topic', 'seeds', 'toolSuggestions', 'existingRankings', 'marketRules'],
+        template: `Topic: "{{topic}}"
+
+Goal: Select 10 target keywords including long-tail questions.
+
+Available Data:
+1. Tool Suggestions (from seeds: {{seeds}}): {{toolSuggestions}}
+2. Existing Rankings: {{existingRankings}}
+
+Instructions:
+- Prioritize high-volume, long-tail keywords.
+- Include question-based keywords ("How to...", "What is...").
+- If tool data is missing, infer high-value keywords based on search logic.
+{{marketRules}}
+
+Respond with ONLY a valid JSON array of 10 keyword strings.`,
+    }),
+    outlineSuggestions: definePrompt({
+        label: 'Structure Suggestions',
+        description: 'Three structural approaches for the article.',
+        version: 1,
+        variables: ['topic'],
+        template: `For the topic "{{topic}}", suggest 3 structural approaches that follow the **Answer-First (Inverted Pyramid)** model for Generative Engine Optimization.
+
+Examples:
+- "Definitive Guide (Definition + Steps + Data)"
+- "Comparative Analysis (Table-heavy + Pros/Cons)"
+- "Problem/Solution (Direct Answer + Detailed Walkthrough)"
+
+Respond with a valid JSON array of 3 string titles describing the structure.`,
+    }),
+    internalLinkSelection: definePrompt({
+        label: 'Internal Link Selection',
+        description: 'Picks related pages from the site map.',
+        version: 1,
+        variables: ['topic', 'links'],
+        template: `You are building a "Content Cluster" to establish Topical Authority.
+
+Main Topic: "{{topic}}"
+
+Task: Select 3-5 internal links from the list below that are logically related to the main topic. These will be used to build a "hub and spoke" model.
+
+List:
+{{links}}
+
+Respond with a valid JSON array of objects ({title, url}).`,
+    }),
+    outline: definePrompt({
+        label: 'Outline',
+        description: 'The first outline draft.',
+        version: 1,
+        variables: ['topic', 'keywords', 'competitors', 'internalLinks', 'styleGuide'],
+        template: `Create a detailed, GEO-optimized blog post outline for: '{{topic}}'.
+
+**Strategy: The AI-Citable Blog**
+1.  **Answer-First / Inverted Pyramid:** The very first section after the Intro must provide the direct answer, summary, or definition that a user (or AI) is looking for.
+2.  **E-E-A-T:** Include specific sections for "Key Takeaways", "Expert Analysis", or "Data Breakdown".
+3.  **Machine Readability:** Plan for sections that will use Lists or Tables.
+
+Target Keywords: {{keywords}}
+
+Competitor Context (Beat these):
+{{competitors}}
+
+Internal Links to Weave In:
+{{internalLinks}}
+
+Format:
+- Provide clean descriptive section titles only.
+- **PROHIBITED:** Do NOT include "H2", "H3", "Section:" or numeric prefixes in the strings.
+- Use indentation (2 spaces) to denote hierarchy.
+{{styleGuide}}
+Example structure:
+- Introduction (Hook + Thesis)
+- Direct Answer / Core Definition
+- Main Point 1
+  - Detail for Point 1
+- Conclusion
+
+Respond with a valid JSON array of strings.`,
+    }),
+    outlineRefinement: definePrompt({
+        label: 'Outline Refinement',
+        description: 'Checklist used by "Refine with AI" in Research & Outline.',
+        version: 1,
+        variables: ['topic', 'keywords', 'currentOutline', 'styleGuide'],
+        template: `Refine this outline to maximize "Generative Engine Optimization" (GEO) and E-E-A-T.
+
+Topic: '{{topic}}'
+
+Checklist for refinement:
+1.  **Is the "Direct Answer" prominent near the top?**
+2.  **Are there opportunities for Tables or structured lists?** (Add notes like "[Table: comparison of x and y]" if missing).
+3.  **Does it cover the 'People Also Ask' questions implied by the keywords:** {{keywords}}?
+4.  **Does it demonstrate depth of expertise?**
+
+Current Outline:
+---
+{{currentOutline}}
+---
+
+**Strict Formatting:**
+- Return ONLY strings representing the sections.
+- Do NOT include "H2" or "H3" labels.
+- Keep indentation for hierarchy.
+{{styleGuide}}
+Respond with the improved JSON array of strings.`,
+    }),
+    longFormArticle: definePrompt({
+        label: 'Article Draft',
+        description: 'Writing guidelines for the full article draft.',
+        version: 1,
+        variables: ['brief', 'internalLinks', 'voice', 'styleGuide'],
+        template: `{{brief}}
+{{internalLinks}}
+
+**MANDATORY WRITING GUIDELINES (STRICT):**
+
+1.  **Pure Markdown Output Only:**
+    - **NO FILLER:** Do NOT include ANY introductory text like "Here is the article", "Here is a draft", "Sure, I can help".
+    - **NO HEADER LABELS:** Do NOT use words like "H1", "H2", "H3", "Title:", "Section:". **ONLY** use standard Markdown hash symbols (#, ##, ###) for headers.
+      - **CORRECT:** ## The Benefits of Yoga
+      - **INCORRECT:** H2: The Benefits of Yoga
+      - **INCORRECT:** **H2** The Benefits of Yoga
+    - **Title:** The output must start immediately with the # Title.
+
+2.  **The "Answer-First" Mandate:**
+    - The very first paragraph must be a **Direct Answer**, Definition, or clear Summary of the solution. This allows AI to cite the top of the article.
+
+3.  **Format for Machine Readability:**
+    - **Structure:** Use ## for main sections and ### for subsections.
+    - **Content Flow:** Every ## Header MUST be followed by introductory text (1-2 paragraphs) before any nested ### headers appear.
+    - **Paragraphs:** Keep them short (2-3 sentences max).
+    - **Keywords:** Use **bolding** for core concepts.
+    - **Lists:** Use bullet points liberally.
+    - **Tables:** You MUST include at least one Markdown data table.
+
+4.  **Voice & Tone:**
+    - {{voice}}
+
+5.  **Visuals:**
+    - Include placeholders: \`[IMAGE: detailed prompt]\` or \`[GRAPH: description]\`.
+{{styleGuide}}
+Stream the content now.`,
+    }),
+    articleReview: definePrompt({
+        label: 'Article Review',
+        description: 'Editor pass that cleans the streamed draft.',
+        version: 1,
+        variables: ['styleGuideRule', 'styleGuide', 'draft'],
+        template: `You are an expert Editor preparing this content for WordPress publication.
+
+**Your Task:** Clean and Polish the Markdown draft.
+
+**CRITICAL RULES - REMOVE ALL FILLER:**
+1.  **Delete Labels:** Remove any text that explicitly labels the section type (e.g. "H1", "H2", "H3", "Title:", "Introduction:", "Section:").
+    - Transform "H2: Title" to "## Title".
+    - Transform "Section: Title" to "## Title".
+2.  **Delete Meta-Talk:** Remove any intro/outro text from the AI (e.g. "Here is the generated blog post...", "I hope this helps"). The output must start with the # Title and end with the final paragraph.
+3.  **Fix Hierarchy:** Ensure ## Headers are never immediately followed by ### Headers. Insert a summary sentence if text is missing between headers.
+4.  **Fix Spacing:** Ensure there is a blank line before and after every table, code block, and list.
+5.  **Preserve:** Keep all internal links and [IMAGE] placeholders exactly as they are.
+{{styleGuideRule}}
+{{styleGuide}}
+
+Draft to Review:
+---
+{{draft}}
+---
+
+Return ONLY the final cleaned Markdown.`,
+    }),
+    localization: definePrompt({
+        label: 'Market Localization',
+        description: 'Localizes the draft for an additional market.',
+        version: 1,
+        variables: ['language', 'country', 'keywords', 'styleGuide', 'draft'],
+        template: `You are a native {{language}} content strategist for the {{country}} market.
+
+**Your Task:** Localize the Markdown article below for readers in {{country}}, written in {{language}}.
+This is a localization, NOT a literal translation.
+
+**RULES:**
+1.  **Write a new # Title** in {{language}} that a searcher in {{country}} would click. Work in the primary keyword.
+2.  **Target these local keywords** naturally in headings and body text: {{keywords}}.
+3.  **Adapt local details:** currencies, units, date formats, prices, laws, regulations, brands, institutions and examples must fit {{country}}. Remove or replace anything that does not apply there.
+4.  **Keep the structure:** Same Markdown hierarchy (##, ###), tables, lists, links and [IMAGE]/[GRAPH] placeholders. Translate the placeholder descriptions.
+5.  **Idiomatic language:** Use the spelling, terminology and tone native readers in {{country}} expect.
+{{styleGuide}}
+
+Article to Localize:
+---
+{{draft}}
+---
+
+Return ONLY the localized Markdown, starting with the # Title.`,
+    }),
+    contextualAddition: definePrompt({
+        label: 'Contextual Addition',
+        description: 'Text, table or media placeholder inserted between two blocks.',
+        version: 1,
+        variables: ['before', 'after', 'task', 'styleGuide'],
+        template: `You are a content assistant.
+Context Before: "...{{before}}..."
+Context After: "...{{after}}..."
+
+Task:
+{{task}}
+{{styleGuide}}
+
+Do not include "Here is the text" or quotes. Just the content.`,
+    }),
+    insertParagraph: definePrompt({
+        label: 'Insert: Paragraph',
+        description: 'Task of a Contextual Addition that inserts text between two blocks.',
+        version: 1,
+        variables: [],
+        template: `Write a single bridging paragraph (2-3 sentences) that naturally connects the context before to the context after. Maintain the same tone.`,
+    }),
+    insertImage: definePrompt({
+        label: 'Insert: Image',
+        description: 'Task of a Contextual Addition that inserts an image placeholder.',
+        version: 1,
+        variables: [],
+        template: `Generate a specific, descriptive prompt for an image that would fit perfectly between these two sections. Return ONLY the prompt text.`,
+    }),
+    insertGraph: definePrompt({
+        label: 'Insert: Graph',
+        description: 'Task of a Contextual Addition that inserts a graph placeholder.',
+        version: 1,
+        variables: [],
+        template: `Generate a description for a data visualization, chart, or graph that would illustrate the point being made. Return ONLY the description.`,
+    }),
+    insertTable: definePrompt({
+        label: 'Insert: Table',
+        description: 'Task of a Contextual Addition that inserts a table.',
+        version: 1,
+        variables: [],
+        template: `Generate a Markdown data table that organizes relevant information from the context or adds value (e.g. Pros/Cons, Features, Comparisons). Return ONLY the markdown table.`,
+    }),
+    draftChat: definePrompt({
+        label: 'Draft Chat',
+        description: 'System instruction of the Drafting Studio chat.',
+        version: 3,
+        variables: ['styleGuide', 'title', 'outline'],
+        template: `You are an expert Content Editor assistant.
+The article draft is split into blocks, and each block starts with its ID in square brackets.
+Below is the outline of the whole draft. Each of the user's messages comes with the current text of the sections that match it; call read_section for any other section you need. Earlier messages may show text that has changed since.
+User will ask you to modify the draft or answer questions about it.
+
+Cite the blocks your answer refers to by their ID in square brackets, e.g. [block-1].
+
+If the user asks to rewrite, add, remove or retitle something, call propose_edits instead of writing the new text in your reply:
+- replace: new markdown for a block
+- insert_after: a new block after the given block
+- delete: remove a block
+- retitle: a new article title
+The user reviews each edit before it is applied, so keep edits to the blocks that need to change and briefly say what you proposed.
+If the user asks for data, use the available tools.
+Any text you write for the article must follow the style guide below.
+{{styleGuide}}
+
+Title: {{title}}
+
+Outline:
+{{outline}}`,
+    }),
+    textTransform: definePrompt({
+        label: 'Text Transform',
+        description: 'Rewrites a block (Shorten, Elaborate, ...).',
+        version: 1,
+        variables: ['instruction', 'language', 'text', 'styleGuide'],
+        template: `Role: Expert Editor.
+Task: Rewrite the text below according to the Instruction.
+
+Instruction: {{instruction}}
+Language: {{language}}
+
+Text:
+"""{{text}}"""
+
+CRITICAL OUTPUT RULES:
+1. Return ONLY the rewritten text.
+2. Do NOT output a list of options (e.g. "Option 1", "Option 2").
+3. Do NOT include any conversational filler (e.g., "Here is the text").
+4. Provide exactly ONE best version.
+{{styleGuide}}`,
+    }),
+    transformShorten: definePrompt({
+        label: 'Transform: Shorten',
+        description: 'Instruction of the Shorten block action.',
+        version: 1,
+        variables: [],
+        template: `Condense this text significantly. Remove fluff. Keep the core meaning.`,
+    }),
+    transformElaborate: definePrompt({
+        label: 'Transform: Elaborate',
+        description: 'Instruction of the Elaborate block action.',
+        version: 1,
+        variables: [],
+        template: `Expand on this text with more details, examples, and context.`,
+    }),
+    transformFormalize: definePrompt({
+        label: 'Transform: Formalize',
+        description: 'Instruction of the Formalize block action.',
+        version: 1,
+        variables: [],
+        template: `Rewrite this text to be professional, authoritative, and business-appropriate.`,
+    }),
+    transformSimplify: definePrompt({
+        label: 'Transform: Simplify',
+        description: 'Instruction of the Simplify block action.',
+        version: 1,
+        variables: [],
+        template: `Simplify the language to an 8th-grade reading level for maximum accessibility.`,
+    }),
+    transformSummarize: definePrompt({
+        label: 'Transform: Summarize',
+        description: 'Instruction of the Summarize block action.',
+        version: 1,
+        variables: [],
+        template: `Create a bolded "Key Takeaway" summary of this text.`,
+    }),
+    transformHumanize: definePrompt({
+        label: 'Transform: Humanize',
+        description: 'Instruction of the Humanize block action.',
+        version: 1,
+        variables: [],
+        template: `Inject conversational nuance. Use "we", "you", and authentic phrasing to sound less like a robot.`,
+    }),
+    headline: definePrompt({
+        label: 'Headline',
+        description: 'Regenerates the article title in Publish.',
+        version: 1,
+        variables: ['styleGuide', 'article'],
+        template: `Generate a "Click-Worthy" but "Trustworthy" Headline for this article.
+
+Guidelines:
+1.  **The 80/20 Rule:** The headline is critical.
+2.  **Formulas:** Use "How To", "Listicle (7 Ways...)", or "The Ultimate Guide".
+3.  **Hooks:** Include specificity (numbers, brackets like [2025 Update]).
+4.  **Length:** Under 60 chars ideal, max 100.
+{{styleGuide}}
+
+Article Snippet:
+---
+{{article}}
+---
+
+Respond with ONLY the headline.`,
+    }),
+    socialPosts: definePrompt({
+        label: 'Social Posts',
+        description: 'Platform rules for the social media posts.',
+        version: 1,
+        variables: ['styleGuide', 'article'],
+        template: `Create high-engagement social media posts for this article.
+
+1. **LinkedIn:** Professional, thought-leadership focus. Use bullet points. Ask a question to drive comments. Minimal hashtags (max 3).
+2. **Twitter (X):** Punchy, thread-starter style. Use hooks and data points. (3-4 hashtags).
+3. **Reddit:** Community-focused, conversational, and value-driven. Avoid salesy language. NO hashtags.
+4. **Instagram:** Visual storytelling caption. Engaging hook. Many hashtags (10-15) at the bottom.
+5. **Facebook:** Engaging, shareable, and community-oriented tone. (2-3 hashtags).
+{{styleGuide}}
+
+Respond in JSON: { "twitter": "...", "linkedin": "...", "reddit": "...", "instagram": "...", "facebook": "..." }
+
+Article: """{{article}}"""`,
+    }),
+    articleImage: definePrompt({
+        label: 'Header Image',
+        description: 'Photography style added to every generated image prompt.',
+        version: 1,
+        variables: ['prompt'],
+        template: `{{prompt}} . Authentic editorial photography, natural lighting, shot on 35mm film, minimal processing, photorealistic, highly detailed, cinematic composition. Wide angle 16:9 aspect ratio. Avoid oversaturated colors, avoid plastic skin textures, avoid surrealism, avoid 3D render styles, avoid AI-generated look.`,
+    }),
+    imageEdit: definePrompt({
+        label: 'Image Edit',
+        description: 'Style rules added to image edit requests.',
+        version: 1,
+        variables: ['prompt'],
+        template: `{{prompt}} - Ensure result looks like authentic editorial photography, natural lighting, photorealistic. Avoid AI-generated look.`,
+    }),
+    speechStyle: definePrompt({
+        label: 'Speech Style',
+        description: 'How the narration in Publish should sound. brandVoice is empty when the project has none.',
+        version: 1,
+        variables: ['brandVoice'],
+        template: `an engaging, professional, podcast-style tone{{brandVoice}}`,
+    }),
+    structuredOutputRepair: definePrompt({
+        label: 'Format Repair',
+        description: 'Sent back to the model when its JSON answer does not match the expected format.',
+        version: 1,
+        variables: ['originalPrompt', 'response', 'errors', 'schema'],
+        template: `Your previous answer to the request below could not be used because it does not match the required JSON format.
+
+REQUEST:
+"""{{originalPrompt}}"""
+
+YOUR PREVIOUS ANSWER:
+"""{{response}}"""
+
+PROBLEMS FOUND:
+{{errors}}
+
+REQUIRED JSON SCHEMA:
+{{schema}}
+
+Fix every problem listed above while keeping the content of your answer. Respond with ONLY the corrected JSON, no commentary and no markdown fences.`,
+    }),
+};
@@ -0,0 +1,92 @@
+
+import { PROMPT_TEMPLATES } from './promptTemplates';
+
+export type PromptId = keyof typeof PROMPT_TEMPLATES;
+type PromptVariables<Id extends PromptId> = Record<(typeof PROMPT_TEMPLATES)[Id]['variables'][number], string>;
+
+// An editor's replacement for a built-in template, saved for the whole workspace
+export interface PromptOverride {
+    template: string;
+    // The built-in version the override was written against
+    basedOnVersion: number;
+    revision: number;
+    updatedAt: number;
+}
+
+export interface RenderedPrompt {
+    id: PromptId;
+    version: number;
+    // Set when an override was used instead of the built-in text
+    overrideRevision: number | null;
+    text: string;
+}
+
+const PROMPT_OVERRIDES_KEY = 'rankensteinPromptOverrides';
+
+export const PROMPT_IDS = Object.keys(PROMPT_TEMPLATES) as PromptId[];
+
+export function loadPromptOverrides(): Partial<Record<PromptId, PromptOverride>> {
+    try {
+        const saved = localStorage.getItem(PROMPT_OVERRIDES_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+        console.error("Failed to parse prompt overrides from localStorage", error);
+        return {};
+    }
+}
+
+const writePromptOverrides = (overrides: Partial<Record<PromptId, PromptOverride>>) =>
+    localStorage.setItem(PROMPT_OVERRIDES_KEY, JSON.stringify(overrides));
+
+export function savePromptOverride(id: PromptId, template: string): PromptOverride {
+    const overrides = loadPromptOverrides();
+    const override: PromptOverride = {
+        template,
+        basedOnVersion: PROMPT_TEMPLATES[id].version,
+        revision: (overrides[id]?.revision ?? 0) + 1,
+        updatedAt: Date.now(),
+    };
+    writePromptOverrides({ ...overrides, [id]: override });
+    return override;
+}
+
+export function resetPromptOverride(id: PromptId) {
+    const { [id]: _removed, ...rest } = loadPromptOverrides();
+    writePromptOverrides(rest);
+}
+
+// The built-in template changed after the override was written, so the override may miss improvements
+export const isOverrideOutdated = (id: PromptId, override: PromptOverride) =>
+    override.basedOnVersion < PROMPT_TEMPLATES[id].version;
+
+const placeholderNames = (template: string) => [...template.matchAll(/\{\{(\w+)\}\}/g)].map(match => match[1]);
+
+/**
+ * Checks an edited template against the variables its prompt provides.
+ */
+export function validatePromptTemplate(id: PromptId, template: string): { unknown: string[]; unused: string[] } {
+    const variables: readonly string[] = PROMPT_TEMPLATES[id].variables;
+    const used = new Set(placeholderNames(template));
+    return {
+        unknown: [...used].filter(name => !variables.includes(name)),
+        unused: variables.filter(name => !used.has(name)),
+    };
+}
+
+/**
+ * Fills in a prompt template, using the workspace override when there is one.
+ */
+export function renderPrompt<Id extends PromptId>(id: Id, variables: PromptVariables<Id>): RenderedPrompt {
+    const override = loadPromptOverrides()[id];
+    const template = override?.template ?? PROMPT_TEMPLATES[id].template;
+    const values: Record<string, string> = variables;
+    return {
+        id,
+        version: PROMPT_TEMPLATES[id].version,
+        overrideRevision: override ? override.revision : null,
+        text: template.replace(/\{\{(\w+)\}\}/g, (match, name: string) => name in values ? values[name] : match),
+    };
+}
+
+export const formatPromptVersion = (prompt: Pick<RenderedPrompt, 'version' | 'overrideRevision'>) =>
+    prompt.overrideRevision === null ? `v${prompt.version}` : `v${prompt.version} custom r${prompt.overrideRevision}`;
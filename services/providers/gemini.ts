@@ -0,0 +1,212 @@
+
+import { Content, FunctionCall, GenerateContentResponseUsageMetadata, GoogleGenAI, Modality, Part } from "@google/genai";
+import { createUsageTracker, pcmSeconds } from './tracking';
+import { ChatTurn, GenerationParams, ImageRequest, LLMProvider, ProviderHooks, SourceLink, TextRequest } from './types';
+
+const GEMINI_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'];
+
+const toContents = (turns: ChatTurn[]): Content[] => turns.map((turn): Content => {
+    if (turn.role === 'user') return { role: 'user', parts: [{ text: turn.text }] };
+    if (turn.role === 'model') {
+        const parts: Part[] = turn.text ? [{ text: turn.text }] : [];
+        for (const call of turn.toolCalls ?? []) parts.push({ functionCall: { id: call.id, name: call.name, args: call.args } });
+        return { role: 'model', parts };
+    }
+    return {
+        role: 'user',
+        parts: turn.results.map(r => ({ functionResponse: { id: r.callId, name: r.name, response: { result: r.result } } })),
+    };
+});
+
+const searchConfig = (request: Pick<TextRequest, 'useSearch'>) => request.useSearch ? [{ googleSearch: {} }] : undefined;
+
+const paramsConfig = (request: GenerationParams) => ({
+    temperature: request.temperature,
+    thinkingConfig: request.thinkingBudget !== undefined ? { thinkingBudget: request.thinkingBudget } : undefined,
+});
+
+// Thinking tokens are billed as output
+const tokenUsage = (usage: GenerateContentResponseUsageMetadata | undefined) => ({
+    inputTokens: usage?.promptTokenCount ?? 0,
+    outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+});
+
+const firstInlineImage = (parts: Part[] | undefined): string | null => {
+    for (const part of parts ?? []) {
+        if (part.inlineData) return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+    }
+    return null;
+};
+
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const IMAGEN_MODEL = 'imagen-4.0-generate-001';
+const SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+
+export function createGeminiProvider(apiKey: string, hooks?: ProviderHooks): LLMProvider {
+    const ai = new GoogleGenAI({ apiKey });
+    const { start, track } = createUsageTracker(hooks);
+
+    const generateWithImagen = async (request: ImageRequest, model: string) => {
+        const response = await track('image', model, () => ai.models.generateImages({
+            model,
+            prompt: request.prompt,
+            config: {
+                numberOfImages: 1,
+                aspectRatio: request.aspectRatio ?? '16:9', // Perfect for WordPress Featured Image
+                abortSignal: request.signal,
+            },
+        }), r => ({ images: r.generatedImages?.length ?? 0 }));
+        const base64 = response.generatedImages?.[0]?.image?.imageBytes;
+        if (base64) return `data:image/png;base64,${base64}`;
+        throw new Error(`No image data from ${model}.`);
+    };
+
+    return {
+        id: 'gemini',
+        label: 'Google Gemini',
+        capabilities: { search: true, tools: true, image: true, speech: true },
+        models: { primary: 'gemini-3-pro-preview', fast: 'gemini-2.5-flash', image: IMAGE_MODEL, speech: SPEECH_MODEL },
+        voices: GEMINI_VOICES,
+
+        async generateText(request) {
+            const response = await track('text', request.model, () => ai.models.generateContent({
+                model: request.model,
+                contents: request.prompt,
+                config: { systemInstruction: request.systemInstruction, tools: searchConfig(request), ...paramsConfig(request), abortSignal: request.signal },
+            }), r => tokenUsage(r.usageMetadata));
+            const sources: SourceLink[] = (response.candidates?.[0]?.groundingMetadata?.groundingChunks ?? [])
+                .filter(chunk => chunk.web?.uri)
+                .map(chunk => ({ title: chunk.web?.title ?? 'Unknown Source', url: chunk.web!.uri! }));
+            return { text: response.text ?? '', sources };
+        },
+
+        async streamText(request) {
+            const report = start('stream', request.model);
+            const stream = await ai.models.generateContentStream({
+                model: request.model,
+                contents: request.prompt,
+                config: { systemInstruction: request.systemInstruction, tools: searchConfig(request), ...paramsConfig(request), abortSignal: request.signal },
+            });
+            return (async function* () {
+                // Every chunk carries the running totals, so the last one has the final count
+                let usage: GenerateContentResponseUsageMetadata | undefined;
+                try {
+                    for await (const chunk of stream) {
+                        usage = chunk.usageMetadata ?? usage;
+                        if (chunk.text) yield chunk.text;
+                    }
+                } finally {
+                    // Stopped or failed streams are still charged for what they produced so far
+                    report(tokenUsage(usage));
+                }
+            })();
+        },
+
+        async generateJson(request) {
+            const response = await track('json', request.model, () => ai.models.generateContent({
+                model: request.model,
+                contents: request.prompt,
+                config: {
+                    systemInstruction: request.systemInstruction,
+                    responseMimeType: "application/json",
+                    responseJsonSchema: request.schema,
+                    ...paramsConfig(request),
+                    abortSignal: request.signal,
+                },
+            }), r => tokenUsage(r.usageMetadata));
+            return JSON.parse(response.text ?? '');
+        },
+
+        async generateWithTools(request) {
+            const params = {
+                model: request.model,
+                contents: toContents(request.turns),
+                config: {
+                    systemInstruction: request.systemInstruction,
+                    tools: [
+                        { functionDeclarations: request.tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) },
+                        ...(searchConfig(request) ?? []),
+                    ],
+                    ...paramsConfig(request),
+                    abortSignal: request.signal,
+                },
+            };
+            const toToolCalls = (calls: FunctionCall[]) => calls.map(call => ({ id: call.id, name: call.name ?? '', args: call.args ?? {} }));
+
+            if (!request.onText) {
+                const response = await track('tools', request.model, () => ai.models.generateContent(params), r => tokenUsage(r.usageMetadata));
+                return { text: response.text ?? '', toolCalls: toToolCalls(response.functionCalls ?? []) };
+            }
+
+            const report = start('tools', request.model);
+            const stream = await ai.models.generateContentStream(params);
+            let text = '';
+            const calls: FunctionCall[] = [];
+            let usage: GenerateContentResponseUsageMetadata | undefined;
+            try {
+                // Function calls arrive whole, each in one chunk
+                for await (const chunk of stream) {
+                    usage = chunk.usageMetadata ?? usage;
+                    calls.push(...(chunk.functionCalls ?? []));
+                    if (chunk.text) {
+                        text += chunk.text;
+                        request.onText(chunk.text);
+                    }
+                }
+            } finally {
+                report(tokenUsage(usage));
+            }
+            return { text, toolCalls: toToolCalls(calls) };
+        },
+
+        async generateImage(request) {
+            // Imagen only generates. Gemini image models such as Nano Banana also edit.
+            if (request.model?.startsWith('imagen')) {
+                if (request.sourceImage) throw new Error(`${request.model} cannot edit images.`);
+                return generateWithImagen(request, request.model);
+            }
+
+            const model = request.model ?? IMAGE_MODEL;
+            const parts: Part[] = request.sourceImage ? [{ inlineData: request.sourceImage }] : [];
+            parts.push({ text: request.prompt });
+            try {
+                const response = await track('image', model, () => ai.models.generateContent({
+                    model,
+                    contents: { parts },
+                    config: { abortSignal: request.signal },
+                }), r => ({ ...tokenUsage(r.usageMetadata), images: firstInlineImage(r.candidates?.[0]?.content?.parts) ? 1 : 0 }));
+                const image = firstInlineImage(response.candidates?.[0]?.content?.parts);
+                if (image) return image;
+                throw new Error(`No image data from ${model}.`);
+            } catch (error) {
+                // An explicitly chosen model has its fallbacks configured by the caller
+                if (request.model || request.sourceImage || request.signal?.aborted) throw error;
+                console.warn("Nano Banana failed, trying Imagen...", error);
+            }
+            return generateWithImagen(request, IMAGEN_MODEL);
+        },
+
+        async generateSpeech(request) {
+            const model = request.model ?? SPEECH_MODEL;
+            const response = await track('speech', model, () => ai.models.generateContent({
+                model,
+                contents: [{ parts: [{ text: request.style ? `Read this with ${request.style}: ${request.text}` : request.text }] }],
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: {
+                        voiceConfig: {
+                            prebuiltVoiceConfig: { voiceName: request.voice },
+                        },
+                    },
+                    abortSignal: request.signal,
+                },
+            }), r => ({
+                ...tokenUsage(r.usageMetadata),
+                audioSeconds: pcmSeconds(r.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data ?? ''),
+            }));
+            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!base64Audio) throw new Error("No audio data received.");
+            return base64Audio;
+        },
+    };
+}
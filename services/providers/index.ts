@@ -0,0 +1,76 @@
+
+import { createGeminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { createMockProvider, withRecording } from './mock';
+import { withScheduler } from './scheduler';
+import { LLMProvider, ProviderHooks, ProviderSettings } from './types';
+import { createUsageHooks } from '../usage';
+import { MOCK_MODE } from '../fixtures';
+
+export * from './types';
+export { CircuitOpenError, retryAfterMs } from './scheduler';
+
+const PROVIDER_SETTINGS_KEY = 'rankensteinProviderSettings';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+    provider: 'gemini',
+    gemini: { apiKey: '' },
+    openaiCompatible: {
+        baseUrl: 'http://localhost:11434/v1',
+        apiKey: '',
+        primaryModel: 'llama3.1',
+        fastModel: '',
+        imageModel: '',
+        speechModel: '',
+    },
+};
+
+export function loadProviderSettings(): ProviderSettings {
+    try {
+        const saved = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+        if (!saved) return DEFAULT_PROVIDER_SETTINGS;
+        const parsed = JSON.parse(saved);
+        return {
+            ...DEFAULT_PROVIDER_SETTINGS,
+            ...parsed,
+            gemini: { ...DEFAULT_PROVIDER_SETTINGS.gemini, ...parsed.gemini },
+            openaiCompatible: { ...DEFAULT_PROVIDER_SETTINGS.openaiCompatible, ...parsed.openaiCompatible },
+        };
+    } catch (error) {
+        console.error("Failed to parse provider settings from localStorage", error);
+        return DEFAULT_PROVIDER_SETTINGS;
+    }
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+export function saveProviderSettings(settings: ProviderSettings) {
+    localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+    cachedProvider = null;
+}
+
+export function createProvider(settings: ProviderSettings, hooks?: ProviderHooks): LLMProvider {
+    if (settings.provider === 'openai-compatible') {
+        return createOpenAICompatibleProvider(settings.openaiCompatible, hooks);
+    }
+    // Use process.env.API_KEY as per guidelines
+    return createGeminiProvider(settings.gemini.apiKey || process.env.API_KEY || '', hooks);
+}
+
+/**
+ * The provider all generation services run against, as configured in Settings.
+ * Its calls are charged to the open project and share one rate-limited queue per model.
+ * Mock mode swaps in the offline mock provider or records the real one's responses.
+ */
+export function getProvider(): LLMProvider {
+    if (!cachedProvider) {
+        const settings = loadProviderSettings();
+        if (MOCK_MODE === 'replay') {
+            cachedProvider = withScheduler(createMockProvider(createUsageHooks('mock')));
+        } else {
+            const provider = createProvider(settings, createUsageHooks(settings.provider));
+            cachedProvider = withScheduler(MOCK_MODE === 'record' ? withRecording(provider) : provider);
+        }
+    }
+    return cachedProvider;
+}
@@ -0,0 +1,241 @@
+
+import { abortableDelay } from '../../utils/abort';
+import { findFixture, recordResponse, saveFixture } from '../fixtures';
+import { createUsageTracker } from './tracking';
+import { JsonRequest, JsonSchema, LLMProvider, ProviderHooks, SourceLink, TextRequest, TextResult, ToolRequest, ToolResponse } from './types';
+
+const MOCK_VOICES = ['Narrator', 'Host', 'Guest'];
+
+const FILLER_WORDS = [
+    'strategy', 'practical', 'readers', 'growth', 'simple', 'proven', 'guide', 'examples', 'results', 'common',
+    'mistakes', 'budget', 'quality', 'local', 'modern', 'tools', 'experts', 'checklist', 'better', 'everyday',
+];
+
+// Same request, same answer: everything made up is drawn from a generator seeded with the request
+function seededRandom(seed: string): () => number {
+    let hash = 2166136261;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 16777619);
+    }
+    let state = hash >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+interface MockWriter {
+    random: () => number;
+    words: string[];
+}
+
+// Words from the prompt keep the made-up text on topic
+function createWriter(seed: string): MockWriter {
+    const promptWords = [...new Set(seed.toLowerCase().match(/[a-zÀ-ɏ]{5,}/g) ?? [])].slice(0, 40);
+    return { random: seededRandom(seed), words: [...promptWords, ...FILLER_WORDS] };
+}
+
+const pick = <T>(writer: MockWriter, items: T[]) => items[Math.floor(writer.random() * items.length)];
+const between = (writer: MockWriter, min: number, max: number) => min + Math.floor(writer.random() * (max - min + 1));
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const phrase = (writer: MockWriter, min: number, max: number) =>
+    Array.from({ length: between(writer, min, max) }, () => pick(writer, writer.words)).join(' ');
+const sentence = (writer: MockWriter) => `${capitalize(phrase(writer, 8, 16))}.`;
+const paragraph = (writer: MockWriter) => Array.from({ length: between(writer, 3, 5) }, () => sentence(writer)).join(' ');
+
+function mockArticle(writer: MockWriter): string {
+    const sections = Array.from({ length: between(writer, 3, 5) }, () =>
+        `## ${capitalize(phrase(writer, 3, 6))}\n\n${paragraph(writer)}\n\n${paragraph(writer)}`);
+    return `${paragraph(writer)}\n\n${sections.join('\n\n')}`;
+}
+
+function mockFromSchema(schema: JsonSchema, writer: MockWriter, name = ''): unknown {
+    switch (schema.type) {
+        case 'string':
+            if (schema.enum) return pick(writer, schema.enum);
+            if (/url|link/i.test(name)) return `https://example.com/${phrase(writer, 2, 4).replace(/ /g, '-')}`;
+            return /title|keyword|name/i.test(name) || !name ? capitalize(phrase(writer, 2, 6)) : sentence(writer);
+        case 'number':
+            return Math.round(writer.random() * 1000) / 10;
+        case 'integer':
+            return between(writer, 0, 100);
+        case 'boolean':
+            return writer.random() < 0.5;
+        case 'array': {
+            const min = schema.minItems ?? 3;
+            const length = between(writer, min, Math.max(min, schema.maxItems ?? 5));
+            return Array.from({ length }, () => schema.items ? mockFromSchema(schema.items, writer, name) : phrase(writer, 1, 3));
+        }
+        case 'object':
+            return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, property]) => [key, mockFromSchema(property, writer, key)]));
+    }
+}
+
+const mockSources = (writer: MockWriter): SourceLink[] =>
+    Array.from({ length: 3 }, () => {
+        const title = capitalize(phrase(writer, 3, 6));
+        return { title, url: `https://example.com/${title.toLowerCase().replace(/ /g, '-')}` };
+    });
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+
+function mockImage(prompt: string, edited: boolean): string {
+    const writer = createWriter(prompt);
+    const hue = Math.floor(writer.random() * 360);
+    const caption = escapeXml(prompt.slice(0, 80));
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1536" height="864" viewBox="0 0 1536 864">`
+        + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},60%,35%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},60%,20%)"/></linearGradient></defs>`
+        + `<rect width="1536" height="864" fill="url(#g)"/>`
+        + `<text x="768" y="400" font-family="sans-serif" font-size="56" fill="white" text-anchor="middle">${edited ? 'Edited mock image' : 'Mock image'}</text>`
+        + `<text x="768" y="480" font-family="sans-serif" font-size="28" fill="white" fill-opacity="0.7" text-anchor="middle">${caption}</text>`
+        + `</svg>`;
+    return `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+}
+
+const SAMPLE_RATE = 24000;
+
+// Soft beeps, about one second of audio for every three words
+function mockSpeech(text: string): string {
+    const seconds = Math.min(20, Math.max(2, Math.round(text.split(/\s+/).length / 3)));
+    const samples = new DataView(new ArrayBuffer(seconds * SAMPLE_RATE * 2));
+    for (let i = 0; i < seconds * SAMPLE_RATE; i++) {
+        const t = i / SAMPLE_RATE;
+        const amplitude = t % 0.6 < 0.15 ? 3000 : 0;
+        samples.setInt16(i * 2, Math.round(amplitude * Math.sin(2 * Math.PI * 440 * t)), true);
+    }
+    const bytes = new Uint8Array(samples.buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+// Streamed text comes in pieces of this many characters, one every STREAM_DELAY ms
+const STREAM_CHUNK = 40;
+const STREAM_DELAY = 20;
+
+async function* streamPieces(text: string, signal?: AbortSignal) {
+    for (let i = 0; i < text.length; i += STREAM_CHUNK) {
+        await abortableDelay(STREAM_DELAY, signal);
+        yield text.slice(i, i + STREAM_CHUNK);
+    }
+}
+
+// A rough count so the usage panel has something to show
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Answers offline, from recorded fixtures when one matches the request and with deterministic
+ * made-up content otherwise. Selected with MOCK_MODE=replay.
+ */
+export function createMockProvider(hooks?: ProviderHooks): LLMProvider {
+    const { start, track } = createUsageTracker(hooks);
+
+    const generateText = async (request: TextRequest): Promise<TextResult> => {
+        const fixture = await findFixture<TextResult>('text', request);
+        if (fixture) return fixture;
+        const writer = createWriter(request.prompt);
+        // Structured prompts that ask for JSON in plain text pass the schema along
+        const text = request.schema ? JSON.stringify(mockFromSchema(request.schema, writer)) : paragraph(writer);
+        return { text, sources: request.useSearch ? mockSources(writer) : [] };
+    };
+
+    const generateWithTools = async (request: ToolRequest): Promise<ToolResponse> => {
+        const fixture = await findFixture<ToolResponse>('tools', request);
+        if (fixture) return fixture;
+        const lastTurn = request.turns[request.turns.length - 1];
+        const writer = createWriter(JSON.stringify(request.turns));
+        // Every other message asks for a tool first, so tool handling can be tried offline
+        if (lastTurn?.role === 'user' && request.tools.length > 0 && writer.random() < 0.5) {
+            const tool = pick(writer, request.tools);
+            return { text: '', toolCalls: [{ id: 'mock_call_0', name: tool.name, args: mockFromSchema(tool.parameters, writer) as Record<string, unknown> }] };
+        }
+        return { text: paragraph(writer), toolCalls: [] };
+    };
+
+    return {
+        id: 'mock',
+        label: 'Mock (offline fixtures)',
+        capabilities: { search: true, tools: true, image: true, speech: true },
+        models: { primary: 'mock-primary', fast: 'mock-fast', image: 'mock-image', speech: 'mock-speech' },
+        voices: MOCK_VOICES,
+
+        generateText: request => track('text', request.model, () => generateText(request), result => ({
+            inputTokens: estimateTokens(request.prompt),
+            outputTokens: estimateTokens(result.text),
+        })),
+
+        async streamText(request) {
+            const report = start('stream', request.model);
+            const text = (await findFixture<string[]>('stream', request))?.join('') ?? mockArticle(createWriter(request.prompt));
+            return (async function* () {
+                let streamed = '';
+                try {
+                    for await (const piece of streamPieces(text, request.signal)) {
+                        streamed += piece;
+                        yield piece;
+                    }
+                } finally {
+                    // A stopped stream is recorded with what was sent so far
+                    report({ inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(streamed) });
+                }
+            })();
+        },
+
+        async generateJson<T>(request: JsonRequest) {
+            return track('json', request.model, async () =>
+                (await findFixture<T>('json', request)) ?? mockFromSchema(request.schema, createWriter(request.prompt)) as T,
+            result => ({ inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(JSON.stringify(result)) }));
+        },
+
+        generateWithTools: request => track('tools', request.model, async (): Promise<ToolResponse> => {
+            const response = await generateWithTools(request);
+            if (request.onText) {
+                for await (const piece of streamPieces(response.text, request.signal)) request.onText(piece);
+            }
+            return response;
+        }, result => ({ inputTokens: estimateTokens(JSON.stringify(request.turns)), outputTokens: estimateTokens(result.text) })),
+
+        generateImage: request => track('image', request.model ?? 'mock-image', async () =>
+            (await findFixture<string>('image', request)) ?? mockImage(request.prompt, !!request.sourceImage),
+        () => ({ images: 1 })),
+
+        generateSpeech: request => track('speech', request.model ?? 'mock-speech', async () =>
+            (await findFixture<string>('speech', request)) ?? mockSpeech(request.text),
+        audio => ({ audioSeconds: Math.round((audio.length * 3) / 4 / (SAMPLE_RATE * 2)) })),
+    };
+}
+
+/**
+ * Passes calls through to a real provider and saves every response as a fixture for replay.
+ * Selected with MOCK_MODE=record.
+ */
+export function withRecording(provider: LLMProvider): LLMProvider {
+    return {
+        ...provider,
+        generateText: request => recordResponse('text', request, () => provider.generateText(request)),
+        generateJson: <T>(request: JsonRequest) => recordResponse('json', request, () => provider.generateJson<T>(request)),
+        generateWithTools: request => recordResponse('tools', request, () => provider.generateWithTools(request)),
+        generateImage: request => recordResponse('image', request, () => provider.generateImage(request)),
+        generateSpeech: request => recordResponse('speech', request, () => provider.generateSpeech(request)),
+
+        async streamText(request) {
+            const stream = await provider.streamText(request);
+            return (async function* () {
+                const chunks: string[] = [];
+                for await (const chunk of stream) {
+                    chunks.push(chunk);
+                    yield chunk;
+                }
+                // Only complete streams are worth replaying
+                await saveFixture('stream', request, chunks);
+            })();
+        },
+    };
+}
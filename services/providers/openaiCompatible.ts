@@ -0,0 +1,306 @@
+
+import { createUsageTracker } from './tracking';
+import { ChatTurn, LLMProvider, ProviderHooks, ProviderOperation, ProviderSettings, TextRequest, UnsupportedCapabilityError } from './types';
+
+const OPENAI_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
+
+type OpenAICompatibleSettings = ProviderSettings['openaiCompatible'];
+
+// The parts of the chat completions API this provider sends and reads
+interface ChatToolCall {
+    id?: string;
+    type?: 'function';
+    function: { name: string; arguments: string };
+}
+
+type ChatMessage =
+    | { role: 'system' | 'user'; content: string }
+    | { role: 'assistant'; content: string | null; tool_calls?: ChatToolCall[] }
+    | { role: 'tool'; tool_call_id: string; content: string };
+
+interface CompletionUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+}
+
+interface ChatCompletion {
+    choices?: { message?: { content?: string | null; tool_calls?: ChatToolCall[] } }[];
+    usage?: CompletionUsage;
+}
+
+// One streamed piece of a completion. The last chunk carries only the usage.
+interface ChatCompletionChunk {
+    choices?: {
+        delta?: {
+            content?: string | null;
+            tool_calls?: { index?: number; id?: string; function?: { name?: string; arguments?: string } }[];
+        };
+    }[];
+    usage?: CompletionUsage | null;
+}
+
+interface ImagesResponse {
+    data?: { b64_json?: string; url?: string }[];
+    usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+const toMessages = (systemInstruction: string | undefined, turns: ChatTurn[]) => {
+    const messages: ChatMessage[] = systemInstruction ? [{ role: 'system', content: systemInstruction }] : [];
+    for (const turn of turns) {
+        if (turn.role === 'user') {
+            messages.push({ role: 'user', content: turn.text });
+        } else if (turn.role === 'model') {
+            messages.push({
+                role: 'assistant',
+                content: turn.text || null,
+                tool_calls: turn.toolCalls?.length
+                    ? turn.toolCalls.map((call, i) => ({ id: call.id ?? `call_${i}`, type: 'function', function: { name: call.name, arguments: JSON.stringify(call.args) } }))
+                    : undefined,
+            });
+        } else {
+            turn.results.forEach((result, i) => messages.push({ role: 'tool', tool_call_id: result.callId ?? `call_${i}`, content: result.result }));
+        }
+    }
+    return messages;
+};
+
+const promptMessages = (request: TextRequest) => toMessages(request.systemInstruction, [{ role: 'user', text: request.prompt }]);
+
+const toBase64 = (buffer: ArrayBuffer) => {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const tokenUsage = (usage: CompletionUsage | null | undefined) => ({ inputTokens: usage?.prompt_tokens ?? 0, outputTokens: usage?.completion_tokens ?? 0 });
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null) => {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+    return Number.isFinite(ms) ? Math.max(0, ms) : undefined;
+};
+
+// Server-sent events: one "data: {json}" line per chunk, ending with "data: [DONE]"
+async function* readEvents<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = '';
+    try {
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffered += value;
+            const lines = buffered.split('\n');
+            buffered = lines.pop() ?? '';
+            for (const line of lines) {
+                const payload = line.replace(/^data:\s*/, '').trim();
+                if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+                yield JSON.parse(payload) as T;
+            }
+        }
+    } finally {
+        // Closes the connection when the consumer stops early
+        reader.cancel().catch(() => {});
+    }
+}
+
+// Local models sometimes emit tool arguments that are not valid JSON
+const parseToolArguments = (providerLabel: string, call: ChatToolCall): Record<string, unknown> => {
+    if (!call.function.arguments) return {};
+    try {
+        return JSON.parse(call.function.arguments);
+    } catch (error: any) {
+        console.error(`${providerLabel} returned malformed arguments for tool "${call.function.name}":`, call.function.arguments);
+        throw new Error(`The model called "${call.function.name}" with arguments that are not valid JSON: ${error.message}`, { cause: error });
+    }
+};
+
+const dataToBlob = (data: string, mimeType: string) => {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType });
+};
+
+/**
+ * Talks to any server that implements the OpenAI HTTP API: OpenAI itself, or local servers such as
+ * Ollama, LM Studio, vLLM and llama.cpp. Web search is not available through this API.
+ */
+export function createOpenAICompatibleProvider(settings: OpenAICompatibleSettings, hooks?: ProviderHooks): LLMProvider {
+    const { start, track } = createUsageTracker(hooks);
+    const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+    const label = `OpenAI-compatible (${baseUrl})`;
+    const authHeaders: Record<string, string> = settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+
+    const request = async (path: string, init: RequestInit): Promise<Response> => {
+        const response = await fetch(`${baseUrl}${path}`, { ...init, headers: { ...authHeaders, ...init.headers } });
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error(`${label} error response:`, errorText);
+            // Keep the status and Retry-After so the retry logic can recognise rate limits and wait as long as asked
+            throw Object.assign(new Error(`Request to ${path} failed with status ${response.status}: ${errorText}`), {
+                status: response.status,
+                retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+            });
+        }
+        return response;
+    };
+
+    const postJson = (path: string, body: unknown, signal?: AbortSignal) => request(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+
+    const complete = async (operation: ProviderOperation, body: { model: string } & Record<string, unknown>, signal?: AbortSignal) => {
+        const data = await track(operation, body.model, async (): Promise<ChatCompletion> => (await postJson('/chat/completions', body, signal)).json(), d => tokenUsage(d.usage));
+        return data.choices?.[0]?.message ?? {};
+    };
+
+    // Rebuilds the message a non-streamed completion would return, passing its text on as it arrives
+    const streamToolMessage = async (body: { model: string } & Record<string, unknown>, onText: (chunk: string) => void, signal?: AbortSignal) => {
+        const report = start('tools', body.model);
+        const response = await postJson('/chat/completions', { ...body, stream: true, stream_options: { include_usage: true } }, signal);
+        if (!response.body) throw new Error(`${label} returned an empty stream.`);
+        let content = '';
+        // Tool calls arrive in pieces keyed by their index: the id and name first, then the arguments bit by bit
+        const toolCalls: ChatToolCall[] = [];
+        let usage: CompletionUsage | null | undefined;
+        try {
+            for await (const chunk of readEvents<ChatCompletionChunk>(response.body)) {
+                usage = chunk.usage ?? usage;
+                const delta = chunk.choices?.[0]?.delta;
+                if (delta?.content) {
+                    content += delta.content;
+                    onText(delta.content);
+                }
+                for (const part of delta?.tool_calls ?? []) {
+                    const call = toolCalls[part.index ?? 0] ??= { function: { name: '', arguments: '' } };
+                    if (part.id) call.id = part.id;
+                    if (part.function?.name) call.function.name += part.function.name;
+                    if (part.function?.arguments) call.function.arguments += part.function.arguments;
+                }
+            }
+        } finally {
+            report(tokenUsage(usage));
+        }
+        return { content, tool_calls: toolCalls.filter(Boolean) };
+    };
+
+    return {
+        id: 'openai-compatible',
+        label,
+        capabilities: { search: false, tools: true, image: !!settings.imageModel, speech: !!settings.speechModel },
+        models: { primary: settings.primaryModel, fast: settings.fastModel || settings.primaryModel, image: settings.imageModel, speech: settings.speechModel },
+        voices: OPENAI_VOICES,
+
+        async generateText(req) {
+            const message = await complete('text', { model: req.model, messages: promptMessages(req), temperature: req.temperature }, req.signal);
+            return { text: message.content ?? '', sources: [] };
+        },
+
+        async streamText(req) {
+            const report = start('stream', req.model);
+            const response = await postJson('/chat/completions', {
+                model: req.model,
+                messages: promptMessages(req),
+                temperature: req.temperature,
+                stream: true,
+                // Adds a final chunk with the token counts
+                stream_options: { include_usage: true },
+            }, req.signal);
+            if (!response.body) throw new Error(`${label} returned an empty stream.`);
+            const body = response.body;
+            return (async function* () {
+                let usage: CompletionUsage | null | undefined;
+                try {
+                    for await (const chunk of readEvents<ChatCompletionChunk>(body)) {
+                        usage = chunk.usage ?? usage;
+                        const delta = chunk.choices?.[0]?.delta?.content;
+                        if (delta) yield delta;
+                    }
+                } finally {
+                    // The token counts only come with the last chunk, so a stopped stream is recorded without them
+                    report(tokenUsage(usage));
+                }
+            })();
+        },
+
+        async generateJson(req) {
+            const message = await complete('json', {
+                model: req.model,
+                messages: promptMessages(req),
+                temperature: req.temperature,
+                response_format: { type: 'json_schema', json_schema: { name: 'response', schema: req.schema } },
+            }, req.signal);
+            const text = message.content ?? '';
+            // Some local servers ignore response_format and wrap the JSON in a code fence
+            const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+            return JSON.parse(fenced ? fenced[1] : text);
+        },
+
+        async generateWithTools(req) {
+            const body = {
+                model: req.model,
+                messages: toMessages(req.systemInstruction, req.turns),
+                temperature: req.temperature,
+                tools: req.tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } })),
+            };
+            const message = req.onText ? await streamToolMessage(body, req.onText, req.signal) : await complete('tools', body, req.signal);
+            return {
+                text: message.content ?? '',
+                toolCalls: (message.tool_calls ?? []).map(call => ({
+                    id: call.id,
+                    name: call.function.name,
+                    args: parseToolArguments(label, call),
+                })),
+            };
+        },
+
+        async generateImage(req) {
+            const model = req.model || settings.imageModel;
+            if (!model) throw new UnsupportedCapabilityError(label, 'image');
+            const size = req.aspectRatio === '16:9' ? '1536x1024' : req.aspectRatio === '9:16' ? '1024x1536' : '1024x1024';
+            const data = await track('image', model, async (): Promise<ImagesResponse> => {
+                if (req.sourceImage) {
+                    const form = new FormData();
+                    form.append('model', model);
+                    form.append('prompt', req.prompt);
+                    form.append('image', dataToBlob(req.sourceImage.data, req.sourceImage.mimeType), 'image.png');
+                    return (await request('/images/edits', { method: 'POST', body: form, signal: req.signal })).json();
+                }
+                return (await postJson('/images/generations', { model, prompt: req.prompt, size, n: 1 }, req.signal)).json();
+            }, d => ({
+                inputTokens: d.usage?.input_tokens ?? 0,
+                outputTokens: d.usage?.output_tokens ?? 0,
+                images: d.data?.length ?? 0,
+            }));
+            const image = data.data?.[0];
+            if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+            if (image?.url) {
+                const blob = await (await fetch(image.url, { signal: req.signal })).blob();
+                return `data:${blob.type || 'image/png'};base64,${toBase64(await blob.arrayBuffer())}`;
+            }
+            throw new Error("No image data received.");
+        },
+
+        async generateSpeech(req) {
+            const model = req.model || settings.speechModel;
+            if (!model) throw new UnsupportedCapabilityError(label, 'speech');
+            const audio = await track('speech', model, async () => (await postJson('/audio/speech', {
+                model,
+                input: req.text,
+                voice: req.voice,
+                instructions: req.style,
+                // Raw 24 kHz 16-bit mono PCM, the same format Gemini returns
+                response_format: 'pcm',
+            }, req.signal)).arrayBuffer(), buffer => ({ audioSeconds: Math.round(buffer.byteLength / 48000) }));
+            return toBase64(audio);
+        },
+    };
+}
@@ -0,0 +1,191 @@
+
+import { LLMProvider } from './types';
+
+interface ModelLimits {
+    maxConcurrent: number;
+    requestsPerMinute: number;
+}
+
+const DEFAULT_LIMITS: ModelLimits = { maxConcurrent: 4, requestsPerMinute: 60 };
+
+// Models with tighter quotas than the default
+const MODEL_LIMITS: Record<string, ModelLimits> = {
+    'gemini-3-pro-preview': { maxConcurrent: 3, requestsPerMinute: 25 },
+    'gemini-2.5-flash-image': { maxConcurrent: 2, requestsPerMinute: 10 },
+    'imagen-4.0-generate-001': { maxConcurrent: 2, requestsPerMinute: 10 },
+    'gemini-2.5-flash-preview-tts': { maxConcurrent: 1, requestsPerMinute: 10 },
+};
+
+const MINUTE = 60_000;
+// Consecutive rate limit errors that open a model's circuit
+const FAILURE_THRESHOLD = 4;
+const CIRCUIT_COOLDOWN = 30_000;
+
+// Thrown without calling the model while its circuit is open
+export class CircuitOpenError extends Error {
+    constructor(public readonly model: string, public readonly retryAt: number) {
+        super(`${model} is rate limited. Calls are paused for ${Math.ceil((retryAt - Date.now()) / 1000)}s; try again then or switch models in Settings.`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+interface ModelState {
+    active: number;
+    // Start times of the calls in the last minute
+    starts: number[];
+    // Set from Retry-After. No call starts before it.
+    blockedUntil: number;
+    failures: number;
+    openUntil: number;
+    // Once the cooldown ends a single trial call decides whether the circuit closes again
+    probing: boolean;
+    waiters: Set<() => void>;
+}
+
+const states = new Map<string, ModelState>();
+
+function stateFor(model: string): ModelState {
+    let state = states.get(model);
+    if (!state) {
+        state = { active: 0, starts: [], blockedUntil: 0, failures: 0, openUntil: 0, probing: false, waiters: new Set() };
+        states.set(model, state);
+    }
+    return state;
+}
+
+const isRateLimited = (error: any) =>
+    error?.status === 429 || error?.status === 503 || /RESOURCE_EXHAUSTED|Too Many Requests/.test(error?.message ?? '');
+
+/**
+ * How long the server asked us to wait, from a Retry-After header or Gemini's RetryInfo, if it said.
+ */
+export function retryAfterMs(error: any): number | undefined {
+    if (typeof error?.retryAfterMs === 'number') return error.retryAfterMs;
+    const match = (error?.message ?? '').match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    if (match) return Math.ceil(parseFloat(match[1]) * 1000);
+    return error?.cause ? retryAfterMs(error.cause) : undefined;
+}
+
+// Resolves when a slot is released, after `ms` if given, or rejects once the signal aborts
+function waitForTurn(state: ModelState, ms: number | undefined, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const done = () => {
+            clearTimeout(timer);
+            state.waiters.delete(done);
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        };
+        const onAbort = () => {
+            done();
+            reject(signal!.reason);
+        };
+        const timer = ms !== undefined ? setTimeout(done, ms) : undefined;
+        state.waiters.add(done);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+async function acquire(model: string, signal?: AbortSignal) {
+    const state = stateFor(model);
+    const limits = MODEL_LIMITS[model] ?? DEFAULT_LIMITS;
+    while (true) {
+        signal?.throwIfAborted();
+        const now = Date.now();
+        if (state.openUntil > now) throw new CircuitOpenError(model, state.openUntil);
+
+        state.starts = state.starts.filter(startedAt => now - startedAt < MINUTE);
+        const halfOpen = state.failures >= FAILURE_THRESHOLD;
+        const busy = state.active >= limits.maxConcurrent || (halfOpen && state.probing);
+        const waitMs = Math.max(
+            state.blockedUntil - now,
+            state.starts.length >= limits.requestsPerMinute ? state.starts[0] + MINUTE - now : 0,
+        );
+        if (!busy && waitMs <= 0) {
+            state.active++;
+            state.starts.push(now);
+            state.probing = halfOpen;
+            return;
+        }
+        await waitForTurn(state, busy ? undefined : waitMs, signal);
+    }
+}
+
+function release(model: string, error?: unknown) {
+    const state = stateFor(model);
+    const now = Date.now();
+    state.active--;
+    state.probing = false;
+    if (!error) {
+        state.failures = 0;
+    } else if (isRateLimited(error)) {
+        const wait = retryAfterMs(error) ?? 0;
+        state.blockedUntil = Math.max(state.blockedUntil, now + wait);
+        state.failures++;
+        if (state.failures >= FAILURE_THRESHOLD) {
+            state.openUntil = now + Math.max(CIRCUIT_COOLDOWN, wait);
+            console.warn(`Circuit for ${model} opened after ${state.failures} rate limit errors. Pausing calls for ${(state.openUntil - now) / 1000}s.`);
+        }
+    }
+    // Waiters re-check the limits, or fail fast if the circuit just opened
+    [...state.waiters].forEach(wake => wake());
+}
+
+async function schedule<T>(model: string, signal: AbortSignal | undefined, run: () => Promise<T>): Promise<T> {
+    await acquire(model, signal);
+    try {
+        const result = await run();
+        release(model);
+        return result;
+    } catch (error) {
+        release(model, error);
+        throw error;
+    }
+}
+
+/**
+ * Shares one queue per model between every caller of the provider: calls wait for a free slot
+ * under the model's concurrency and per-minute limits, and fail fast while its circuit is open.
+ */
+export function withScheduler(provider: LLMProvider): LLMProvider {
+    return {
+        ...provider,
+        generateText: request => schedule(request.model, request.signal, () => provider.generateText(request)),
+        generateJson: request => schedule(request.model, request.signal, () => provider.generateJson(request)),
+        generateWithTools: request => schedule(request.model, request.signal, () => provider.generateWithTools(request)),
+        generateImage: request => schedule(request.model ?? provider.models.image, request.signal, () => provider.generateImage(request)),
+        generateSpeech: request => schedule(request.model ?? provider.models.speech, request.signal, () => provider.generateSpeech(request)),
+
+        async streamText(request) {
+            await acquire(request.model, request.signal);
+            // The slot stays taken until the stream ends, its reader stops or the request is aborted
+            let released = false;
+            const releaseOnce = (error?: unknown) => {
+                if (released) return;
+                released = true;
+                request.signal?.removeEventListener('abort', onAbort);
+                release(request.model, error);
+            };
+            const onAbort = () => releaseOnce(request.signal!.reason);
+            request.signal?.addEventListener('abort', onAbort, { once: true });
+
+            let stream: AsyncIterable<string>;
+            try {
+                stream = await provider.streamText(request);
+            } catch (error) {
+                releaseOnce(error);
+                throw error;
+            }
+            return (async function* () {
+                let failure: unknown;
+                try {
+                    yield* stream;
+                } catch (error) {
+                    failure = error;
+                    throw error;
+                } finally {
+                    releaseOnce(failure);
+                }
+            })();
+        },
+    };
+}
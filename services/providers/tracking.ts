@@ -0,0 +1,36 @@
+
+import { ProviderHooks, ProviderOperation, UsageReport } from './types';
+
+type Measured = Partial<Pick<UsageReport, 'inputTokens' | 'outputTokens' | 'images' | 'audioSeconds'>>;
+
+// 16-bit mono PCM at 24 kHz is 48,000 bytes per second
+export const pcmSeconds = (base64: string) => Math.round((base64.length * 3) / 4 / 48000);
+
+/**
+ * Wraps provider calls so every request passes the hooks' checks and reports what it consumed.
+ */
+export function createUsageTracker(hooks: ProviderHooks = {}) {
+    const start = (operation: ProviderOperation, model: string) => {
+        hooks.beforeRequest?.(operation, model);
+        const startedAt = Date.now();
+        return (measured: Measured) => hooks.onUsage?.({
+            operation,
+            model,
+            inputTokens: 0,
+            outputTokens: 0,
+            images: 0,
+            audioSeconds: 0,
+            ...measured,
+            latencyMs: Date.now() - startedAt,
+        });
+    };
+
+    const track = async <T>(operation: ProviderOperation, model: string, run: () => Promise<T>, measure: (result: T) => Measured): Promise<T> => {
+        const report = start(operation, model);
+        const result = await run();
+        report(measure(result));
+        return result;
+    };
+
+    return { start, track };
+}
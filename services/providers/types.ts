@@ -0,0 +1,181 @@
+
+// The subset of JSON Schema every provider can express for structured output and tool parameters
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    required?: string[];
+    enum?: string[];
+}
+
+export type ModelTier = 'primary' | 'fast' | 'image' | 'speech';
+
+// Sampling settings a caller may tune per task. Unset values leave the model's defaults.
+export interface GenerationParams {
+    temperature?: number;
+    // Tokens the model may spend thinking. Providers without configurable thinking ignore it.
+    thinkingBudget?: number;
+}
+
+export interface TextRequest extends GenerationParams {
+    model: string;
+    prompt: string;
+    systemInstruction?: string;
+    // Ground the answer in live web search. Providers without search ignore it.
+    useSearch?: boolean;
+    // The JSON the prompt asks for in its plain text answer. Text generation doesn't enforce it, the caller validates the answer.
+    schema?: JsonSchema;
+    signal?: AbortSignal;
+}
+
+export interface JsonRequest extends TextRequest {
+    schema: JsonSchema;
+}
+
+export interface SourceLink {
+    title: string;
+    url: string;
+}
+
+export interface TextResult {
+    text: string;
+    // Web pages the answer was grounded in, when search was used
+    sources: SourceLink[];
+}
+
+export interface ToolDeclaration {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+}
+
+export interface ToolCall {
+    // Set by providers that match results to calls by id
+    id?: string;
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export interface ToolResult {
+    callId?: string;
+    name: string;
+    result: string;
+}
+
+export type ChatTurn =
+    | { role: 'user'; text: string }
+    | { role: 'model'; text: string; toolCalls?: ToolCall[] }
+    | { role: 'tool'; results: ToolResult[] };
+
+export interface ToolRequest extends GenerationParams {
+    model: string;
+    systemInstruction?: string;
+    turns: ChatTurn[];
+    tools: ToolDeclaration[];
+    useSearch?: boolean;
+    signal?: AbortSignal;
+    // Streams the answer: called with each piece of its text as it arrives. The response still has the whole text.
+    onText?: (chunk: string) => void;
+}
+
+export interface ToolResponse {
+    text: string;
+    toolCalls: ToolCall[];
+}
+
+export interface ImageRequest {
+    prompt: string;
+    aspectRatio?: '1:1' | '16:9' | '9:16' | '4:3' | '3:4';
+    // Image to edit, as base64 without the data: prefix
+    sourceImage?: { data: string; mimeType: string };
+    // Overrides the provider's default image model and its built-in fallback
+    model?: string;
+    signal?: AbortSignal;
+}
+
+export interface SpeechRequest {
+    text: string;
+    voice: string;
+    // How the text should be read, e.g. the brand voice
+    style?: string;
+    // Overrides the provider's default speech model
+    model?: string;
+    signal?: AbortSignal;
+}
+
+export type ProviderOperation = 'text' | 'stream' | 'json' | 'tools' | 'image' | 'speech';
+
+// What one provider call consumed, as reported by the backend
+export interface UsageReport {
+    operation: ProviderOperation;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    audioSeconds: number;
+    latencyMs: number;
+}
+
+export interface ProviderHooks {
+    // Runs before every request and may throw to stop it, e.g. when a budget is used up
+    beforeRequest?(operation: ProviderOperation, model: string): void;
+    onUsage?(report: UsageReport): void;
+}
+
+export interface ProviderCapabilities {
+    search: boolean;
+    tools: boolean;
+    image: boolean;
+    speech: boolean;
+}
+
+/**
+ * A text, image and speech backend the generation services run against.
+ */
+export interface LLMProvider {
+    id: string;
+    label: string;
+    capabilities: ProviderCapabilities;
+    // Defaults per tier. Empty when the provider has no model for it.
+    models: Record<ModelTier, string>;
+    voices: string[];
+    generateText(request: TextRequest): Promise<TextResult>;
+    streamText(request: TextRequest): Promise<AsyncIterable<string>>;
+    generateJson<T>(request: JsonRequest): Promise<T>;
+    generateWithTools(request: ToolRequest): Promise<ToolResponse>;
+    // Resolves to a data: URL
+    generateImage(request: ImageRequest): Promise<string>;
+    // Resolves to base64 16-bit mono PCM at 24 kHz
+    generateSpeech(request: SpeechRequest): Promise<string>;
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible';
+
+export interface ProviderSettings {
+    provider: ProviderId;
+    gemini: {
+        // Empty means the key the app was built with
+        apiKey: string;
+    };
+    openaiCompatible: {
+        baseUrl: string;
+        apiKey: string;
+        primaryModel: string;
+        fastModel: string;
+        imageModel: string;
+        speechModel: string;
+    };
+}
+
+/**
+ * Thrown when the active provider cannot do what was asked, e.g. image generation on a text-only local server.
+ */
+export class UnsupportedCapabilityError extends Error {
+    constructor(providerLabel: string, capability: keyof ProviderCapabilities) {
+        super(`${providerLabel} does not support ${capability === 'image' ? 'image generation' : capability === 'speech' ? 'speech generation' : capability}.`);
+        this.name = 'UnsupportedCapabilityError';
+    }
+}
@@ -0,0 +1,89 @@
+
+import { AppState, InternalLink, Market, RankedKeyword, RequestOptions, ResearchData, ResearchSection } from '../types';
+import { analyzeCompetitors, findEeatSources, generateKeywordStrategy, generateOutlineSuggestions, selectRelevantInternalLinks } from './gemini';
+import { callWebhookTool } from './webhook';
+
+export const RESEARCH_SECTIONS: ResearchSection[] = ['keywords', 'competitors', 'eeatSources', 'outlineSuggestions', 'internalLinks'];
+
+export const RESEARCH_SECTION_LABELS: Record<ResearchSection, string> = {
+    keywords: 'Target Keywords',
+    competitors: 'Competitor Analysis',
+    eeatSources: 'E-E-A-T Sources',
+    outlineSuggestions: 'Structure Suggestions',
+    internalLinks: 'Internal Links',
+};
+
+export const createEmptyResearch = (topic: string): ResearchData => ({
+    topic,
+    keywords: [],
+    rankedKeywords: [],
+    competitors: [],
+    groundingLinks: [],
+    eeatSources: [],
+    outlineSuggestions: [],
+    allInternalLinks: [],
+    internalLinks: [],
+    outlineCandidate: '',
+    updatedAt: {},
+});
+
+// Webhook tools are optional; a failing one should not block the research. A cancelled one still stops it.
+async function safeWebhookCall<T>(promise: Promise<T>, fallback: T): Promise<T> {
+    try {
+        return await promise;
+    } catch (e: any) {
+        if (e?.name === 'AbortError') throw e;
+        console.warn("Optional webhook tool failed, proceeding with fallback:", e);
+        return fallback;
+    }
+}
+
+/**
+ * Runs the API calls behind one research section and returns the fields it produces.
+ */
+export async function fetchResearchSection(section: ResearchSection, appState: AppState, options: RequestOptions = {}): Promise<Partial<ResearchData>> {
+    const { topic } = appState;
+    switch (section) {
+        case 'keywords': {
+            const rankedKeywords = await safeWebhookCall(callWebhookTool('page_ranked_keywords', appState, undefined, options), [] as RankedKeyword[]);
+            const partialWebhookCaller = (func: 'suggested_keywords', params: { keyword: string }) => {
+                return callWebhookTool(func, appState, params, options);
+            };
+            const keywords = await generateKeywordStrategy(topic, rankedKeywords, partialWebhookCaller, undefined, options);
+            return { rankedKeywords, keywords };
+        }
+        case 'competitors': {
+            const { competitors, groundingLinks } = await analyzeCompetitors(topic, options);
+            return { competitors, groundingLinks };
+        }
+        case 'eeatSources':
+            return { eeatSources: await findEeatSources(topic, options) };
+        case 'outlineSuggestions':
+            return { outlineSuggestions: await generateOutlineSuggestions(topic, options) };
+        case 'internalLinks': {
+            const allInternalLinks = await safeWebhookCall(callWebhookTool('url_map', appState, undefined, options), [] as InternalLink[]);
+            let internalLinks: InternalLink[] = [];
+            if (allInternalLinks.length > 0) {
+                try {
+                    internalLinks = await selectRelevantInternalLinks(topic, allInternalLinks, options);
+                } catch (err) {
+                    console.warn("Failed to get AI-selected internal links.", err);
+                }
+            }
+            return { allInternalLinks, internalLinks };
+        }
+    }
+}
+
+/**
+ * Keyword research for one additional market: the site's rankings and suggestions there, in the market's language.
+ */
+export async function fetchMarketKeywords(market: Market, appState: AppState, options: RequestOptions = {}): Promise<{ rankedKeywords: RankedKeyword[]; keywords: string[] }> {
+    const marketState = { websiteUrl: appState.websiteUrl, ...market };
+    const rankedKeywords = await safeWebhookCall(callWebhookTool('page_ranked_keywords', marketState, undefined, options), [] as RankedKeyword[]);
+    const partialWebhookCaller = (func: 'suggested_keywords', params: { keyword: string }) => {
+        return callWebhookTool(func, marketState, params, options);
+    };
+    const keywords = await generateKeywordStrategy(appState.topic, rankedKeywords, partialWebhookCaller, market, options);
+    return { rankedKeywords, keywords };
+}
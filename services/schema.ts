@@ -0,0 +1,85 @@
+
+import { JsonSchema } from './providers';
+
+// Thrown when a model's structured output still fails validation after every repair attempt
+export class StructuredOutputError extends Error {
+    constructor(public readonly errors: string[], public readonly lastResponse: string) {
+        super(`Model output did not match the expected format: ${errors.slice(0, 3).join('; ')}`);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+const describeType = (value: unknown) => value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+/**
+ * Checks a parsed value against a schema and returns one readable message per problem.
+ * An empty list means the value is valid.
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+    switch (schema.type) {
+        case 'string':
+            if (typeof value !== 'string') return [`${path}: expected a string, got ${describeType(value)}`];
+            if (schema.enum && !schema.enum.includes(value)) return [`${path}: expected one of ${schema.enum.map(v => `"${v}"`).join(', ')}, got "${value}"`];
+            return [];
+        case 'number':
+        case 'integer':
+            if (typeof value !== 'number' || Number.isNaN(value)) return [`${path}: expected a number, got ${describeType(value)}`];
+            if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path}: expected an integer, got ${value}`];
+            return [];
+        case 'boolean':
+            return typeof value === 'boolean' ? [] : [`${path}: expected a boolean, got ${describeType(value)}`];
+        case 'array': {
+            if (!Array.isArray(value)) return [`${path}: expected an array, got ${describeType(value)}`];
+            const errors: string[] = [];
+            if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: expected at least ${schema.minItems} items, got ${value.length}`);
+            if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: expected at most ${schema.maxItems} items, got ${value.length}`);
+            if (schema.items) {
+                value.forEach((item, i) => errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${i}]`)));
+            }
+            return errors;
+        }
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path}: expected an object, got ${describeType(value)}`];
+            const record = value as Record<string, unknown>;
+            const errors: string[] = [];
+            for (const key of schema.required ?? []) {
+                if (record[key] === undefined) errors.push(`${path}.${key}: required property is missing`);
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+                if (record[key] !== undefined) errors.push(...validateAgainstSchema(record[key], propertySchema, `${path}.${key}`));
+            }
+            return errors;
+        }
+    }
+}
+
+// Models often wrap JSON in markdown fences or surround it with commentary
+function extractJson(text: string): string {
+    const match = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    if (match) return match[1].trim();
+
+    const firstOpen = text.search(/[{\[]/);
+    if (firstOpen !== -1) {
+        const lastIndex = text.lastIndexOf(text[firstOpen] === '{' ? '}' : ']');
+        if (lastIndex !== -1) {
+            return text.substring(firstOpen, lastIndex + 1);
+        }
+    }
+
+    return text.trim();
+}
+
+/**
+ * Parses free-form model text as JSON and validates it. Parse failures are reported as validation
+ * errors so they can be sent back to the model like any other mistake.
+ */
+export function parseStructuredOutput<T>(text: string, schema: JsonSchema): { value: T | null; errors: string[] } {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(extractJson(text));
+    } catch (error: any) {
+        return { value: null, errors: [`$: response is not valid JSON (${error.message})`] };
+    }
+    const errors = validateAgainstSchema(parsed, schema);
+    return { value: errors.length > 0 ? null : parsed as T, errors };
+}
@@ -0,0 +1,54 @@
+
+import { StyleGuide } from '../types';
+
+// Website-level defaults, so every new project for a site starts with the same house style
+const WEBSITE_STYLE_GUIDES_KEY = 'rankensteinStyleGuides';
+
+export const createEmptyStyleGuide = (): StyleGuide => ({
+    brandVoice: '', bannedWords: [], readingGrade: null, spelling: null, formattingRules: ''
+});
+
+export const isStyleGuideEmpty = (guide: StyleGuide | null | undefined): boolean =>
+    !guide || (!guide.brandVoice.trim() && guide.bannedWords.length === 0 && guide.readingGrade === null && !guide.spelling && !guide.formattingRules.trim());
+
+const normalizeWebsite = (websiteUrl: string) =>
+    websiteUrl.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/.*$/, '');
+
+function readWebsiteStyleGuides(): Record<string, StyleGuide> {
+    try {
+        const saved = localStorage.getItem(WEBSITE_STYLE_GUIDES_KEY);
+        return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+        console.error("Failed to parse website style guides from localStorage", error);
+        return {};
+    }
+}
+
+export function loadWebsiteStyleGuide(websiteUrl: string): StyleGuide | null {
+    const guide = readWebsiteStyleGuides()[normalizeWebsite(websiteUrl)];
+    return guide ? { ...createEmptyStyleGuide(), ...guide } : null;
+}
+
+export function saveWebsiteStyleGuide(websiteUrl: string, guide: StyleGuide) {
+    const key = normalizeWebsite(websiteUrl);
+    if (!key) return;
+    const guides = readWebsiteStyleGuides();
+    guides[key] = guide;
+    localStorage.setItem(WEBSITE_STYLE_GUIDES_KEY, JSON.stringify(guides));
+}
+
+/**
+ * Renders the style guide as a prompt section. Returns an empty string when there is nothing to enforce.
+ */
+export function formatStyleGuidePrompt(guide: StyleGuide | null | undefined): string {
+    if (!guide || isStyleGuideEmpty(guide)) return '';
+    const rules: string[] = [];
+    if (guide.brandVoice.trim()) rules.push(`- Voice & tone: ${guide.brandVoice.trim()}`);
+    if (guide.bannedWords.length > 0) rules.push(`- Never use these words or phrases: ${guide.bannedWords.map(w => `"${w}"`).join(', ')}`);
+    if (guide.readingGrade !== null) rules.push(`- Reading level: write for a US school grade ${guide.readingGrade} reader or below. Prefer short sentences and common words.`);
+    if (guide.spelling === 'British') rules.push(`- Spelling: use British English spelling (e.g. "colour", "organise", "centre").`);
+    if (guide.spelling === 'American') rules.push(`- Spelling: use American English spelling (e.g. "color", "organize", "center").`);
+    if (guide.formattingRules.trim()) rules.push(`- Formatting rules: ${guide.formattingRules.trim()}`);
+
+    return `\n**BRAND STYLE GUIDE (MANDATORY, overrides any conflicting tone instruction):**\n${rules.join('\n')}\n`;
+}
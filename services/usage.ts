@@ -0,0 +1,183 @@
+
+import { WorkflowStep } from '../types';
+import { generateId } from '../utils/helpers';
+import { ProviderHooks, UsageReport } from './providers/types';
+
+export interface UsageEvent extends UsageReport {
+    id: string;
+    timestamp: number;
+    provider: string;
+    step: WorkflowStep | null;
+    // Estimated from list prices. Null when the model has no known price, e.g. a local model.
+    costUsd: number | null;
+}
+
+export interface ProjectUsage {
+    // Calls are blocked once the estimated cost reaches the cap
+    budgetUsd: number | null;
+    // The most recent calls, for the breakdowns. Older ones are dropped.
+    events: UsageEvent[];
+    // Every call ever recorded, kept when events are dropped so cost never goes down
+    totals: UsageTotals;
+}
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    audioSeconds: number;
+    latencyMs: number;
+    costUsd: number;
+    unpricedCalls: number;
+}
+
+interface ModelPrice {
+    inputPerMillion: number;
+    outputPerMillion: number;
+    perImage?: number;
+    perAudioMinute?: number;
+}
+
+// USD list prices, only used for estimates
+const MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12 },
+    'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+    'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30 },
+    'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.5, outputPerMillion: 10 },
+    'imagen-4.0-generate-001': { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.04 },
+    'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+    'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+    'gpt-image-1': { inputPerMillion: 5, outputPerMillion: 40 },
+    'gpt-4o-mini-tts': { inputPerMillion: 0, outputPerMillion: 0, perAudioMinute: 0.015 },
+};
+
+const USAGE_KEY_PREFIX = 'rankensteinUsage:';
+// Where calls made while no project is open are recorded
+const UNASSIGNED_USAGE_KEY = 'unassigned';
+const MAX_USAGE_EVENTS = 1000;
+
+export class BudgetExceededError extends Error {
+    constructor() {
+        super("This project has reached its budget cap. Raise or remove the cap in the Usage panel to keep generating.");
+        this.name = 'BudgetExceededError';
+    }
+}
+
+export function estimateCost(report: Pick<UsageReport, 'model' | 'inputTokens' | 'outputTokens' | 'images' | 'audioSeconds'>): number | null {
+    const price = MODEL_PRICES[report.model];
+    if (!price) return null;
+    return (report.inputTokens * price.inputPerMillion + report.outputTokens * price.outputPerMillion) / 1_000_000
+        + report.images * (price.perImage ?? 0)
+        + (report.audioSeconds / 60) * (price.perAudioMinute ?? 0);
+}
+
+export function loadProjectUsage(projectId: string): ProjectUsage {
+    try {
+        const saved = localStorage.getItem(USAGE_KEY_PREFIX + projectId);
+        if (saved) {
+            const usage = { budgetUsd: null, events: [], ...JSON.parse(saved) };
+            // Usage saved before totals were kept only has its events
+            return { ...usage, totals: usage.totals ?? summarizeUsage(usage.events) };
+        }
+    } catch (error) {
+        console.error(`Failed to parse usage of project "${projectId}" from localStorage`, error);
+    }
+    return { budgetUsd: null, events: [], totals: summarizeUsage([]) };
+}
+
+function saveProjectUsage(projectId: string, usage: ProjectUsage) {
+    try {
+        localStorage.setItem(USAGE_KEY_PREFIX + projectId, JSON.stringify(usage));
+    } catch (error) {
+        console.error(`Failed to save usage of project "${projectId}" to localStorage`, error);
+    }
+}
+
+export function setProjectBudget(projectId: string, budgetUsd: number | null) {
+    saveProjectUsage(projectId, { ...loadProjectUsage(projectId), budgetUsd });
+    notifyListeners();
+}
+
+export function deleteProjectUsage(projectId: string) {
+    localStorage.removeItem(USAGE_KEY_PREFIX + projectId);
+}
+
+const addToTotals = (totals: UsageTotals, event: UsageEvent): UsageTotals => ({
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + event.inputTokens,
+    outputTokens: totals.outputTokens + event.outputTokens,
+    images: totals.images + event.images,
+    audioSeconds: totals.audioSeconds + event.audioSeconds,
+    latencyMs: totals.latencyMs + event.latencyMs,
+    costUsd: totals.costUsd + (event.costUsd ?? 0),
+    unpricedCalls: totals.unpricedCalls + (event.costUsd === null ? 1 : 0),
+});
+
+export function summarizeUsage(events: UsageEvent[]): UsageTotals {
+    const empty: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, images: 0, audioSeconds: 0, latencyMs: 0, costUsd: 0, unpricedCalls: 0 };
+    return events.reduce(addToTotals, empty);
+}
+
+export const formatCost = (costUsd: number) => costUsd > 0 && costUsd < 0.01 ? '<$0.01' : `$${costUsd.toFixed(2)}`;
+
+let usageContext: { projectId: string | null; step: WorkflowStep | null } = { projectId: null, step: null };
+
+/**
+ * Sets the project and workflow step that subsequent provider calls are charged to.
+ */
+export function setUsageContext(projectId: string | null, step: WorkflowStep | null) {
+    usageContext = { projectId, step };
+}
+
+type UsageListener = (change: { projectId: string | null; blocked: boolean }) => void;
+const listeners = new Set<UsageListener>();
+
+export function subscribeToUsage(listener: UsageListener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+function notifyListeners(blocked = false) {
+    listeners.forEach(listener => listener({ projectId: usageContext.projectId, blocked }));
+}
+
+export function isOverBudget(usage: ProjectUsage): boolean {
+    return usage.budgetUsd !== null && usage.totals.costUsd >= usage.budgetUsd;
+}
+
+/**
+ * Provider hooks that charge every call to the current project and enforce its budget cap.
+ */
+export function createUsageHooks(providerId: string): ProviderHooks {
+    return {
+        beforeRequest() {
+            const { projectId } = usageContext;
+            if (projectId && isOverBudget(loadProjectUsage(projectId))) {
+                notifyListeners(true);
+                throw new BudgetExceededError();
+            }
+        },
+        onUsage(report) {
+            const key = usageContext.projectId ?? UNASSIGNED_USAGE_KEY;
+            const usage = loadProjectUsage(key);
+            const event: UsageEvent = {
+                ...report,
+                id: generateId('usage'),
+                timestamp: Date.now(),
+                provider: providerId,
+                step: usageContext.step,
+                costUsd: estimateCost(report),
+            };
+            saveProjectUsage(key, {
+                ...usage,
+                events: [...usage.events, event].slice(-MAX_USAGE_EVENTS),
+                totals: addToTotals(usage.totals, event),
+            });
+            notifyListeners();
+        },
+    };
+}
@@ -1,24 +1,105 @@
 
-import { AppState, InternalLink, RankedKeyword } from '../types';
+import { AppState, InternalLink, RankedKeyword, RequestOptions } from '../types';
+import { DAY, withCache } from './cache';
+import { reportNote, runTask } from './progress';
+import { MOCK_MODE, findFixture, recordResponse } from './fixtures';
 
-const WEBHOOK_URL: string = 'https://agrici.app.n8n.cloud/webhook/mini-rankenstein-v9-tools';
+export type WebhookFunction = 'url_map' | 'url_scrape' | 'page_ranked_keywords' | 'suggested_keywords';
+
+export const WEBHOOK_FUNCTIONS: { id: WebhookFunction; label: string; description: string }[] = [
+    { id: 'url_map', label: 'URL map', description: 'Pages of the website, used for internal links.' },
+    { id: 'url_scrape', label: 'URL scrape', description: 'Text of a single page.' },
+    { id: 'page_ranked_keywords', label: 'Ranked keywords', description: 'Keywords the website ranks for.' },
+    { id: 'suggested_keywords', label: 'Keyword suggestions', description: 'Related keywords with volume and competition.' },
+];
+
+export type WebhookAuthType = 'none' | 'bearer' | 'header';
+
+export interface WebhookSettings {
+    // Every function is posted here unless it has its own endpoint. Empty turns the webhook off.
+    url: string;
+    auth: WebhookAuthType;
+    // The bearer token, or the value of the custom header
+    token: string;
+    headerName: string;
+    endpoints: Record<WebhookFunction, string>;
+}
+
+const WEBHOOK_SETTINGS_KEY = 'rankensteinWebhookSettings';
+
+export const DEFAULT_WEBHOOK_SETTINGS: WebhookSettings = {
+    url: 'https://agrici.app.n8n.cloud/webhook/mini-rankenstein-v9-tools',
+    auth: 'none',
+    token: '',
+    headerName: 'X-API-Key',
+    endpoints: { url_map: '', url_scrape: '', page_ranked_keywords: '', suggested_keywords: '' },
+};
+
+export function loadWebhookSettings(): WebhookSettings {
+    try {
+        const saved = localStorage.getItem(WEBHOOK_SETTINGS_KEY);
+        if (!saved) return DEFAULT_WEBHOOK_SETTINGS;
+        const parsed = JSON.parse(saved);
+        return {
+            ...DEFAULT_WEBHOOK_SETTINGS,
+            ...parsed,
+            endpoints: { ...DEFAULT_WEBHOOK_SETTINGS.endpoints, ...parsed.endpoints },
+        };
+    } catch (error) {
+        console.error("Failed to parse webhook settings from localStorage", error);
+        return DEFAULT_WEBHOOK_SETTINGS;
+    }
+}
+
+export function saveWebhookSettings(settings: WebhookSettings) {
+    localStorage.setItem(WEBHOOK_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+const webhookEndpoint = (func: WebhookFunction, settings: WebhookSettings) => (settings.endpoints[func] || settings.url).trim();
+
+function webhookHeaders(settings: WebhookSettings): Record<string, string> {
+    if (!settings.token) return {};
+    if (settings.auth === 'bearer') return { Authorization: `Bearer ${settings.token}` };
+    if (settings.auth === 'header' && settings.headerName.trim()) return { [settings.headerName.trim()]: settings.token };
+    return {};
+}
 
 interface WebhookPayload {
-    function: 'url_map' | 'url_scrape' | 'page_ranked_keywords' | 'suggested_keywords';
+    function: WebhookFunction;
     url?: string;
     country?: string;
     language?: string;
     keyword?: string;
 }
 
+// Site data changes slowly and is the same for every project on the website, so it is reused for days
+const WEBHOOK_CACHE_TTLS: Record<WebhookFunction, number> = {
+    url_map: 7 * DAY,
+    page_ranked_keywords: 3 * DAY,
+    suggested_keywords: 7 * DAY,
+    url_scrape: DAY,
+};
+
+const describeWebhookCall = (payload: WebhookPayload): string => {
+    switch (payload.function) {
+        case 'url_map': return 'Mapping the pages of your site';
+        case 'page_ranked_keywords': return 'Fetching the keywords your site ranks for';
+        case 'suggested_keywords': return `Fetching keyword suggestions for "${payload.keyword}"`;
+        case 'url_scrape': return `Reading ${payload.url}`;
+    }
+};
+
 export async function callWebhookTool(
-    func: WebhookPayload['function'],
+    func: WebhookFunction,
     appState: Pick<AppState, 'websiteUrl' | 'country' | 'language'>,
-    extraParams?: { url?: string; keyword?: string }
+    extraParams?: { url?: string; keyword?: string },
+    options: RequestOptions = {}
 ): Promise<any> {
+    const settings = loadWebhookSettings();
+    const endpoint = webhookEndpoint(func, settings);
     // Quick check to warn user if they haven't set up the webhook
-    if (WEBHOOK_URL === 'YOUR-WEBHOOK-URL' || !WEBHOOK_URL) {
-        console.warn("Webhook URL is not configured. Please update services/webhook.ts with your n8n/backend URL.");
+    if (MOCK_MODE !== 'replay' && !endpoint) {
+        console.warn(`No webhook endpoint is configured for "${func}". Set one in Settings → Webhook.`);
         if (func === 'url_map') return [] as InternalLink[];
         if (func === 'page_ranked_keywords') return [] as RankedKeyword[];
         return null;
@@ -32,13 +113,95 @@ export async function callWebhookTool(
         ...extraParams
     };
 
+    const task = {
+        id: `webhook:${func}:${payload.keyword ?? payload.url}`,
+        label: describeWebhookCall(payload),
+        summarize: (result: any) => Array.isArray(result) ? `${result.length} results` : undefined,
+    };
+    return runTask(task, options, async options => {
+        let fetched = false;
+        const result = await withCache(
+            `webhook:${func}`,
+            WEBHOOK_CACHE_TTLS[func],
+            { webhook: MOCK_MODE === 'replay' ? 'mock' : endpoint, ...payload },
+            () => {
+                fetched = true;
+                return fetchWebhookTool(payload, settings, options.signal);
+            },
+            { bypass: options.bypassCache }
+        );
+        if (!fetched) reportNote(options, 'Reused a cached response');
+        return result;
+    });
+}
+
+function fetchWebhookTool(payload: WebhookPayload, settings: WebhookSettings, signal?: AbortSignal): Promise<any> {
+    if (MOCK_MODE === 'replay') return replayWebhookTool(payload);
+    if (MOCK_MODE === 'record') return recordResponse('webhook', payload, () => requestWebhookTool(payload, settings, signal));
+    return requestWebhookTool(payload, settings, signal);
+}
+
+// Sample requests for the connection test
+const TEST_PAYLOADS: Record<WebhookFunction, WebhookPayload> = {
+    url_map: { function: 'url_map', url: 'https://example.com', country: 'United States', language: 'English' },
+    url_scrape: { function: 'url_scrape', url: 'https://example.com', country: 'United States', language: 'English' },
+    page_ranked_keywords: { function: 'page_ranked_keywords', url: 'https://example.com', country: 'United States', language: 'English' },
+    suggested_keywords: { function: 'suggested_keywords', keyword: 'content marketing', country: 'United States', language: 'English' },
+};
+
+const TEST_TIMEOUT = 30_000;
+
+/**
+ * Calls one function with a sample request and the given, possibly unsaved, settings.
+ * Skips the cache and fixtures. Resolves to a short description of the answer and rejects when it fails.
+ */
+export async function testWebhookFunction(func: WebhookFunction, settings: WebhookSettings): Promise<string> {
+    if (!webhookEndpoint(func, settings)) throw new Error('No endpoint configured.');
+    const result = await requestWebhookTool(TEST_PAYLOADS[func], settings, AbortSignal.timeout(TEST_TIMEOUT));
+    if (Array.isArray(result)) return result.length > 0 ? `${result.length} results` : 'Responded with no results';
+    return result ? 'Responded' : 'Responded with an empty body';
+}
+
+const MOCK_PAGES = ['About Us', 'Pricing', 'Getting Started Guide', 'Case Studies', 'Blog', 'Frequently Asked Questions', 'Contact', 'Product Overview'];
+
+// A recorded response when there is one, otherwise stable made-up data shaped like the real webhook's
+async function replayWebhookTool(payload: WebhookPayload): Promise<any> {
+    const fixture = await findFixture('webhook', payload);
+    if (fixture !== undefined) return fixture;
+
+    const site = (payload.url || 'https://example.com').replace(/\/+$/, '');
+    const keyword = payload.keyword || 'content marketing';
+    switch (payload.function) {
+        case 'url_map':
+            return MOCK_PAGES.map((title): InternalLink => ({ title, url: `${site}/${title.toLowerCase().replace(/ /g, '-')}` }));
+        case 'page_ranked_keywords':
+            return ['guide', 'pricing', 'examples', 'best tools', 'for beginners'].map((suffix, i): RankedKeyword => ({
+                keyword: `${keyword} ${suffix}`,
+                competition: 0.2 * i,
+                competition_level: ['LOW', 'MEDIUM', 'HIGH'][i % 3],
+                cpc: 0.5 + i,
+                search_volume: 1000 * (5 - i),
+                difficulty: 15 * (i + 1),
+                intent: i % 2 === 0 ? 'informational' : 'commercial',
+            }));
+        case 'suggested_keywords':
+            return ['ideas', 'tips', 'checklist', 'examples', 'vs alternatives', 'for small business'].map(suffix => `${keyword} ${suffix}`);
+        case 'url_scrape':
+            return { url: payload.url, title: `Mock page for ${payload.url}`, content: `This is placeholder content for ${payload.url}, served in mock mode.` };
+    }
+}
+
+async function requestWebhookTool(payload: WebhookPayload, settings: WebhookSettings, signal?: AbortSignal): Promise<any> {
+    const func = payload.function;
     try {
-        const response = await fetch(WEBHOOK_URL, {
+        const response = await fetch(webhookEndpoint(func, settings), {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
+                ...webhookHeaders(settings),
             },
             body: JSON.stringify(payload),
+            signal,
         });
 
         if (!response.ok) {
@@ -127,7 +290,9 @@ export async function callWebhookTool(
         return responseData;
 
     } catch (error: any) {
+        // Cancellations pass through unchanged so callers can tell them from failures
+        if (signal?.aborted || error?.name === 'AbortError') throw error;
         console.error(`Error calling webhook for function "${func}":`, error);
-        throw new Error(`Failed to get data from custom tool: ${func}. ${error.message}`);
+        throw new Error(`Failed to get data from custom tool: ${func}. ${error.message}`, { cause: error });
     }
 }
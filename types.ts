@@ -1,13 +1,9 @@
 
-export const WORKFLOW_STEPS = [
-    'Setup',
-    'Topic Ideation',
-    'Research & Outline',
-    'Drafting',
-    'Publish',
-] as const;
+import type { PIPELINES, STEP_REGISTRY } from './workflow';
 
-export type WorkflowStep = typeof WORKFLOW_STEPS[number];
+// Steps and the pipelines they form are registered in workflow.tsx
+export type WorkflowStep = keyof typeof STEP_REGISTRY;
+export type ProjectType = keyof typeof PIPELINES;
 
 export interface RankedKeyword {
     keyword: string;
@@ -33,7 +29,72 @@ export interface AppState {
     outline: string[];
     draft: string;
     imageUrl: string;
+    audioUrl: string;
     internalLinks: InternalLink[];
+    draftSnapshots: DraftSnapshot[];
+    research: ResearchData | null;
+    styleGuide: StyleGuide | null;
+    // Extra markets beyond the primary country/language pair
+    markets: Market[];
+    marketVariants: MarketVariant[];
+}
+
+export interface Market {
+    country: string;
+    language: string;
+}
+
+// A localized version of the draft for one additional market, with its own keyword research
+export interface MarketVariant extends Market {
+    rankedKeywords: RankedKeyword[];
+    keywords: string[];
+    title: string;
+    draft: string;
+    updatedAt: number;
+}
+
+export type SpellingVariant = 'American' | 'British';
+
+// Brand voice and house rules applied to every text generation of a project
+export interface StyleGuide {
+    brandVoice: string;
+    bannedWords: string[];
+    readingGrade: number | null;
+    spelling: SpellingVariant | null;
+    formattingRules: string;
+}
+
+// A saved workspace entry. Each project owns its own AppState and step progress.
+export interface Project {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    archived: boolean;
+    type: ProjectType;
+    state: AppState;
+    activeStep: WorkflowStep;
+    highestCompletedStepIndex: number;
+}
+
+export type ProjectSummary = Omit<Project, 'state'> & Pick<AppState, 'websiteUrl' | 'topic'>;
+
+// A single editable unit of the article in the Drafting Studio
+export interface DraftBlock {
+    id: string;
+    content: string;
+}
+
+export type DraftSnapshotKind = 'raw' | 'reviewed' | 'checkpoint';
+
+// A named copy of the draft at a point in time, kept so earlier versions can be compared and restored
+export interface DraftSnapshot {
+    id: string;
+    name: string;
+    kind: DraftSnapshotKind;
+    createdAt: number;
+    title: string;
+    blocks: DraftBlock[];
 }
 
 // API result types
@@ -58,4 +119,59 @@ export interface ResearchResult {
     keywords: string[];
     competitors: Omit<CompetitorInfo, 'url'>[];
     outline?: string[] | string; // Make outline optional for two-step generation
-}
\ No newline at end of file
+}
+
+export type ResearchSection = 'keywords' | 'competitors' | 'eeatSources' | 'outlineSuggestions' | 'internalLinks';
+
+// Research & Outline results for a topic, kept so revisiting the step doesn't repeat the API calls
+export interface ResearchData {
+    topic: string;
+    keywords: string[];
+    rankedKeywords: RankedKeyword[];
+    competitors: Omit<CompetitorInfo, 'url'>[];
+    groundingLinks: CompetitorInfo[];
+    eeatSources: EeatSource[];
+    outlineSuggestions: string[];
+    allInternalLinks: InternalLink[];
+    internalLinks: InternalLink[];
+    outlineCandidate: string;
+    updatedAt: Partial<Record<ResearchSection, number>>;
+}
+
+// A tool the draft assistant ran while answering, shown in the chat panel
+export interface ChatToolInvocation {
+    id: string;
+    name: string;
+    args: Record<string, unknown>;
+    status: 'running' | 'done' | 'failed';
+    // The tool's JSON output, or the error message when it failed
+    result?: string;
+}
+
+// A change the draft assistant proposes. Nothing is applied until the user accepts it.
+// "before" is the text the assistant saw, so a block edited since can be spotted.
+export type DraftPatch =
+    | { id: string; op: 'replace'; blockId: string; before: string; content: string }
+    | { id: string; op: 'insert_after'; blockId: string; before: string; content: string }
+    | { id: string; op: 'delete'; blockId: string; before: string }
+    | { id: string; op: 'retitle'; before: string; title: string };
+
+// Per-call options accepted by the generation and webhook services
+export interface RequestOptions {
+    // Fetch a fresh response instead of reusing a cached one
+    bypassCache?: boolean;
+    // Aborts the request, including any retries still waiting
+    signal?: AbortSignal;
+    // Receives live updates about the sub-tasks the request runs
+    onProgress?: (update: ProgressUpdate) => void;
+}
+
+export interface ProgressUpdate {
+    // Updates of one sub-task share an id. Notes carry the id of the task they happened in.
+    taskId: string;
+    label: string;
+    status: 'started' | 'succeeded' | 'failed' | 'note';
+    // Result summary, error message or note text
+    detail?: string;
+    timestamp: number;
+}
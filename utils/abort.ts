@@ -0,0 +1,42 @@
+
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Waits for `ms` milliseconds, rejecting early if the signal aborts.
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Hands out AbortSignals for a component's requests. `cancel` aborts every one handed out so far,
+ * and so does unmounting, so late responses never update a component that is gone.
+ */
+export function useAbortSignals() {
+    const controllers = useRef(new Set<AbortController>());
+
+    const cancel = useCallback(() => {
+        controllers.current.forEach(controller => controller.abort());
+        controllers.current.clear();
+    }, []);
+
+    useEffect(() => cancel, [cancel]);
+
+    const createSignal = useCallback(() => {
+        const controller = new AbortController();
+        controllers.current.add(controller);
+        return controller.signal;
+    }, []);
+
+    return { createSignal, cancel };
+}
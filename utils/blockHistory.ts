@@ -0,0 +1,171 @@
+
+import { useCallback, useReducer } from 'react';
+import { DraftBlock } from '../types';
+import { generateId } from './helpers';
+
+// Every change to the draft blocks is recorded as a reversible command.
+export type BlockCommand =
+    | { type: 'update'; blockId: string; before: string; after: string }
+    | { type: 'insert'; index: number; block: DraftBlock }
+    | { type: 'delete'; index: number; block: DraftBlock }
+    | { type: 'replaceAll'; before: DraftBlock[]; after: DraftBlock[] };
+
+// What callers describe; the reducer fills in the "before" side from the current blocks.
+export type BlockCommandInput =
+    | { type: 'update'; blockId: string; content: string }
+    | { type: 'insert'; index: number; block: DraftBlock }
+    | { type: 'delete'; blockId: string }
+    | { type: 'replaceAll'; blocks: DraftBlock[] };
+
+export interface HistoryEntry {
+    id: string;
+    label: string;
+    timestamp: number;
+    command: BlockCommand;
+}
+
+interface HistoryState {
+    blocks: DraftBlock[];
+    past: HistoryEntry[];
+    future: HistoryEntry[];
+}
+
+type HistoryAction =
+    | { type: 'execute'; label: string; input: BlockCommandInput }
+    | { type: 'undo' }
+    | { type: 'redo' }
+    | { type: 'jump'; entryId: string }
+    | { type: 'reset'; blocks: DraftBlock[] };
+
+const MAX_HISTORY = 100;
+
+// Pseudo entry ID for jumping back to the state before any recorded command.
+export const HISTORY_START_ID = 'history-start';
+
+export function applyCommand(blocks: DraftBlock[], command: BlockCommand): DraftBlock[] {
+    switch (command.type) {
+        case 'update':
+            return blocks.map(b => b.id === command.blockId ? { ...b, content: command.after } : b);
+        case 'insert': {
+            const next = [...blocks];
+            next.splice(command.index, 0, command.block);
+            return next;
+        }
+        case 'delete':
+            return blocks.filter(b => b.id !== command.block.id);
+        case 'replaceAll':
+            return command.after;
+    }
+}
+
+export function revertCommand(blocks: DraftBlock[], command: BlockCommand): DraftBlock[] {
+    switch (command.type) {
+        case 'update':
+            return blocks.map(b => b.id === command.blockId ? { ...b, content: command.before } : b);
+        case 'insert':
+            return blocks.filter(b => b.id !== command.block.id);
+        case 'delete': {
+            const next = [...blocks];
+            next.splice(Math.min(command.index, next.length), 0, command.block);
+            return next;
+        }
+        case 'replaceAll':
+            return command.before;
+    }
+}
+
+function buildCommand(blocks: DraftBlock[], input: BlockCommandInput): BlockCommand | null {
+    switch (input.type) {
+        case 'update': {
+            const block = blocks.find(b => b.id === input.blockId);
+            if (!block || block.content === input.content) return null;
+            return { type: 'update', blockId: input.blockId, before: block.content, after: input.content };
+        }
+        case 'insert':
+            return { type: 'insert', index: Math.min(Math.max(0, input.index), blocks.length), block: input.block };
+        case 'delete': {
+            const index = blocks.findIndex(b => b.id === input.blockId);
+            if (index === -1) return null;
+            return { type: 'delete', index, block: blocks[index] };
+        }
+        case 'replaceAll':
+            return { type: 'replaceAll', before: blocks, after: input.blocks };
+    }
+}
+
+function historyReducer(state: HistoryState, action: HistoryAction): HistoryState {
+    switch (action.type) {
+        case 'execute': {
+            const command = buildCommand(state.blocks, action.input);
+            if (!command) return state;
+            const entry: HistoryEntry = { id: generateId('cmd'), label: action.label, timestamp: Date.now(), command };
+            return {
+                blocks: applyCommand(state.blocks, command),
+                past: [...state.past, entry].slice(-MAX_HISTORY),
+                future: [],
+            };
+        }
+        case 'undo': {
+            const entry = state.past[state.past.length - 1];
+            if (!entry) return state;
+            return {
+                blocks: revertCommand(state.blocks, entry.command),
+                past: state.past.slice(0, -1),
+                future: [entry, ...state.future],
+            };
+        }
+        case 'redo': {
+            const [entry, ...rest] = state.future;
+            if (!entry) return state;
+            return {
+                blocks: applyCommand(state.blocks, entry.command),
+                past: [...state.past, entry],
+                future: rest,
+            };
+        }
+        case 'jump': {
+            // Undo or redo repeatedly until the given entry is the most recent applied one
+            let next = state;
+            if (action.entryId === HISTORY_START_ID) {
+                while (next.past.length > 0) next = historyReducer(next, { type: 'undo' });
+            } else if (next.past.some(e => e.id === action.entryId)) {
+                while (next.past.length > 0 && next.past[next.past.length - 1].id !== action.entryId) {
+                    next = historyReducer(next, { type: 'undo' });
+                }
+            } else if (next.future.some(e => e.id === action.entryId)) {
+                while (next.past[next.past.length - 1]?.id !== action.entryId) {
+                    next = historyReducer(next, { type: 'redo' });
+                }
+            }
+            return next;
+        }
+        case 'reset':
+            return { blocks: action.blocks, past: [], future: [] };
+    }
+}
+
+/**
+ * Holds the draft blocks together with an undo/redo stack of the commands applied to them.
+ */
+export function useBlockHistory(initialBlocks: DraftBlock[] = []) {
+    const [state, dispatch] = useReducer(historyReducer, { blocks: initialBlocks, past: [], future: [] });
+
+    const execute = useCallback((label: string, input: BlockCommandInput) => dispatch({ type: 'execute', label, input }), []);
+    const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+    const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+    const jumpTo = useCallback((entryId: string) => dispatch({ type: 'jump', entryId }), []);
+    const reset = useCallback((blocks: DraftBlock[]) => dispatch({ type: 'reset', blocks }), []);
+
+    return {
+        blocks: state.blocks,
+        past: state.past,
+        future: state.future,
+        canUndo: state.past.length > 0,
+        canRedo: state.future.length > 0,
+        execute,
+        undo,
+        redo,
+        jumpTo,
+        reset,
+    };
+}
@@ -0,0 +1,81 @@
+
+import { DraftBlock } from '../types';
+
+// A heading block and the blocks under it, up to the next heading
+export interface DraftSection {
+    // ID of the heading block, or of the first block for the text before any heading
+    id: string;
+    heading: string;
+    blocks: DraftBlock[];
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+)/;
+
+const STOPWORDS = new Set([
+    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'can', 'was', 'our', 'out', 'has', 'how', 'its', 'may',
+    'this', 'that', 'with', 'from', 'they', 'have', 'what', 'when', 'which', 'will', 'your', 'about', 'there',
+    'their', 'would', 'could', 'should', 'into', 'more', 'make', 'does', 'article', 'section', 'paragraph', 'draft',
+]);
+
+const tokenize = (text: string) =>
+    (text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []).filter(word => !STOPWORDS.has(word));
+
+export function indexDraft(blocks: DraftBlock[]): DraftSection[] {
+    const sections: DraftSection[] = [];
+    for (const block of blocks) {
+        const heading = block.content.trim().match(HEADING_PATTERN);
+        const current = sections[sections.length - 1];
+        if (heading || !current) {
+            sections.push({ id: block.id, heading: heading ? heading[2].trim() : 'Introduction', blocks: [block] });
+        } else {
+            current.blocks.push(block);
+        }
+    }
+    return sections;
+}
+
+export const formatSection = (section: DraftSection) =>
+    section.blocks.map(b => `[${b.id}]\n${b.content}`).join('\n\n');
+
+export const formatOutline = (sections: DraftSection[]) =>
+    sections.map(s => `- [${s.id}] ${s.heading} (${s.blocks.length} block${s.blocks.length === 1 ? '' : 's'})`).join('\n');
+
+/**
+ * Picks the sections that best match a question, scored by TF-IDF over their words with the heading
+ * counted twice, until `maxChars` is used up. Sections whose block IDs the question mentions come first.
+ * Questions that match nothing (e.g. "make it shorter") get the sections in article order.
+ * The result keeps article order.
+ */
+export function retrieveSections(sections: DraftSection[], query: string, maxChars: number): DraftSection[] {
+    const documents = sections.map(s => tokenize(`${s.heading} ${s.heading} ${s.blocks.map(b => b.content).join(' ')}`));
+    const documentFrequency = new Map<string, number>();
+    documents.forEach(words => new Set(words).forEach(word => documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1)));
+
+    const queryWords = [...new Set(tokenize(query))];
+    const scores = sections.map((section, i) => {
+        if (section.blocks.some(b => query.includes(b.id))) return Infinity;
+        const words = documents[i];
+        if (words.length === 0) return 0;
+        return queryWords.reduce((score, word) => {
+            const count = words.filter(w => w === word).length;
+            if (count === 0) return score;
+            const idf = Math.log(1 + sections.length / documentFrequency.get(word)!);
+            // Normalized by length so long sections don't win on size alone
+            return score + (count / Math.sqrt(words.length)) * idf;
+        }, 0);
+    });
+
+    const ranked = sections.map((_, i) => i).filter(i => scores[i] > 0).sort((a, b) => scores[b] - scores[a]);
+    const order = ranked.length > 0 ? ranked : sections.map((_, i) => i);
+
+    const picked = new Set<number>();
+    let used = 0;
+    for (const i of order) {
+        const size = formatSection(sections[i]).length;
+        // The best match is always sent, even when it alone is over the budget
+        if (picked.size > 0 && used + size > maxChars) continue;
+        picked.add(i);
+        used += size;
+    }
+    return sections.filter((_, i) => picked.has(i));
+}
@@ -0,0 +1,95 @@
+
+import { DraftBlock, DraftSnapshot, DraftSnapshotKind } from '../types';
+import { generateId } from './helpers';
+
+// Oldest automatic snapshots are dropped first once this many are stored
+export const MAX_DRAFT_SNAPSHOTS = 20;
+
+export const SNAPSHOT_KIND_LABELS: Record<DraftSnapshotKind, string> = {
+    raw: 'Raw stream',
+    reviewed: 'Post-review',
+    checkpoint: 'Checkpoint',
+};
+
+export function createSnapshot(name: string, kind: DraftSnapshotKind, title: string, blocks: DraftBlock[]): DraftSnapshot {
+    return {
+        id: generateId('snapshot'),
+        name: name.trim() || SNAPSHOT_KIND_LABELS[kind],
+        kind,
+        createdAt: Date.now(),
+        title,
+        blocks: blocks.map(b => ({ ...b })),
+    };
+}
+
+const sameContent = (a: DraftSnapshot, b: DraftSnapshot) =>
+    a.title === b.title && a.blocks.length === b.blocks.length && a.blocks.every((block, i) => block.content === b.blocks[i].content);
+
+/**
+ * Appends a snapshot and trims the list, preferring to keep manual checkpoints over automatic ones.
+ * A snapshot with the same content as the latest one is not added.
+ */
+export function addSnapshot(snapshots: DraftSnapshot[], snapshot: DraftSnapshot): DraftSnapshot[] {
+    const latest = snapshots[snapshots.length - 1];
+    if (latest && sameContent(latest, snapshot)) return snapshots;
+    const next = [...snapshots, snapshot];
+    while (next.length > MAX_DRAFT_SNAPSHOTS) {
+        const automaticIndex = next.findIndex(s => s.kind !== 'checkpoint');
+        next.splice(automaticIndex === -1 ? 0 : automaticIndex, 1);
+    }
+    return next;
+}
+
+export type BlockDiffRow =
+    | { type: 'equal'; left: DraftBlock; right: DraftBlock }
+    | { type: 'changed'; left: DraftBlock; right: DraftBlock }
+    | { type: 'removed'; left: DraftBlock }
+    | { type: 'added'; right: DraftBlock };
+
+const normalize = (content: string) => content.trim().replace(/\s+/g, ' ');
+
+/**
+ * Aligns two block lists using their longest common subsequence of contents.
+ * Unmatched blocks that sit between the same pair of matches are paired up as "changed".
+ */
+export function diffBlocks(left: DraftBlock[], right: DraftBlock[]): BlockDiffRow[] {
+    const a = left.map(b => normalize(b.content));
+    const b = right.map(b => normalize(b.content));
+
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const rows: BlockDiffRow[] = [];
+    let removed: DraftBlock[] = [];
+    let added: DraftBlock[] = [];
+    const flush = () => {
+        const paired = Math.min(removed.length, added.length);
+        for (let k = 0; k < paired; k++) rows.push({ type: 'changed', left: removed[k], right: added[k] });
+        removed.slice(paired).forEach(block => rows.push({ type: 'removed', left: block }));
+        added.slice(paired).forEach(block => rows.push({ type: 'added', right: block }));
+        removed = [];
+        added = [];
+    };
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            flush();
+            rows.push({ type: 'equal', left: left[i], right: right[j] });
+            i++;
+            j++;
+        } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+            removed.push(left[i++]);
+        } else {
+            added.push(right[j++]);
+        }
+    }
+    flush();
+    return rows;
+}
@@ -44,12 +44,37 @@ export function fileToBase64(file: File): Promise<string> {
     });
 }
 
+export function dataUrlToBlob(dataUrl: string): Blob {
+    const match = dataUrl.match(/^data:([^;,]+)?(;base64)?,(.*)$/s);
+    if (!match) throw new Error("Invalid data URL.");
+    const [, mimeType = 'application/octet-stream', isBase64, data] = match;
+    const bytes = isBase64 ? decode(data) : new TextEncoder().encode(decodeURIComponent(data));
+    return new Blob([bytes], { type: mimeType });
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(blob);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+}
+
 export function downloadTxtFile(content: string, filename: string) {
+    downloadBlob(new Blob([content], { type: 'text/plain' }), filename);
+}
+
+export function downloadBlob(file: Blob, filename: string) {
     const element = document.createElement("a");
-    const file = new Blob([content], { type: 'text/plain' });
     element.href = URL.createObjectURL(file);
     element.download = filename;
     document.body.appendChild(element); // Required for this to work in FireFox
     element.click();
     document.body.removeChild(element);
 }
+
+// ID helpers
+export function generateId(prefix: string): string {
+    return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,51 @@
+
+import { useCallback, useState } from 'react';
+import { ProgressUpdate } from '../types';
+
+export interface ProgressTask {
+    id: string;
+    label: string;
+    status: 'running' | 'succeeded' | 'failed';
+    startedAt: number;
+    finishedAt: number | null;
+    detail?: string;
+    notes: string[];
+}
+
+/**
+ * Folds the raw update stream into one entry per task, in the order the tasks first appeared.
+ */
+export function groupProgressUpdates(updates: ProgressUpdate[]): ProgressTask[] {
+    const tasks = new Map<string, ProgressTask>();
+    for (const update of updates) {
+        let task = tasks.get(update.taskId);
+        if (!task) {
+            task = { id: update.taskId, label: update.label, status: 'running', startedAt: update.timestamp, finishedAt: null, notes: [] };
+            tasks.set(update.taskId, task);
+        }
+        switch (update.status) {
+            case 'started':
+                // A task id can run again, e.g. after a retry from the UI
+                Object.assign(task, { status: 'running', startedAt: update.timestamp, finishedAt: null, detail: undefined, notes: [] });
+                break;
+            case 'succeeded':
+            case 'failed':
+                Object.assign(task, { status: update.status, finishedAt: update.timestamp, detail: update.detail });
+                break;
+            case 'note':
+                if (update.detail) task.notes.push(update.detail);
+                break;
+        }
+    }
+    return [...tasks.values()];
+}
+
+/**
+ * Collects the progress updates of a request so a loading view can render them.
+ */
+export function useProgressLog() {
+    const [updates, setUpdates] = useState<ProgressUpdate[]>([]);
+    const onProgress = useCallback((update: ProgressUpdate) => setUpdates(prev => [...prev, update]), []);
+    const reset = useCallback(() => setUpdates([]), []);
+    return { updates, onProgress, reset };
+}
@@ -0,0 +1,20 @@
+
+// Hash-based routes, so deep links work on any static host without server rewrites:
+//   #/projects                          -> project library
+//   #/projects/<projectId>/<step-slug>  -> a workflow step of a project
+export type Route =
+    | { view: 'dashboard' }
+    | { view: 'project'; projectId: string; stepSlug: string | null };
+
+export function parseRoute(hash: string): Route | null {
+    const segments = hash.replace(/^#\/?/, '').split('/').filter(Boolean).map(decodeURIComponent);
+    if (segments[0] !== 'projects') return null;
+    if (segments.length === 1) return { view: 'dashboard' };
+    return { view: 'project', projectId: segments[1], stepSlug: segments[2] ?? null };
+}
+
+export function buildRoute(route: Route): string {
+    if (route.view === 'dashboard') return '#/projects';
+    const base = `#/projects/${encodeURIComponent(route.projectId)}`;
+    return route.stepSlug ? `${base}/${encodeURIComponent(route.stepSlug)}` : base;
+}
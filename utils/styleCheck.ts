@@ -0,0 +1,99 @@
+
+import { SpellingVariant, StyleGuide } from '../types';
+
+export interface StyleViolation {
+    rule: 'bannedWord' | 'spelling' | 'readingLevel';
+    message: string;
+    // The offending word, if the rule is word-based
+    term?: string;
+    count?: number;
+}
+
+// Common words whose spelling differs between American and British English
+const SPELLING_PAIRS: [american: string, british: string][] = [
+    ['color', 'colour'], ['favorite', 'favourite'], ['behavior', 'behaviour'], ['honor', 'honour'],
+    ['flavor', 'flavour'], ['neighbor', 'neighbour'], ['labor', 'labour'], ['center', 'centre'],
+    ['theater', 'theatre'], ['fiber', 'fibre'], ['organize', 'organise'], ['organization', 'organisation'],
+    ['realize', 'realise'], ['recognize', 'recognise'], ['optimize', 'optimise'], ['optimization', 'optimisation'],
+    ['analyze', 'analyse'], ['customize', 'customise'], ['prioritize', 'prioritise'], ['minimize', 'minimise'],
+    ['maximize', 'maximise'], ['defense', 'defence'], ['offense', 'offence'], ['catalog', 'catalogue'],
+    ['dialog', 'dialogue'], ['gray', 'grey'], ['traveling', 'travelling'], ['canceled', 'cancelled'],
+    ['modeling', 'modelling'], ['jewelry', 'jewellery'], ['aluminum', 'aluminium'], ['mom', 'mum'],
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A match may not touch a letter or digit on either side. Unlike \b this works for terms that start or end with a symbol ("C++").
+const countMatches = (text: string, term: string) => {
+    const normalized = term.trim();
+    if (!normalized) return 0;
+    return (text.match(new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(normalized)}(?![\\p{L}\\p{N}_])`, 'giu')) || []).length;
+};
+
+// Strips markdown syntax, links and image references so only prose is checked.
+// Hyphens inside words are kept so hyphenated terms can match; list bullets and rules are not.
+const toPlainText = (markdown: string) => markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#*_>|`]/g, ' ')
+    .replace(/(^|\s)[-:]+(?=\s|$)/g, '$1 ');
+
+const countSyllables = (word: string) => {
+    const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
+    if (cleaned.length <= 3) return 1;
+    const groups = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '').match(/[aeiouy]{1,2}/g);
+    return Math.max(1, groups?.length ?? 1);
+};
+
+/**
+ * Flesch-Kincaid grade level of a text. Returns null for texts too short to score.
+ */
+export function readingGrade(text: string): number | null {
+    const plain = toPlainText(text);
+    const sentences = plain.split(/[.!?]+\s/).filter(s => s.trim().split(/\s+/).length > 2);
+    const words: string[] = plain.match(/[A-Za-z']+/g) || [];
+    if (words.length < 30 || sentences.length === 0) return null;
+    const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+    const grade = 0.39 * (words.length / sentences.length) + 11.8 * (syllables / words.length) - 15.59;
+    return Math.round(grade * 10) / 10;
+}
+
+const wrongVariantWords = (variant: SpellingVariant) =>
+    SPELLING_PAIRS.map(([american, british]) => variant === 'British'
+        ? { wrong: american, right: british }
+        : { wrong: british, right: american });
+
+/**
+ * Checks generated text against the project's style guide.
+ */
+export function checkStyleGuide(text: string, guide: StyleGuide | null | undefined): StyleViolation[] {
+    if (!guide || !text.trim()) return [];
+    const plain = toPlainText(text);
+    const violations: StyleViolation[] = [];
+
+    for (const term of guide.bannedWords) {
+        const count = countMatches(plain, term);
+        if (count > 0) {
+            violations.push({ rule: 'bannedWord', term, count, message: `Banned word "${term}" used ${count} time${count === 1 ? '' : 's'}.` });
+        }
+    }
+
+    if (guide.spelling) {
+        for (const { wrong, right } of wrongVariantWords(guide.spelling)) {
+            const count = countMatches(plain, wrong);
+            if (count > 0) {
+                violations.push({ rule: 'spelling', term: wrong, count, message: `"${wrong}" is not ${guide.spelling} spelling, use "${right}".` });
+            }
+        }
+    }
+
+    if (guide.readingGrade !== null) {
+        const grade = readingGrade(text);
+        if (grade !== null && grade > guide.readingGrade + 1) {
+            violations.push({ rule: 'readingLevel', message: `Reading level is grade ${grade}, target is grade ${guide.readingGrade}.` });
+        }
+    }
+
+    return violations;
+}
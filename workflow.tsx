@@ -0,0 +1,173 @@
+import React from 'react';
+import { AppState, DraftSnapshot, InternalLink, Market, MarketVariant, ProjectType, ResearchData, StyleGuide, WorkflowStep } from './types';
+import { findMarketVariant } from './services/markets';
+import Setup from './components/Setup';
+import TopicIdeation from './components/IdeaLab';
+import ResearchAndOutline from './components/ContentRepurposer';
+import ArticleDrafting from './components/DraftingStudio';
+import Localization from './components/MarketLocalizer';
+import Publish from './components/AudioPublisher';
+
+// Icons
+const IconGlobe = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9V3m0 18a9 9 0 009-9m-9 9a9 9 0 00-9-9" /></svg>;
+const IconLightBulb = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 017.072 0m-11.314 0a5 5 0 007.072 0M12 21v-1m-4.657-3.343l.707-.707" /></svg>;
+const IconSearch = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>;
+const IconPencil = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.5L15.232 5.232z" /></svg>;
+const IconTranslate = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M3 5h12M9 3v2m1.048 9.5A18.022 18.022 0 016.412 9m6.088 9h7M11 21l5-10 5 10M12.751 5C11.783 10.77 8.07 15.61 3 18.129" /></svg>;
+const IconUpload = () => <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>;
+
+// Everything the app hands to the active step. Each step component picks the props it needs.
+export interface StepProps {
+    appState: AppState;
+    projectId: string;
+    // Whether the project's pipeline produces localized variants for extra markets
+    supportsMarkets: boolean;
+    onSetupComplete: (websiteUrl: string, country: string, language: string, styleGuide: StyleGuide | null, markets: Market[]) => void;
+    onTopicSelect: (topic: string) => void;
+    onOutlineComplete: (outline: string[], internalLinks: InternalLink[]) => void;
+    onDraftComplete: (draft: string) => void;
+    onImageGenerated: (url: string) => void;
+    onSnapshotsChange: (updater: (prev: DraftSnapshot[]) => DraftSnapshot[]) => void;
+    onResearchChange: (updater: (prev: ResearchData) => ResearchData) => void;
+    onMarketVariantsChange: (updater: (prev: MarketVariant[]) => MarketVariant[]) => void;
+    onLocalizationComplete: () => void;
+    onAudioGenerated: (url: string) => void;
+    onRestart: () => void;
+}
+
+// The ids are inferred from the registry below, which is where WorkflowStep comes from
+interface StepConfig<Id extends string> {
+    // Stored in saved projects, so it must stay stable once released
+    id: Id;
+    slug: string;
+    icon: React.ReactNode;
+    component: React.ComponentType<StepProps>;
+    // True once the step's output is present in the state
+    isComplete: (state: AppState) => boolean;
+    // State fields this step writes. They are cleared when an earlier step is redone.
+    produces: (keyof AppState)[];
+}
+
+export type StepDefinition = StepConfig<WorkflowStep>;
+
+export interface PipelineDefinition {
+    label: string;
+    description: string;
+    steps: WorkflowStep[];
+}
+
+const defineSteps = <Id extends string>(steps: StepConfig<Id>[]) =>
+    Object.fromEntries(steps.map(step => [step.id, step])) as { [K in Id]: StepConfig<K> };
+
+export const STEP_REGISTRY = defineSteps([
+    {
+        id: 'Setup',
+        slug: 'setup',
+        icon: <IconGlobe />,
+        component: Setup,
+        isComplete: state => !!state.websiteUrl,
+        produces: ['websiteUrl', 'country', 'language', 'styleGuide', 'markets'],
+    },
+    {
+        id: 'Topic Ideation',
+        slug: 'topic-ideation',
+        icon: <IconLightBulb />,
+        component: TopicIdeation,
+        isComplete: state => !!state.topic,
+        produces: ['topic'],
+    },
+    {
+        id: 'Research & Outline',
+        slug: 'research-outline',
+        icon: <IconSearch />,
+        component: ResearchAndOutline,
+        isComplete: state => state.outline.length > 0,
+        produces: ['research', 'outline', 'internalLinks'],
+    },
+    {
+        id: 'Drafting',
+        slug: 'drafting',
+        icon: <IconPencil />,
+        component: ArticleDrafting,
+        isComplete: state => !!state.draft,
+        produces: ['draft', 'imageUrl', 'draftSnapshots'],
+    },
+    {
+        id: 'Localization',
+        slug: 'localization',
+        icon: <IconTranslate />,
+        component: Localization,
+        isComplete: state => state.markets.length > 0 && state.markets.every(market => !!findMarketVariant(state.marketVariants, market)),
+        produces: ['marketVariants'],
+    },
+    {
+        id: 'Publish',
+        slug: 'publish',
+        icon: <IconUpload />,
+        component: Publish,
+        isComplete: () => false,
+        produces: ['audioUrl'],
+    },
+]);
+
+export const PIPELINES = {
+    article: {
+        label: 'Full Article',
+        description: 'From website setup to a published, narrated article.',
+        steps: ['Setup', 'Topic Ideation', 'Research & Outline', 'Drafting', 'Publish'],
+    },
+    multiMarket: {
+        label: 'Multi-Market Article',
+        description: 'One article, localized for several countries and languages.',
+        steps: ['Setup', 'Topic Ideation', 'Research & Outline', 'Drafting', 'Localization', 'Publish'],
+    },
+    brief: {
+        label: 'Content Brief',
+        description: 'Research and an approved outline, ready to hand to a writer.',
+        steps: ['Setup', 'Topic Ideation', 'Research & Outline'],
+    },
+} satisfies Record<string, PipelineDefinition>;
+
+export const DEFAULT_PROJECT_TYPE: ProjectType = 'article';
+
+// Saved projects and imported bundles may name a pipeline this version doesn't have
+export const isProjectType = (value: unknown): value is ProjectType =>
+    typeof value === 'string' && Object.hasOwn(PIPELINES, value);
+
+/**
+ * Resolves the ordered step definitions for a project type, falling back to the default pipeline.
+ */
+export function getPipelineSteps(type: ProjectType | undefined): StepDefinition[] {
+    const pipeline: PipelineDefinition = PIPELINES[isProjectType(type) ? type : DEFAULT_PROJECT_TYPE];
+    return pipeline.steps.map((id): StepDefinition => STEP_REGISTRY[id]);
+}
+
+export const getStepBySlug = (slug: string): StepDefinition | undefined =>
+    Object.values(STEP_REGISTRY).find(step => step.slug === slug);
+
+/**
+ * Works out how far a project has progressed from the data in its state.
+ */
+export function getInitialProgress(state: AppState, type: ProjectType | undefined): { index: number; step: WorkflowStep } {
+    const steps = getPipelineSteps(type);
+    let index = -1;
+    while (index + 1 < steps.length && steps[index + 1].isComplete(state)) index++;
+    return { index, step: steps[Math.min(index + 1, steps.length - 1)].id };
+}
+
+/**
+ * A step can be opened once every step before it in the pipeline has been completed.
+ */
+export function isStepUnlocked(type: ProjectType | undefined, step: WorkflowStep, highestCompletedStepIndex: number): boolean {
+    const index = getPipelineSteps(type).findIndex(s => s.id === step);
+    return index !== -1 && index <= highestCompletedStepIndex + 1;
+}
+
+/**
+ * State fields written by the steps after the given one, which become stale when it is redone.
+ */
+export function getDownstreamFields(type: ProjectType | undefined, step: WorkflowStep): (keyof AppState)[] {
+    const steps = getPipelineSteps(type);
+    const index = steps.findIndex(s => s.id === step);
+    return steps.slice(index + 1).flatMap(s => s.produces);
+}